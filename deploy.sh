@@ -1,7 +0,0 @@
-#!/bin/bash
-
-# Build the project
-npm run build
-
-# Deploy to Vercel
-vercel --prod 
\ No newline at end of file
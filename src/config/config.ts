@@ -1,22 +1,192 @@
+import crypto from 'crypto';
 import dotenv from 'dotenv';
 import path from 'path';
+import { getNetworkProfile, NETWORK_PROFILES } from './networks';
 
 // Load environment variables from .env file
 dotenv.config({ path: path.resolve(__dirname, '../../.env') });
 
+// Hyperliquid mainnet or testnet; supplies the defaults of every network-specific setting below
+const network = getNetworkProfile((process.env.NETWORK_ENV || 'mainnet').trim().toLowerCase());
+
 // Default values for environment variables
 const config = {
   port: process.env.PORT || 3000,
   stripeSecretKey: process.env.VITE_STRIPE_SECRET_KEY || '',
   stripeWebhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
-  // The fee we charge on top of the ramp amount (0.5%)
-  serviceFeePercent: 0.5,
+  // JSON fee schedule (tiers, minimum fee, processing fees, promo codes); 0.5% + card fees if unset
+  feeSchedulePath: process.env.FEE_SCHEDULE_PATH || '',
   
   // Hyperliquid configuration
-  hyperliquidApiUrl: process.env.HYPERLIQUID_API_URL || 'https://api.hyperliquid.xyz',
-  hyperliquidChain: process.env.HYPERLIQUID_CHAIN || 'Mainnet', // 'Mainnet' or 'Testnet'
+  network,
+  hyperliquidApiUrl: process.env.HYPERLIQUID_API_URL || network.apiUrl,
+  // Must match the network when set ('Mainnet' or 'Testnet')
+  hyperliquidChain: process.env.HYPERLIQUID_CHAIN || network.hyperliquidChain,
+  // How long to wait for the Hyperliquid API before treating a call as timed out (and retryable)
+  hyperliquidTimeoutMs: parseInt(process.env.HYPERLIQUID_TIMEOUT_MS || '10000', 10),
+  // How the hot wallet signs: 'local' (WALLET_PRIVATE_KEY), 'keystore' (an encrypted JSON keystore at
+  // SIGNER_KEYSTORE_PATH, decrypted at startup), 'remote' (a signing service at REMOTE_SIGNER_URL) or
+  // 'readonly' (nothing is signed). Remote and read-only signers need HOT_WALLET_ADDRESS; the others are
+  // checked against it when it is set
+  signerType: process.env.SIGNER_TYPE || 'local',
   walletPrivateKey: process.env.WALLET_PRIVATE_KEY || '',
-  isMainnet: process.env.NETWORK_ENV === 'mainnet',
+  hotWalletAddress: process.env.HOT_WALLET_ADDRESS || '',
+  signerKeystorePath: process.env.SIGNER_KEYSTORE_PATH || '',
+  signerKeystorePassword: process.env.SIGNER_KEYSTORE_PASSWORD || '',
+  remoteSignerUrl: process.env.REMOTE_SIGNER_URL || '',
+  remoteSignerToken: process.env.REMOTE_SIGNER_TOKEN || '',
+  remoteSignerTimeoutMs: parseInt(process.env.REMOTE_SIGNER_TIMEOUT_MS || '10000', 10),
+  // Hyperliquid API wallet approved by the hot wallet; when set it places the orders spot tokens are
+  // bought with, so the key used for trading cannot move funds
+  hyperliquidAgentPrivateKey: process.env.HYPERLIQUID_AGENT_PRIVATE_KEY || '',
+
+  // Where customers may have their USDC delivered (comma separated): hyperliquid (usdSend),
+  // arbitrum (withdraw3, Hyperliquid charges ARBITRUM_WITHDRAW_FEE_USD which is passed on)
+  // and hyperevm (ERC-20 transfer of the hot wallet's USDC on HyperEVM)
+  payoutRails: (process.env.PAYOUT_RAILS || 'hyperliquid').split(',').map(v => v.trim()).filter(Boolean),
+  arbitrumWithdrawFeeUsd: parseFloat(process.env.ARBITRUM_WITHDRAW_FEE_USD || '1'),
+  hyperEvmRpcUrl: process.env.HYPEREVM_RPC_URL || network.hyperEvmRpcUrl,
+  hyperEvmChainId: parseInt(process.env.HYPEREVM_CHAIN_ID || String(network.hyperEvmChainId), 10),
+  hyperEvmUsdcAddress: process.env.HYPEREVM_USDC_ADDRESS || '',
+  // Blocks to wait for a HyperEVM transfer, and how long to wait before leaving it to a retry
+  hyperEvmConfirmations: parseInt(process.env.HYPEREVM_CONFIRMATIONS || '1', 10),
+  hyperEvmTxTimeoutSeconds: parseInt(process.env.HYPEREVM_TX_TIMEOUT_SECONDS || '60', 10),
+
+  // Hyperliquid spot tokens customers may have delivered instead of USDC (comma separated, e.g. HYPE).
+  // A token is sent from the hot wallet's spot inventory, or bought first with an IOC order that is
+  // refunded instead of delivered short if it cannot fill within SPOT_MAX_SLIPPAGE_PERCENT of the quote
+  spotTokens: (process.env.SPOT_TOKENS || '').split(',').map(v => v.trim()).filter(Boolean),
+  spotMaxSlippagePercent: parseFloat(process.env.SPOT_MAX_SLIPPAGE_PERCENT || '1'),
+  // Hyperliquid's spot taker fee, which comes out of the tokens bought and so out of the quoted amount
+  spotTakerFeePercent: parseFloat(process.env.SPOT_TAKER_FEE_PERCENT || '0.07'),
+
+  // Currencies customers may pay in (lowercase ISO codes, comma separated) and our margin on the
+  // conversion to USD, charged as its own fee line
+  supportedCurrencies: (process.env.SUPPORTED_CURRENCIES || 'usd,eur,gbp').split(',').map(v => v.trim().toLowerCase()).filter(Boolean),
+  fxSpreadPercent: parseFloat(process.env.FX_SPREAD_PERCENT || '1'),
+  // Where exchange rates come from: 'http' fetches them from FX_RATES_URL (an open.er-api.com style
+  // response with USD as the base), 'static' uses FX_STATIC_RATES (`eur:1.08,gbp:1.27`, USD per unit)
+  fxProvider: process.env.FX_PROVIDER || 'http',
+  fxRatesUrl: process.env.FX_RATES_URL || 'https://open.er-api.com/v6/latest/USD',
+  // How long to wait for FX_RATES_URL before giving up on a rate fetch
+  fxTimeoutMs: parseInt(process.env.FX_TIMEOUT_MS || '5000', 10),
+  fxStaticRates: process.env.FX_STATIC_RATES || '',
+  // How long fetched rates are reused before fetching them again
+  fxRateCacheSeconds: parseInt(process.env.FX_RATE_CACHE_SECONDS || '60', 10),
+
+  // Payment methods offered at checkout (comma separated): card, us_bank_account (ACH Direct Debit),
+  // sepa_debit. Card wallets (Apple Pay, Google Pay) ride on card once enabled in the Stripe dashboard
+  paymentMethods: (process.env.PAYMENT_METHODS || 'card').split(',').map(v => v.trim()).filter(Boolean),
+  cardWallets: (process.env.CARD_WALLETS || '').split(',').map(v => v.trim()).filter(Boolean),
+
+  // Per-checkout amount limits (in USD cents)
+  minAmountUsdCents: parseInt(process.env.MIN_AMOUNT_USD_CENTS || '500', 10),     // $5.00
+  maxAmountUsdCents: parseInt(process.env.MAX_AMOUNT_USD_CENTS || '250000', 10),  // $2,500.00
+  // Narrower limits for some payment methods, as `method:minCents:maxCents` (comma separated)
+  paymentMethodLimits: process.env.PAYMENT_METHOD_LIMITS || '',
+
+  // Rolling caps on what one wallet, email or card may onramp (in USD, 0 disables a cap)
+  // and how many checkouts one of them may start per hour
+  dailyLimitUsd: parseInt(process.env.DAILY_LIMIT_USD || '5000', 10),
+  weeklyLimitUsd: parseInt(process.env.WEEKLY_LIMIT_USD || '10000', 10),
+  monthlyLimitUsd: parseInt(process.env.MONTHLY_LIMIT_USD || '25000', 10),
+  maxCheckoutsPerHour: parseInt(process.env.MAX_CHECKOUTS_PER_HOUR || '5', 10),
+
+  // Fraud screening of paid checkouts before payout, using the Stripe Radar outcome of the charge
+  // Risk levels and card countries (comma separated) that hold a payout for manual review or block it
+  fraudHoldRiskLevels: (process.env.FRAUD_HOLD_RISK_LEVELS ?? 'elevated').split(',').map(v => v.trim()).filter(Boolean),
+  fraudBlockRiskLevels: (process.env.FRAUD_BLOCK_RISK_LEVELS ?? 'highest').split(',').map(v => v.trim()).filter(Boolean),
+  fraudHoldCardCountries: (process.env.FRAUD_HOLD_CARD_COUNTRIES || '').split(',').map(v => v.trim().toUpperCase()).filter(Boolean),
+  fraudBlockCardCountries: (process.env.FRAUD_BLOCK_CARD_COUNTRIES || '').split(',').map(v => v.trim().toUpperCase()).filter(Boolean),
+  // Radar risk scores (0-99, only with Radar for Fraud Teams) at or above which to hold or block (0 disables)
+  fraudHoldRiskScore: parseInt(process.env.FRAUD_HOLD_RISK_SCORE || '65', 10),
+  fraudBlockRiskScore: parseInt(process.env.FRAUD_BLOCK_RISK_SCORE || '85', 10),
+  // Hold card payments that were not authenticated with 3D Secure
+  fraudRequire3ds: process.env.FRAUD_REQUIRE_3DS === 'true',
+
+  // Wallet screening: denylist files (e.g. OFAC SDN crypto addresses and our own blocked list,
+  // comma separated paths) and how often to check them for changes
+  screeningListPaths: (process.env.SCREENING_LIST_PATHS || '').split(',').map(v => v.trim()).filter(Boolean),
+  screeningReloadIntervalSeconds: parseInt(process.env.SCREENING_RELOAD_INTERVAL_SECONDS || '300', 10),
+
+  // Quotes: secret for signing quote IDs (a random one per process if unset, so quotes
+  // do not survive a restart or work across instances) and how long a quote is honoured
+  quoteSigningSecret: process.env.QUOTE_SIGNING_SECRET || crypto.randomBytes(32).toString('hex'),
+  quoteTtlSeconds: parseInt(process.env.QUOTE_TTL_SECONDS || '120', 10),
+
+  // Persistence configuration
+  storageDriver: process.env.STORAGE_DRIVER || 'file', // 'file' or 'memory'
+  dataDir: process.env.DATA_DIR || path.resolve(__dirname, '../../data'),
+
+  // How long a webhook delivery may hold the payout claim on a session before another may take it over
+  payoutLeaseSeconds: parseInt(process.env.PAYOUT_LEASE_SECONDS || '120', 10),
+
+  // Payout job queue: attempts before a payout is dead-lettered and refunded,
+  // exponential backoff between attempts and how often the worker polls for due jobs
+  payoutMaxAttempts: parseInt(process.env.PAYOUT_MAX_ATTEMPTS || '5', 10),
+  payoutBackoffBaseSeconds: parseInt(process.env.PAYOUT_BACKOFF_BASE_SECONDS || '10', 10),
+  payoutBackoffMaxSeconds: parseInt(process.env.PAYOUT_BACKOFF_MAX_SECONDS || '600', 10),
+  payoutWorkerIntervalSeconds: parseInt(process.env.PAYOUT_WORKER_INTERVAL_SECONDS || '5', 10),
+  // How often a job may find its session held by another payout before it is parked for an operator
+  payoutMaxDeferrals: parseInt(process.env.PAYOUT_MAX_DEFERRALS || '10', 10),
+  // How long succeeded and dead payout jobs are kept before they are deleted
+  payoutJobRetentionDays: parseInt(process.env.PAYOUT_JOB_RETENTION_DAYS || '30', 10),
+
+  // How long a checkout session (and the hot-wallet capacity reserved for it) stays open
+  // Stripe accepts 30 minutes to 24 hours (we add two minutes of slack on top)
+  checkoutSessionTtlMinutes: parseInt(process.env.CHECKOUT_SESSION_TTL_MINUTES || '30', 10),
+
+  // Ledger confirmation: how often to look for sends in the Hyperliquid ledger, how far a ledger
+  // entry's time may be from the signed send time, and when an unmatched send is flagged for review
+  confirmationIntervalSeconds: parseInt(process.env.CONFIRMATION_INTERVAL_SECONDS || '30', 10),
+  confirmationMatchWindowSeconds: parseInt(process.env.CONFIRMATION_MATCH_WINDOW_SECONDS || '300', 10),
+  confirmationTimeoutMinutes: parseInt(process.env.CONFIRMATION_TIMEOUT_MINUTES || '10', 10),
+
+  // Treasury monitor: how often to record the hot-wallet balances, the available balances (USD) below which
+  // to warn and raise a critical alert, the runway (hours at the current burn rate) below which to warn,
+  // the window the burn rate is worked out over, how long to keep the balance history and how often to
+  // repeat an alert that still applies
+  treasuryPollIntervalSeconds: parseInt(process.env.TREASURY_POLL_INTERVAL_SECONDS || '60', 10),
+  treasuryWarningBalanceUsd: parseFloat(process.env.TREASURY_WARNING_BALANCE_USD || '2000'),
+  treasuryCriticalBalanceUsd: parseFloat(process.env.TREASURY_CRITICAL_BALANCE_USD || '500'),
+  treasuryMinRunwayHours: parseFloat(process.env.TREASURY_MIN_RUNWAY_HOURS || '24'),
+  treasuryBurnWindowHours: parseFloat(process.env.TREASURY_BURN_WINDOW_HOURS || '24'),
+  treasuryHistoryDays: parseInt(process.env.TREASURY_HISTORY_DAYS || '30', 10),
+  treasuryAlertRepeatMinutes: parseInt(process.env.TREASURY_ALERT_REPEAT_MINUTES || '60', 10),
+
+  // Hot-wallet rebalancer: when the Hyperliquid balance drops below REBALANCE_LOW_WATER_USD, top it up to
+  // REBALANCE_HIGH_WATER_USD from REBALANCE_SOURCE: 'subaccount' (subAccountTransfer out of
+  // REBALANCE_SUBACCOUNT_ADDRESS, a sub-account of the hot wallet) or 'signer' (a usdSend signed with
+  // REBALANCE_TREASURY_PRIVATE_KEY). Unset disables it. Top-ups are capped per rolling 24 hours, and in
+  // dry-run mode they are only recorded
+  rebalanceSource: process.env.REBALANCE_SOURCE || '',
+  rebalanceSubAccountAddress: process.env.REBALANCE_SUBACCOUNT_ADDRESS || '',
+  rebalanceTreasuryPrivateKey: process.env.REBALANCE_TREASURY_PRIVATE_KEY || '',
+  rebalanceLowWaterUsd: parseFloat(process.env.REBALANCE_LOW_WATER_USD || '1000'),
+  rebalanceHighWaterUsd: parseFloat(process.env.REBALANCE_HIGH_WATER_USD || '5000'),
+  rebalanceDailyCapUsd: parseFloat(process.env.REBALANCE_DAILY_CAP_USD || '10000'),
+  rebalanceDryRun: process.env.REBALANCE_DRY_RUN === 'true',
+  rebalanceIntervalSeconds: parseInt(process.env.REBALANCE_INTERVAL_SECONDS || '300', 10),
+
+  // Daily reconciliation of Stripe against our records and the Hyperliquid ledger: the UTC hour it runs at
+  // for the previous day (empty disables the schedule), how many hours after the day payouts for it are
+  // still looked for, and where reports are written (DATA_DIR/reports by default)
+  reconciliationHourUtc: process.env.RECONCILIATION_HOUR_UTC ?? '1',
+  reconciliationSettlementHours: parseFloat(process.env.RECONCILIATION_SETTLEMENT_HOURS || '24'),
+  reconciliationReportDir: process.env.RECONCILIATION_REPORT_DIR || '',
+
+  // Where operator alerts go (comma separated): log (console), webhook (JSON POST with a Slack-compatible
+  // `text` field to ALERT_WEBHOOK_URL) and email (messages written to ALERT_EMAIL_OUTBOX_DIR, DATA_DIR/outbox
+  // by default, for a mail relay to send)
+  alertNotifiers: (process.env.ALERT_NOTIFIERS || 'log').split(',').map(v => v.trim()).filter(Boolean),
+  alertWebhookUrl: process.env.ALERT_WEBHOOK_URL || '',
+  alertEmailFrom: process.env.ALERT_EMAIL_FROM || 'alerts@hyperramp.xyz',
+  alertEmailTo: (process.env.ALERT_EMAIL_TO || '').split(',').map(v => v.trim()).filter(Boolean),
+  alertEmailOutboxDir: process.env.ALERT_EMAIL_OUTBOX_DIR || '',
+
+  // Admin API credentials: comma separated `name:key` API keys and/or a secret for HS256 JWTs
+  adminApiKeys: (process.env.ADMIN_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean),
+  adminJwtSecret: process.env.ADMIN_JWT_SECRET || '',
 };
 
 // Validate required environment variables
@@ -24,4 +194,182 @@ if (!config.stripeSecretKey) {
   throw new Error('VITE_STRIPE_SECRET_KEY is required');
 }
 
+// Settings that belong to the other network would sign for, or send to, the wrong chain
+if (config.hyperliquidChain !== network.hyperliquidChain) {
+  throw new Error(`HYPERLIQUID_CHAIN is '${config.hyperliquidChain}' but NETWORK_ENV=${network.name} signs for '${network.hyperliquidChain}'`);
+}
+
+const otherNetworks = Object.values(NETWORK_PROFILES).filter(profile => profile.name !== network.name);
+
+if (otherNetworks.some(profile => config.hyperliquidApiUrl.replace(/\/+$/, '') === profile.apiUrl)) {
+  throw new Error(`HYPERLIQUID_API_URL ${config.hyperliquidApiUrl} is not a ${network.name} API`);
+}
+
+if (config.hyperEvmChainId !== network.hyperEvmChainId) {
+  throw new Error(`HYPEREVM_CHAIN_ID must be ${network.hyperEvmChainId} on ${network.name}, got ${config.hyperEvmChainId}`);
+}
+
+if (otherNetworks.some(profile => config.hyperEvmRpcUrl.replace(/\/+$/, '') === profile.hyperEvmRpcUrl)) {
+  throw new Error(`HYPEREVM_RPC_URL ${config.hyperEvmRpcUrl} is not a ${network.name} RPC`);
+}
+
+if (!['local', 'keystore', 'remote', 'readonly'].includes(config.signerType)) {
+  throw new Error(`SIGNER_TYPE must be 'local', 'keystore', 'remote' or 'readonly', got '${config.signerType}'`);
+}
+
+if (config.hotWalletAddress && !/^0x[a-fA-F0-9]{40}$/.test(config.hotWalletAddress)) {
+  throw new Error('HOT_WALLET_ADDRESS must be an address');
+}
+
+if ((config.signerType === 'remote' || config.signerType === 'readonly') && !config.hotWalletAddress) {
+  throw new Error(`HOT_WALLET_ADDRESS is required with SIGNER_TYPE=${config.signerType}`);
+}
+
+if (config.signerType === 'keystore' && !config.signerKeystorePath) {
+  throw new Error('SIGNER_KEYSTORE_PATH is required with SIGNER_TYPE=keystore');
+}
+
+if (config.signerType === 'remote' && (!config.remoteSignerUrl || !(config.remoteSignerTimeoutMs > 0))) {
+  throw new Error('REMOTE_SIGNER_URL and a positive REMOTE_SIGNER_TIMEOUT_MS are required with SIGNER_TYPE=remote');
+}
+
+if (!(config.payoutMaxDeferrals > 0)) {
+  throw new Error('PAYOUT_MAX_DEFERRALS must be a positive number');
+}
+
+if (!(config.payoutJobRetentionDays > 0)) {
+  throw new Error('PAYOUT_JOB_RETENTION_DAYS must be a positive number');
+}
+
+if (!(config.hyperliquidTimeoutMs > 0)) {
+  throw new Error('HYPERLIQUID_TIMEOUT_MS must be a positive number');
+}
+
+if (config.checkoutSessionTtlMinutes < 30 || config.checkoutSessionTtlMinutes > 24 * 60 - 2) {
+  throw new Error('CHECKOUT_SESSION_TTL_MINUTES must be between 30 and 1438');
+}
+
+if (config.minAmountUsdCents <= 0 || config.maxAmountUsdCents < config.minAmountUsdCents) {
+  throw new Error('MAX_AMOUNT_USD_CENTS must be at least MIN_AMOUNT_USD_CENTS, which must be positive');
+}
+
+if (config.minAmountUsdCents < network.minPayoutUsdc * 100) {
+  throw new Error(`MIN_AMOUNT_USD_CENTS must be at least ${network.minPayoutUsdc * 100}, the smallest payout on ${network.name}`);
+}
+
+const unknownPayoutRails = config.payoutRails.filter(rail => !['hyperliquid', 'arbitrum', 'hyperevm'].includes(rail));
+
+if (config.payoutRails.length === 0 || unknownPayoutRails.length > 0) {
+  throw new Error(`PAYOUT_RAILS must list hyperliquid, arbitrum or hyperevm, got '${unknownPayoutRails.join(',')}'`);
+}
+
+if (config.payoutRails.includes('hyperevm') && !config.hyperEvmUsdcAddress) {
+  throw new Error('HYPEREVM_USDC_ADDRESS is required when the hyperevm payout rail is enabled');
+}
+
+if (config.spotTokens.length > 0 && !config.payoutRails.includes('hyperliquid')) {
+  throw new Error('SPOT_TOKENS needs the hyperliquid payout rail, which spot tokens are delivered on');
+}
+
+if (isNaN(config.spotMaxSlippagePercent) || config.spotMaxSlippagePercent < 0 || config.spotMaxSlippagePercent > 50) {
+  throw new Error('SPOT_MAX_SLIPPAGE_PERCENT must be between 0 and 50');
+}
+
+if (isNaN(config.spotTakerFeePercent) || config.spotTakerFeePercent < 0 || config.spotTakerFeePercent >= 100) {
+  throw new Error('SPOT_TAKER_FEE_PERCENT must be at least 0 and below 100');
+}
+
+const unknownPaymentMethods = config.paymentMethods.filter(method => !['card', 'us_bank_account', 'sepa_debit'].includes(method));
+
+if (config.paymentMethods.length === 0 || unknownPaymentMethods.length > 0) {
+  throw new Error(`PAYMENT_METHODS must list card, us_bank_account or sepa_debit, got '${unknownPaymentMethods.join(',')}'`);
+}
+
+if (config.cardWallets.some(wallet => !['apple_pay', 'google_pay'].includes(wallet))) {
+  throw new Error('CARD_WALLETS may only list apple_pay and google_pay');
+}
+
+if (!['http', 'static'].includes(config.fxProvider)) {
+  throw new Error(`FX_PROVIDER must be 'http' or 'static', got '${config.fxProvider}'`);
+}
+
+if (config.fxProvider === 'http' && !(config.fxTimeoutMs > 0)) {
+  throw new Error('FX_TIMEOUT_MS must be a positive number with FX_PROVIDER=http');
+}
+
+if (isNaN(config.fxSpreadPercent) || config.fxSpreadPercent < 0) {
+  throw new Error('FX_SPREAD_PERCENT must be a non-negative number');
+}
+
+if (
+  !(config.treasuryPollIntervalSeconds > 0) ||
+  !(config.treasuryBurnWindowHours > 0) ||
+  !(config.treasuryHistoryDays > 0) ||
+  !(config.treasuryAlertRepeatMinutes > 0)
+) {
+  throw new Error('TREASURY_POLL_INTERVAL_SECONDS, TREASURY_BURN_WINDOW_HOURS, TREASURY_HISTORY_DAYS and TREASURY_ALERT_REPEAT_MINUTES must be positive');
+}
+
+if (
+  isNaN(config.treasuryCriticalBalanceUsd) ||
+  isNaN(config.treasuryWarningBalanceUsd) ||
+  config.treasuryCriticalBalanceUsd < 0 ||
+  config.treasuryWarningBalanceUsd < config.treasuryCriticalBalanceUsd
+) {
+  throw new Error('TREASURY_WARNING_BALANCE_USD must be at least TREASURY_CRITICAL_BALANCE_USD, which must not be negative');
+}
+
+if (isNaN(config.treasuryMinRunwayHours) || config.treasuryMinRunwayHours < 0) {
+  throw new Error('TREASURY_MIN_RUNWAY_HOURS must be a non-negative number');
+}
+
+if (!['', 'subaccount', 'signer'].includes(config.rebalanceSource)) {
+  throw new Error(`REBALANCE_SOURCE must be 'subaccount' or 'signer', got '${config.rebalanceSource}'`);
+}
+
+if (config.rebalanceSource === 'subaccount' && !/^0x[a-fA-F0-9]{40}$/.test(config.rebalanceSubAccountAddress)) {
+  throw new Error('REBALANCE_SUBACCOUNT_ADDRESS must be an address when REBALANCE_SOURCE is subaccount');
+}
+
+if (config.rebalanceSource === 'signer' && !config.rebalanceTreasuryPrivateKey) {
+  throw new Error('REBALANCE_TREASURY_PRIVATE_KEY is required when REBALANCE_SOURCE is signer');
+}
+
+if (
+  config.rebalanceSource &&
+  !(config.rebalanceLowWaterUsd >= 0 && config.rebalanceHighWaterUsd > config.rebalanceLowWaterUsd)
+) {
+  throw new Error('REBALANCE_HIGH_WATER_USD must be above REBALANCE_LOW_WATER_USD, which must not be negative');
+}
+
+if (config.rebalanceSource && (!(config.rebalanceDailyCapUsd > 0) || !(config.rebalanceIntervalSeconds > 0))) {
+  throw new Error('REBALANCE_DAILY_CAP_USD and REBALANCE_INTERVAL_SECONDS must be positive');
+}
+
+if (config.reconciliationHourUtc && !/^([01]?\d|2[0-3])$/.test(config.reconciliationHourUtc)) {
+  throw new Error('RECONCILIATION_HOUR_UTC must be an hour from 0 to 23, or empty to disable the schedule');
+}
+
+if (!(config.reconciliationSettlementHours >= 0)) {
+  throw new Error('RECONCILIATION_SETTLEMENT_HOURS must be zero or more');
+}
+
+const unknownNotifiers = config.alertNotifiers.filter(notifier => !['log', 'webhook', 'email'].includes(notifier));
+
+if (unknownNotifiers.length > 0) {
+  throw new Error(`ALERT_NOTIFIERS may only list log, webhook and email, got '${unknownNotifiers.join(',')}'`);
+}
+
+if (config.alertNotifiers.includes('webhook') && !config.alertWebhookUrl) {
+  throw new Error('ALERT_WEBHOOK_URL is required when the webhook notifier is enabled');
+}
+
+if (config.alertNotifiers.includes('email') && config.alertEmailTo.length === 0) {
+  throw new Error('ALERT_EMAIL_TO is required when the email notifier is enabled');
+}
+
+if (!['file', 'memory'].includes(config.storageDriver)) {
+  throw new Error(`STORAGE_DRIVER must be 'file' or 'memory', got '${config.storageDriver}'`);
+}
+
 export default config; 
\ No newline at end of file
@@ -0,0 +1,65 @@
+// Networks the service can run against, chosen with NETWORK_ENV
+export type NetworkName = 'mainnet' | 'testnet';
+
+/**
+ * Everything that differs between Hyperliquid mainnet and testnet
+ */
+export interface NetworkProfile {
+  name: NetworkName;
+  // Default Hyperliquid API, overridable with HYPERLIQUID_API_URL (e.g. for the mock server)
+  apiUrl: string;
+  // Signed into every user-signed action as `hyperliquidChain`
+  hyperliquidChain: 'Mainnet' | 'Testnet';
+  // Chain ID user-signed actions are signed for, sent as `signatureChainId` in hex
+  signatureChainId: number;
+  // Where withdraw3 delivers USDC
+  bridgeChainName: string;
+  hyperEvmChainId: number;
+  hyperEvmRpcUrl: string;
+  // Smallest USDC amount we send to a customer on Hyperliquid
+  minPayoutUsdc: number;
+}
+
+export const NETWORK_PROFILES: Record<NetworkName, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    apiUrl: 'https://api.hyperliquid.xyz',
+    hyperliquidChain: 'Mainnet',
+    signatureChainId: 42161, // Arbitrum One
+    bridgeChainName: 'Arbitrum',
+    hyperEvmChainId: 999,
+    hyperEvmRpcUrl: 'https://rpc.hyperliquid.xyz/evm',
+    minPayoutUsdc: 5
+  },
+  testnet: {
+    name: 'testnet',
+    apiUrl: 'https://api.hyperliquid-testnet.xyz',
+    hyperliquidChain: 'Testnet',
+    signatureChainId: 421614, // Arbitrum Sepolia
+    bridgeChainName: 'Arbitrum Sepolia',
+    hyperEvmChainId: 998,
+    hyperEvmRpcUrl: 'https://rpc.hyperliquid-testnet.xyz/evm',
+    minPayoutUsdc: 1
+  }
+};
+
+/**
+ * Get the profile of a network by name
+ * @throws If there is no such network
+ */
+export function getNetworkProfile(name: string): NetworkProfile {
+  const profile = NETWORK_PROFILES[name as NetworkName];
+
+  if (!profile) {
+    throw new Error(`NETWORK_ENV must be 'mainnet' or 'testnet', got '${name}'`);
+  }
+
+  return profile;
+}
+
+/**
+ * Write a chain ID as `signatureChainId` takes it, e.g. 0xa4b1
+ */
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
@@ -0,0 +1,502 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { AdminIdentity } from '../middleware/adminAuth';
+import {
+  getAllPendingTransactions,
+  getPendingTransactionBySessionId,
+  getWalletBalance,
+  resolveTransaction
+} from '../services/onrampService';
+import { getPayoutJobBySessionId, releaseHeldPayout, retryPayout } from '../services/payoutQueueService';
+import { refundTransaction } from '../services/refundService';
+import { stripe } from '../services/stripeService';
+import { getHotWalletAddress } from '../services/hyperliquidService';
+import { getScreeningListStatus, listScreeningHits, reloadScreeningLists } from '../services/screeningService';
+import { getBalanceHistory, getTreasuryStatus } from '../services/treasuryService';
+import { listTopUps } from '../services/rebalanceService';
+import { checkLedger, getRevenueStats, listLedgerEntries } from '../services/ledgerService';
+import { auditLogRepository } from '../repositories/auditLogRepository';
+import { TransactionState, hasPayoutStarted } from '../repositories/transactionRepository';
+
+// Most transactions returned by the list endpoint when no limit is given
+const DEFAULT_LIST_LIMIT = 100;
+
+/**
+ * Record an admin action in the audit log
+ * A failure to write the log is reported but does not fail the request
+ */
+async function audit(
+  req: Request,
+  res: Response,
+  action: string,
+  outcome: 'success' | 'failure',
+  target?: string,
+  details?: Record<string, unknown>
+): Promise<void> {
+  const admin = res.locals.admin as AdminIdentity;
+
+  try {
+    await auditLogRepository.append({
+      id: `audit_${crypto.randomUUID()}`,
+      actor: `${admin.method}:${admin.id}`,
+      action,
+      target,
+      details,
+      outcome,
+      ip: req.ip,
+      createdAt: new Date()
+    });
+  } catch (error) {
+    console.error('❌ Error writing audit log:', error);
+  }
+}
+
+/**
+ * Parse an optional date query parameter
+ */
+function parseDateParam(value: unknown): Date | undefined | null {
+  if (typeof value !== 'string' || !value) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * List transactions, newest first
+ * Query: status, wallet, needsReview (true/false), from and to (ISO dates, on createdAt), limit
+ */
+export const listTransactions = async (req: Request, res: Response) => {
+  const { status, wallet, needsReview } = req.query;
+  const from = parseDateParam(req.query.from);
+  const to = parseDateParam(req.query.to);
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_LIST_LIMIT;
+
+  if (from === null || to === null) {
+    return res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+  }
+
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ success: false, message: 'limit must be a positive number' });
+  }
+
+  try {
+    const statuses = typeof status === 'string' && status ? status.split(',') as TransactionState[] : undefined;
+    const walletAddress = typeof wallet === 'string' && wallet ? wallet.toLowerCase() : undefined;
+
+    const transactions = (await getAllPendingTransactions())
+      .filter(tx => !statuses || statuses.includes(tx.status))
+      .filter(tx => !walletAddress || tx.walletAddress.toLowerCase() === walletAddress)
+      .filter(tx => needsReview === undefined || !!tx.needsReview === (needsReview === 'true'))
+      .filter(tx => !from || tx.createdAt >= from)
+      .filter(tx => !to || tx.createdAt <= to)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    await audit(req, res, 'transactions.list', 'success', undefined, { query: req.query });
+
+    return res.status(200).json({
+      success: true,
+      total: transactions.length,
+      transactions: transactions.slice(0, limit)
+    });
+  } catch (error) {
+    console.error('Error listing transactions:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to list transactions',
+    });
+  }
+};
+
+/**
+ * Get one transaction together with its payout job
+ */
+export const getTransaction = async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const transaction = await getPendingTransactionBySessionId(sessionId);
+    const payoutJob = await getPayoutJobBySessionId(sessionId);
+
+    await audit(req, res, 'transactions.view', 'success', sessionId);
+
+    if (!transaction && !payoutJob) {
+      return res.status(404).json({ success: false, message: 'Transaction not found' });
+    }
+
+    return res.status(200).json({ success: true, transaction, payoutJob });
+  } catch (error) {
+    console.error('Error getting transaction:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to get transaction',
+    });
+  }
+};
+
+/**
+ * Queue a failed payout again, with a fresh set of attempts
+ */
+export const retryTransactionPayout = async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const payoutJob = await retryPayout(sessionId);
+    await audit(req, res, 'payout.retry', 'success', sessionId);
+
+    return res.status(200).json({ success: true, payoutJob });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to retry payout';
+    await audit(req, res, 'payout.retry', 'failure', sessionId, { error: message });
+
+    return res.status(400).json({ success: false, message });
+  }
+};
+
+/**
+ * Release a payout that fraud screening held for review
+ */
+export const releaseHeldTransaction = async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+
+  try {
+    const payoutJob = await releaseHeldPayout(sessionId);
+    await audit(req, res, 'payout.release', 'success', sessionId);
+
+    return res.status(200).json({ success: true, payoutJob });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to release payout';
+    await audit(req, res, 'payout.release', 'failure', sessionId, { error: message });
+
+    return res.status(400).json({ success: false, message });
+  }
+};
+
+/**
+ * Mark a transaction as resolved by hand
+ * Body: { note } explaining what was done
+ */
+export const resolveTransactionManually = async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { note } = req.body || {};
+  const admin = res.locals.admin as AdminIdentity;
+
+  if (!note || typeof note !== 'string') {
+    return res.status(400).json({ success: false, message: 'A note explaining the resolution is required' });
+  }
+
+  try {
+    const transaction = await resolveTransaction(sessionId, admin.id, note);
+
+    if (!transaction) {
+      await audit(req, res, 'transactions.resolve', 'failure', sessionId, { note, error: 'Transaction not found' });
+      return res.status(404).json({ success: false, message: 'Transaction not found' });
+    }
+
+    await audit(req, res, 'transactions.resolve', 'success', sessionId, { note });
+    return res.status(200).json({ success: true, transaction });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to resolve transaction';
+    await audit(req, res, 'transactions.resolve', 'failure', sessionId, { note, error: message });
+
+    return res.status(400).json({ success: false, message });
+  }
+};
+
+/**
+ * Refund the customer's Stripe payment for a transaction
+ * A transaction whose payout may have sent USDC is only refunded with `force`, which the audit log records.
+ * Body: { reason, force }
+ */
+export const refundTransactionManually = async (req: Request, res: Response) => {
+  const { sessionId } = req.params;
+  const { reason, force } = req.body || {};
+
+  if (!reason || typeof reason !== 'string') {
+    return res.status(400).json({ success: false, message: 'A refund reason is required' });
+  }
+
+  try {
+    const tx = await getPendingTransactionBySessionId(sessionId);
+
+    if (tx?.status === 'processing') {
+      await audit(req, res, 'transactions.refund', 'failure', sessionId, { reason, error: 'Payout in progress' });
+      return res.status(409).json({ success: false, message: 'A payout is in progress for this transaction' });
+    }
+
+    if (tx && hasPayoutStarted(tx) && force !== true) {
+      await audit(req, res, 'transactions.refund', 'failure', sessionId, { reason, error: 'Payout already started' });
+      return res.status(409).json({
+        success: false,
+        message: 'A payout was already started for this transaction and may have sent USDC; pass force to refund it anyway'
+      });
+    }
+
+    let paymentIntentId = tx?.paymentIntentId;
+
+    // Transactions created before the payment intent was recorded still have it on the session
+    if (!paymentIntentId) {
+      const session = await stripe.checkout.sessions.retrieve(sessionId);
+      paymentIntentId = typeof session.payment_intent === 'string'
+        ? session.payment_intent
+        : session.payment_intent?.id;
+    }
+
+    if (!paymentIntentId) {
+      await audit(req, res, 'transactions.refund', 'failure', sessionId, { reason, error: 'No payment to refund' });
+      return res.status(400).json({ success: false, message: 'The session has no payment to refund' });
+    }
+
+    const transaction = await refundTransaction(sessionId, paymentIntentId, `Manual refund: ${reason}`);
+    const failed = transaction?.status === 'refund_failed';
+
+    await audit(req, res, 'transactions.refund', failed ? 'failure' : 'success', sessionId, {
+      reason,
+      paymentIntentId,
+      ...(force === true ? { force: true, previousStatus: tx?.status } : {}),
+      ...(failed ? { error: transaction?.refundError } : {})
+    });
+
+    return res.status(failed ? 502 : 200).json({
+      success: !failed,
+      transaction,
+      ...(failed ? { message: transaction?.refundError } : {})
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to refund transaction';
+    await audit(req, res, 'transactions.refund', 'failure', sessionId, { reason, error: message });
+
+    return res.status(500).json({ success: false, message });
+  }
+};
+
+/**
+ * Get the hot wallet's balance and what is committed against it
+ */
+export const getHotWalletBalance = async (req: Request, res: Response) => {
+  try {
+    const balanceInfo = await getWalletBalance();
+    await audit(req, res, 'wallet.balance', 'success');
+
+    return res.status(200).json({
+      success: true,
+      address: getHotWalletAddress(),
+      ...balanceInfo
+    });
+  } catch (error) {
+    console.error('Error getting hot wallet balance:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to get hot wallet balance',
+    });
+  }
+};
+
+/**
+ * Get the current balance, burn rate and runway of each hot wallet and their recorded history
+ * Query: hours of history (defaults to 24), source (core or evm)
+ */
+export const getTreasury = async (req: Request, res: Response) => {
+  const hours = req.query.hours ? parseFloat(req.query.hours as string) : 24;
+  const source = req.query.source as string | undefined;
+
+  if (isNaN(hours) || hours <= 0) {
+    return res.status(400).json({ success: false, message: 'hours must be a positive number' });
+  }
+
+  if (source !== undefined && source !== 'core' && source !== 'evm') {
+    return res.status(400).json({ success: false, message: "source must be 'core' or 'evm'" });
+  }
+
+  try {
+    const statuses = await getTreasuryStatus();
+    const history = await getBalanceHistory(hours, source);
+    await audit(req, res, 'treasury.view', 'success');
+
+    return res.status(200).json({
+      success: true,
+      sources: statuses.filter(status => !source || status.snapshot.source === source),
+      history
+    });
+  } catch (error) {
+    console.error('Error getting treasury status:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to get treasury status',
+    });
+  }
+};
+
+/**
+ * Get the most recent hot-wallet top-ups, including dry runs and failed ones
+ * Query: limit (defaults to 100)
+ */
+export const getTopUps = async (req: Request, res: Response) => {
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_LIST_LIMIT;
+
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ success: false, message: 'limit must be a positive number' });
+  }
+
+  try {
+    const topUps = await listTopUps(limit);
+    await audit(req, res, 'treasury.top_ups', 'success');
+
+    return res.status(200).json({ success: true, topUps });
+  } catch (error) {
+    console.error('Error listing top-ups:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to list top-ups',
+    });
+  }
+};
+
+/**
+ * List ledger entries, oldest first
+ * Query: sessionId, from and to (ISO dates, on when the entry occurred), limit (the newest, defaults to 100)
+ */
+export const getLedgerEntries = async (req: Request, res: Response) => {
+  const from = parseDateParam(req.query.from);
+  const to = parseDateParam(req.query.to);
+  const sessionId = typeof req.query.sessionId === 'string' && req.query.sessionId ? req.query.sessionId : undefined;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_LIST_LIMIT;
+
+  if (from === null || to === null) {
+    return res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+  }
+
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ success: false, message: 'limit must be a positive number' });
+  }
+
+  try {
+    const entries = await listLedgerEntries({ from, to, stripeSessionId: sessionId }, limit);
+    await audit(req, res, 'ledger.list', 'success', sessionId, { query: req.query });
+
+    return res.status(200).json({ success: true, entries });
+  } catch (error) {
+    console.error('Error listing ledger entries:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to list ledger entries',
+    });
+  }
+};
+
+/**
+ * Get revenue, costs and volume from the ledger
+ * Query: from and to (ISO dates; all time if unset)
+ */
+export const getRevenue = async (req: Request, res: Response) => {
+  const from = parseDateParam(req.query.from);
+  const to = parseDateParam(req.query.to);
+
+  if (from === null || to === null) {
+    return res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+  }
+
+  try {
+    const stats = await getRevenueStats(from, to);
+    await audit(req, res, 'ledger.revenue', 'success', undefined, { query: req.query });
+
+    return res.status(200).json({
+      success: true,
+      from: from?.toISOString(),
+      to: to?.toISOString(),
+      ...stats
+    });
+  } catch (error) {
+    console.error('Error getting revenue stats:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to get revenue stats',
+    });
+  }
+};
+
+/**
+ * Check that every ledger entry and account balances and nothing settled is still owed
+ */
+export const getLedgerCheck = async (req: Request, res: Response) => {
+  try {
+    const check = await checkLedger(await getAllPendingTransactions());
+    await audit(req, res, 'ledger.check', 'success', undefined, { balanced: check.balanced });
+
+    return res.status(200).json({ success: true, ...check });
+  } catch (error) {
+    console.error('Error checking ledger:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to check ledger',
+    });
+  }
+};
+
+/**
+ * Get the screening lists in use and the most recent blocked addresses
+ * Query: limit (defaults to 100)
+ */
+export const getScreening = async (req: Request, res: Response) => {
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_LIST_LIMIT;
+
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ success: false, message: 'limit must be a positive number' });
+  }
+
+  try {
+    const hits = await listScreeningHits(limit);
+    await audit(req, res, 'screening.view', 'success');
+
+    return res.status(200).json({ success: true, lists: getScreeningListStatus(), hits });
+  } catch (error) {
+    console.error('Error getting screening status:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to get screening status',
+    });
+  }
+};
+
+/**
+ * Reload the screening lists from disk right away
+ */
+export const reloadScreening = async (req: Request, res: Response) => {
+  try {
+    const lists = reloadScreeningLists();
+    await audit(req, res, 'screening.reload', 'success', undefined, {
+      lists: lists.map(list => ({ name: list.name, addresses: list.addresses }))
+    });
+
+    return res.status(200).json({ success: true, lists });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to reload screening lists';
+    await audit(req, res, 'screening.reload', 'failure', undefined, { error: message });
+
+    return res.status(500).json({ success: false, message });
+  }
+};
+
+/**
+ * Read the audit log, newest first
+ * Query: limit (defaults to 100)
+ */
+export const getAuditLog = async (req: Request, res: Response) => {
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_LIST_LIMIT;
+
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ success: false, message: 'limit must be a positive number' });
+  }
+
+  try {
+    const entries = await auditLogRepository.list(limit);
+    return res.status(200).json({ success: true, entries });
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    return res.status(500).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to read audit log',
+    });
+  }
+};
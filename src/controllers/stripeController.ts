@@ -3,28 +3,336 @@ import Stripe from 'stripe';
 import config from '../config/config';
 import { 
   getWalletBalance, 
-  processDeposit, 
   getTransactionStatus,
-  getAllTransactionStatuses,
-  getTotalOnrampedAmount
+  getWalletFreeze
 } from '../services/onrampService';
+import {
+  handleAsyncPaymentFailed,
+  handleAsyncPaymentSucceeded,
+  handleCheckoutSessionCompleted,
+  handleCheckoutSessionExpired,
+  handleDisputeCreated,
+  handleChargeUpdated
+} from '../services/checkoutEventService';
+import { stripe } from '../services/stripeService';
+import { canSign } from '../services/signerService';
+import { getTotalDisbursed } from '../services/ledgerService';
+import { handleChargeRefunded, handleRefundEvent } from '../services/refundService';
+import {
+  attachReservationToSession,
+  releaseReservation,
+  releaseSessionReservation,
+  reserveCapacity
+} from '../services/reservationService';
+import {
+  LimitViolation,
+  attachUsageToSession,
+  getRemainingAllowance,
+  recordCheckout,
+  voidSessionUsage,
+  voidUsage
+} from '../services/limitsService';
+import { recordScreeningHit, screenWalletAddress } from '../services/screeningService';
+import {
+  AmountMode,
+  FeeBreakdown,
+  attachPromoRedemptionToSession,
+  calculateFees,
+  calculateFeesForTotal,
+  checkPromoCode,
+  describeProcessingFee,
+  describeServiceFee,
+  redeemPromoCode,
+  releasePromoRedemption,
+  releaseSessionPromoRedemption,
+  toBreakdownResponse
+} from '../services/feeService';
+import {
+  FxRate,
+  formatMinorUnits,
+  fromMinorUnits,
+  getFxRate,
+  isSupportedCurrency,
+  toMinorUnits
+} from '../services/fxService';
+import {
+  PaymentMethodInfo,
+  checkPaymentMethod,
+  getPaymentMethod,
+  getPaymentMethods,
+  isDelayedSettlement
+} from '../services/paymentMethodService';
+import { PayoutRail, getEnabledPayoutRail, getPayoutRails } from '../services/payoutRailService';
+import { createQuote, readQuote } from '../services/quoteService';
+import { findSpotToken, getSpotTokens, priceSpotDelivery } from '../services/spotService';
+import { SpotDelivery } from '../repositories/transactionRepository';
+import { webhookEventRepository } from '../repositories/webhookEventRepository';
 
-// Initialize Stripe with the secret key
-const stripe = new Stripe(config.stripeSecretKey);
+/**
+ * Respond with the limit a checkout would break
+ */
+function sendLimitViolation(res: Response, violation: LimitViolation) {
+  if (violation.retryAfterSeconds) {
+    res.setHeader('Retry-After', violation.retryAfterSeconds.toString());
+  }
+  
+  return res.status(violation.httpStatus).json({
+    success: false,
+    code: violation.code,
+    message: violation.message,
+    limit: {
+      subject: violation.subject,
+      window: violation.window,
+      limit: violation.limit,
+      used: violation.used,
+      remaining: violation.remaining,
+      retryAfterSeconds: violation.retryAfterSeconds
+    }
+  });
+}
 
-// Maximum amount allowed for onramp (in USD cents)
-const MAX_AMOUNT_USD_CENTS = 250000; // $2,500.00
-const MIN_AMOUNT_USD_CENTS = 500;   // $5.00
+/**
+ * Check an onramp amount (in USD cents) against the per-checkout limits of its payment method
+ * @returns Why the amount is not allowed, if it is not
+ */
+function checkAmountLimits(amountCents: number, method: PaymentMethodInfo): string | undefined {
+  if (amountCents > method.maxAmountUsdCents) {
+    return `Amount cannot exceed $${method.maxAmountUsdCents / 100} with ${method.label}`;
+  }
+  
+  if (amountCents < method.minAmountUsdCents) {
+    return `Amount must be at least $${method.minAmountUsdCents / 100} with ${method.label}`;
+  }
+  
+  return undefined;
+}
+
+/**
+ * Read the currency a quote or checkout request pays in, USD by default
+ */
+function readCurrency(body: any): { currency?: string; error?: string } {
+  const currency = body.currency === undefined ? 'usd' : String(body.currency).toLowerCase();
+  return isSupportedCurrency(currency) ? { currency } : { error: `Unsupported currency: ${body.currency}` };
+}
+
+/**
+ * Read the rail a quote or checkout request wants the USDC delivered on, the first enabled rail by default
+ */
+function readPayoutRail(body: any): { rail?: PayoutRail; error?: string } {
+  if (body.payoutRail === undefined) {
+    return { rail: getPayoutRails()[0] };
+  }
+  
+  const rail = getEnabledPayoutRail(String(body.payoutRail));
+  return rail ? { rail } : { error: `Unsupported payout rail: ${body.payoutRail}` };
+}
+
+/**
+ * Read the spot token a quote or checkout request wants instead of USDC, if any
+ * Spot tokens are only delivered on Hyperliquid.
+ */
+function readSpotToken(body: any, rail: PayoutRail): { token?: string; error?: string } {
+  if (body.token === undefined || String(body.token).toUpperCase() === 'USDC') {
+    return {};
+  }
+  
+  const token = findSpotToken(String(body.token));
+  
+  if (!token) {
+    return { error: `Unsupported token: ${body.token}` };
+  }
+  
+  return rail.id === 'hyperliquid' ? { token } : { error: `${token} can only be delivered on Hyperliquid` };
+}
+
+/**
+ * Read the amount a quote or checkout request asks for
+ * Either receiveAmount (the USDC to deliver; `amount` is accepted for it too) or payAmount
+ * (the exact total to charge, in the payment currency).
+ * @returns The amount in USD cents to receive, or in minor units of the currency to pay
+ */
+function readRequestedAmount(body: any, currency: string): { mode?: AmountMode; amountCents?: number; error?: string } {
+  const receiveAmount = body.receiveAmount ?? body.amount;
+  const { payAmount } = body;
+  
+  if (receiveAmount !== undefined && payAmount !== undefined) {
+    return { error: 'Give either receiveAmount or payAmount, not both' };
+  }
+  
+  const value = payAmount ?? receiveAmount;
+  
+  if (!value || typeof value !== 'number' || value <= 0) {
+    return { error: 'Valid amount is required (must be a positive number)' };
+  }
+  
+  return payAmount !== undefined
+    ? { mode: 'pay', amountCents: toMinorUnits(value, currency) }
+    : { mode: 'receive', amountCents: Math.round(value * 100) };
+}
+
+/**
+ * Price an onramp from the amount, currency, payment method and promo code in a quote or checkout request
+ * A request in another currency locks in the current exchange rate. The rail's network fee is passed on.
+ * A request for a spot token locks in the amount of the token the USDC amount buys.
+ * @returns The fees (and spot token delivery), or why the request cannot be priced and the status to answer with
+ */
+async function priceRequest(
+  body: any,
+  rail: PayoutRail
+): Promise<{ fees?: FeeBreakdown; spotDelivery?: SpotDelivery; error?: string; status?: number }> {
+  const { currency, error: currencyError } = readCurrency(body);
+  
+  if (!currency) {
+    return { error: currencyError };
+  }
+  
+  const { token, error: tokenError } = readSpotToken(body, rail);
+  
+  if (tokenError) {
+    return { error: tokenError };
+  }
+  
+  const { mode, amountCents, error } = readRequestedAmount(body, currency);
+  
+  if (error) {
+    return { error };
+  }
+  
+  const paymentMethod = body.paymentMethod === undefined ? 'card' : String(body.paymentMethod);
+  const methodError = checkPaymentMethod(paymentMethod, currency);
+  
+  if (methodError) {
+    return { error: methodError };
+  }
+  
+  const { promoCode } = body;
+  const promoError = promoCode !== undefined ? checkPromoCode(String(promoCode)) : undefined;
+  
+  if (promoError) {
+    return { error: promoError };
+  }
+  
+  let fx: FxRate | undefined;
+  
+  try {
+    fx = await getFxRate(currency);
+  } catch (fxError) {
+    console.error('❌ Error getting exchange rate:', fxError);
+    return { error: `Cannot convert ${currency.toUpperCase()} right now, please try again later`, status: 503 };
+  }
+  
+  const networkFeeCents = Math.round(rail.networkFee * 100);
+  const fees = mode === 'pay'
+    ? calculateFeesForTotal(amountCents!, { paymentMethod, promoCode, fx, networkFeeCents })
+    : calculateFees(amountCents!, { paymentMethod, promoCode, fx, networkFeeCents });
+  
+  if (!fees) {
+    return { error: 'Amount to pay does not cover the fees' };
+  }
+  
+  const limitError = checkAmountLimits(fees.baseAmountCents, getPaymentMethod(paymentMethod)!);
+  
+  if (limitError) {
+    return { error: limitError };
+  }
+  
+  if (!token) {
+    return { fees };
+  }
+  
+  try {
+    const { delivery, error: spotError } = await priceSpotDelivery(token, fees.baseAmountCents / 100);
+    return delivery ? { fees, spotDelivery: delivery } : { error: spotError };
+  } catch (spotError) {
+    console.error(`❌ Error pricing ${token}:`, spotError);
+    return { error: `Cannot price ${token} right now, please try again later`, status: 503 };
+  }
+}
+
+/**
+ * Quote the fees for an onramp without creating a checkout session
+ * The returned quote ID can be passed to create-checkout to be charged exactly the quoted total,
+ * at the quoted exchange rate.
+ * Body: { receiveAmount | payAmount, currency?, paymentMethod?, payoutRail?, token?, walletAddress?, promoCode? } -
+ * with a wallet address the quote is only valid for that wallet
+ */
+export const createQuoteHandler = async (req: Request, res: Response) => {
+  try {
+    const { walletAddress } = req.body;
+    const { rail, error: railError } = readPayoutRail(req.body);
+    
+    if (!rail) {
+      return res.status(400).json({ message: railError });
+    }
+    
+    if (walletAddress !== undefined) {
+      const addressError = typeof walletAddress === 'string'
+        ? rail.validateDestination(walletAddress)
+        : 'Invalid wallet address format';
+      
+      if (addressError) {
+        return res.status(400).json({ message: addressError });
+      }
+    }
+    
+    const { fees, spotDelivery, error, status } = await priceRequest(req.body, rail);
+    
+    if (!fees) {
+      return res.status(status || 400).json({ message: error });
+    }
+    
+    const quote = createQuote(fees, rail.id, walletAddress, spotDelivery);
+    
+    return res.status(200).json({
+      success: true,
+      quoteId: quote.id,
+      expiresAt: quote.expiresAt.toISOString(),
+      payoutRail: quote.payoutRail,
+      ...(quote.spotDelivery ? { spotDelivery: quote.spotDelivery } : {}),
+      breakdown: toBreakdownResponse(quote.fees)
+    });
+  } catch (error) {
+    console.error('Error creating quote:', error);
+    return res.status(500).json({
+      message: error instanceof Error ? error.message : 'Failed to create quote',
+    });
+  }
+};
 
 /**
  * Create a Stripe checkout session
+ * Body: { receiveAmount | payAmount, currency?, paymentMethod?, payoutRail?, token?, walletAddress, email?, promoCode?, quoteId? } -
+ * receiveAmount adds the fees on top, payAmount charges exactly that and delivers what is left after
+ * fees. The customer pays in `currency` (USD by default) with `paymentMethod` (card by default); bank
+ * debits are only paid out once Stripe reports the payment settled. The USDC is delivered on
+ * `payoutRail` (the first enabled rail by default), or as the spot `token` it buys on Hyperliquid. With a
+ * quote ID the amount, currency, payment method, payout rail, token amount, exchange rate and promo
+ * code come from the quote and the customer is charged exactly the quoted total.
  */
 export const createCheckoutSession = async (req: Request, res: Response) => {
   try {
-    const { amount, walletAddress } = req.body;
+    const { walletAddress, email, quoteId } = req.body;
+    
+    // A read-only service would take payments it cannot pay out
+    if (!canSign()) {
+      return res.status(503).json({ message: 'Onramping is paused: the service is running read-only' });
+    }
+    
+    if (quoteId !== undefined && (typeof quoteId !== 'string' || quoteId.length > 2000)) {
+      return res.status(400).json({ message: 'Invalid quote ID' });
+    }
+    
+    // Without a quote the amount is priced below; with one it is only checked against the quote
+    const { currency, error: currencyError } = readCurrency(req.body);
+    
+    if (!currency) {
+      return res.status(400).json({ message: currencyError });
+    }
+    
+    const requested = readRequestedAmount(req.body, currency);
     
-    if (!amount || typeof amount !== 'number' || amount <= 0) {
-      return res.status(400).json({ message: 'Valid amount is required (must be a positive number)' });
+    if (!quoteId && requested.error) {
+      return res.status(400).json({ message: requested.error });
     }
     
     if (!walletAddress || typeof walletAddress !== 'string') {
@@ -36,123 +344,309 @@ export const createCheckoutSession = async (req: Request, res: Response) => {
       return res.status(400).json({ message: 'Invalid wallet address format' });
     }
     
-    // Convert to cents for precision
-    const baseAmountCents = Math.round(amount * 100);
+    // A quote fixes the rail; the requested one is checked against it below
+    const requestedRail = readPayoutRail(req.body);
     
-    // Verify amount is within limits
-    if (baseAmountCents > MAX_AMOUNT_USD_CENTS) {
-      return res.status(400).json({ message: `Amount cannot exceed $${MAX_AMOUNT_USD_CENTS / 100}` });
+    if (!quoteId && !requestedRail.rail) {
+      return res.status(400).json({ message: requestedRail.error });
     }
     
-    if (baseAmountCents < MIN_AMOUNT_USD_CENTS) {
-      return res.status(400).json({ message: `Amount must be at least $${MIN_AMOUNT_USD_CENTS / 100}` });
+    // The email is optional; given up front, its limits are checked before the customer pays
+    if (email !== undefined && (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email))) {
+      return res.status(400).json({ message: 'Invalid email address' });
     }
     
-    // Check if we have enough balance for this onramp
-    try {
-      const { availableForOnramp } = await getWalletBalance();
+    // Refuse addresses on a sanctions list or our own denylist
+    const screeningMatch = screenWalletAddress(walletAddress);
+    
+    if (screeningMatch) {
+      await recordScreeningHit(screeningMatch, 'checkout');
+      return res.status(403).json({ message: 'This wallet address cannot be used for onramp' });
+    }
+    
+    // Refuse wallets frozen by a dispute
+    if (await getWalletFreeze(walletAddress)) {
+      return res.status(403).json({ message: 'This wallet address cannot be used for onramp' });
+    }
+    
+    // Charge the quoted fees if the customer was shown a quote, otherwise price the amount now
+    let fees: FeeBreakdown;
+    let rail: PayoutRail;
+    let spotDelivery: SpotDelivery | undefined;
+    
+    if (quoteId) {
+      const { quote, error } = readQuote(quoteId, walletAddress);
       
-      if (availableForOnramp < amount) {
-        return res.status(400).json({
-          message: `Insufficient balance for onramp. Maximum available: $${availableForOnramp.toFixed(2)}`,
-          availableForOnramp
-        });
+      if (!quote) {
+        return res.status(400).json({ message: error });
       }
-    } catch (error) {
-      console.error('Error checking wallet balance:', error);
-      // Continue with the checkout creation even if balance check fails
-      // We'll check again when processing the payment
-    }
-    
-    // Calculate our service fee (0.5%) - ADDED ON TOP of the base amount
-    const serviceFeePercent = config.serviceFeePercent;
-    const serviceFeeCents = Math.round(baseAmountCents * (serviceFeePercent / 100));
-    
-    // Calculate subtotal (base amount + service fee)
-    const subtotalCents = baseAmountCents + serviceFeeCents;
-    
-    // Calculate Stripe's processing fee (2.9% + $0.30) - based on the subtotal
-    const stripeFeePercent = 2.9;
-    const stripeFeeFixed = 30; // 30 cents
-    const stripeFeeCents = Math.round(subtotalCents * (stripeFeePercent / 100)) + stripeFeeFixed;
-    
-    // Total amount to be charged to the user
-    const totalAmountCents = subtotalCents + stripeFeeCents;
-    
-    // Create a Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ['card'],
-      // Only collect minimal billing details
-      billing_address_collection: 'required',
-      line_items: [
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: 'USDC Deposit',
-              description: `${amount.toFixed(2)} USDC to your wallet`,
-            },
-            unit_amount: baseAmountCents,
+      
+      if (req.body.currency !== undefined && currency !== quote.fees.charge.currency) {
+        return res.status(400).json({ message: 'Currency does not match the quote' });
+      }
+      
+      if (req.body.paymentMethod !== undefined && req.body.paymentMethod !== quote.fees.paymentMethod) {
+        return res.status(400).json({ message: 'Payment method does not match the quote' });
+      }
+      
+      // The method may have been switched off since the quote was issued
+      if (!getPaymentMethod(quote.fees.paymentMethod)) {
+        return res.status(400).json({ message: `Unsupported payment method: ${quote.fees.paymentMethod}` });
+      }
+      
+      if (req.body.payoutRail !== undefined && req.body.payoutRail !== quote.payoutRail) {
+        return res.status(400).json({ message: 'Payout rail does not match the quote' });
+      }
+      
+      // So may the rail
+      const quotedRail = getEnabledPayoutRail(quote.payoutRail);
+      
+      if (!quotedRail) {
+        return res.status(400).json({ message: `Unsupported payout rail: ${quote.payoutRail}` });
+      }
+      
+      rail = quotedRail;
+      
+      const quotedToken = quote.spotDelivery?.token || 'USDC';
+      
+      if (req.body.token !== undefined && String(req.body.token).toUpperCase() !== quotedToken.toUpperCase()) {
+        return res.status(400).json({ message: 'Token does not match the quote' });
+      }
+      
+      // And so may the token
+      if (quote.spotDelivery && !findSpotToken(quote.spotDelivery.token)) {
+        return res.status(400).json({ message: `Unsupported token: ${quote.spotDelivery.token}` });
+      }
+      
+      spotDelivery = quote.spotDelivery;
+      
+      if (requested.mode && requested.mode !== quote.fees.mode) {
+        return res.status(400).json({ message: 'Amount mode does not match the quote' });
+      }
+      
+      const quotedCents = quote.fees.mode === 'pay' ? quote.fees.charge.total : quote.fees.baseAmountCents;
+      
+      if (requested.amountCents !== undefined && requested.amountCents !== quotedCents) {
+        return res.status(400).json({ message: 'Amount does not match the quote' });
+      }
+      
+      // The amount limits were checked when the quote was issued
+      fees = quote.fees;
+    } else {
+      rail = requestedRail.rail!;
+      const priced = await priceRequest(req.body, rail);
+      
+      if (!priced.fees) {
+        return res.status(priced.status || 400).json({ message: priced.error });
+      }
+      
+      fees = priced.fees;
+      spotDelivery = priced.spotDelivery;
+    }
+    
+    // Check the address can be paid on the rail (HyperEVM, for one, refuses system addresses)
+    const addressError = rail.validateDestination(walletAddress);
+    
+    if (addressError) {
+      return res.status(400).json({ message: addressError });
+    }
+    
+    const { baseAmountCents, serviceFeeCents, stripeFeeCents, totalAmountCents, charge } = fees;
+    const baseAmount = baseAmountCents / 100;
+    
+    // Count the checkout against the rolling caps and velocity rule of the wallet (and email)
+    const { usage, violation } = await recordCheckout({ walletAddress, email }, baseAmount);
+    
+    if (!usage) {
+      return sendLimitViolation(res, violation!);
+    }
+    
+    // Reserve capacity on the balance the rail pays from until the session completes or expires
+    const { reservation, availableForOnramp } = await reserveCapacity(walletAddress, baseAmount + rail.networkFee, rail.source);
+    
+    if (!reservation) {
+      await voidUsage(usage.id);
+      const available = availableForOnramp || 0;
+      return res.status(400).json({
+        message: `Insufficient balance for onramp. Maximum available: $${available.toFixed(2)}`,
+        availableForOnramp: available
+      });
+    }
+    
+    // Use up one of the promo code's uses
+    const promoRedemption = fees.promoCode ? await redeemPromoCode(fees.promoCode) : undefined;
+    
+    if (fees.promoCode && !promoRedemption) {
+      await releaseReservation(reservation.id, 'promo code used up');
+      await voidUsage(usage.id);
+      return res.status(400).json({ message: 'Promo code has no uses left' });
+    }
+    
+    // Line items are charged in the customer's currency, converted at the locked-in rate
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+      {
+        price_data: {
+          currency: charge.currency,
+          product_data: spotDelivery
+            ? {
+                name: `${spotDelivery.token} Purchase`,
+                description: `${spotDelivery.amount} ${spotDelivery.token} (${baseAmount.toFixed(2)} USDC) to your wallet on ${rail.label}`,
+              }
+            : {
+                name: 'USDC Deposit',
+                description: `${baseAmount.toFixed(2)} USDC to your wallet on ${rail.label}`,
+              },
+          unit_amount: charge.baseAmount,
+        },
+        quantity: 1,
+      }
+    ];
+    
+    // A promo code can waive the service fee entirely
+    if (charge.serviceFee > 0) {
+      lineItems.push({
+        price_data: {
+          currency: charge.currency,
+          product_data: {
+            name: 'Service Fee',
+            description: describeServiceFee(fees),
           },
-          quantity: 1,
+          unit_amount: charge.serviceFee,
         },
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: 'Service Fee',
-              description: `${serviceFeePercent}% service fee`,
-            },
-            unit_amount: serviceFeeCents,
+        quantity: 1,
+      });
+    }
+    
+    if (charge.networkFee > 0) {
+      lineItems.push({
+        price_data: {
+          currency: charge.currency,
+          product_data: {
+            name: 'Network Fee',
+            description: `${rail.label} withdrawal fee`,
           },
-          quantity: 1,
+          unit_amount: charge.networkFee,
         },
-        {
-          price_data: {
-            currency: 'usd',
-            product_data: {
-              name: 'Processing Fee',
-              description: `Stripe processing fee (${stripeFeePercent}% + $0.30)`,
-            },
-            unit_amount: stripeFeeCents,
+        quantity: 1,
+      });
+    }
+    
+    if (fees.fx && charge.fxFee > 0) {
+      lineItems.push({
+        price_data: {
+          currency: charge.currency,
+          product_data: {
+            name: 'Currency Conversion Fee',
+            description: `${fees.fx.spreadPercent}% conversion fee at 1 ${charge.currency.toUpperCase()} = ${fees.fx.usdPerUnit.toFixed(4)} USD`,
           },
-          quantity: 1,
-        }
-      ],
-      custom_text: {
-        submit: {
-          message: `You will receive exactly ${amount.toFixed(2)} USDC. Service and processing fees are added to your total.`
-        }
-      },
-      // Remove phone number collection
-      phone_number_collection: {
-        enabled: false,
-      },
-      // Email is always collected by default for receipts
-      mode: 'payment',
-      success_url: `${req.headers.origin}/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: `${req.headers.origin}/?canceled=true`,
-      // Store a note explaining the fee structure
-      metadata: {
-        baseAmount: amount.toString(),
-        serviceFeePercent: serviceFeePercent.toString(),
-        serviceFeeCents: serviceFeeCents.toString(),
-        stripeFeeCents: stripeFeeCents.toString(),
-        totalAmountCents: totalAmountCents.toString(),
-        walletAddress: walletAddress,
-        note: 'User pays USDC amount + service fee + Stripe processing fee',
+          unit_amount: charge.fxFee,
+        },
+        quantity: 1,
+      });
+    }
+    
+    lineItems.push({
+      price_data: {
+        currency: charge.currency,
+        product_data: {
+          name: 'Processing Fee',
+          description: describeProcessingFee(fees),
+        },
+        unit_amount: charge.processingFee,
       },
+      quantity: 1,
     });
     
+    // Create a Stripe checkout session that expires together with the reservation
+    let session: Stripe.Checkout.Session;
+    
+    try {
+      session = await stripe.checkout.sessions.create({
+        payment_method_types: [fees.paymentMethod as Stripe.Checkout.SessionCreateParams.PaymentMethodType],
+        // Only collect minimal billing details
+        billing_address_collection: 'required',
+        line_items: lineItems,
+        custom_text: {
+          submit: {
+            message: (fees.mode === 'pay'
+              ? `You will be charged exactly ${formatMinorUnits(charge.total, charge.currency)} and receive ${baseAmount.toFixed(2)} USDC after fees.`
+              : `You will receive exactly ${baseAmount.toFixed(2)} USDC. Service and processing fees are added to your total.`)
+              + (spotDelivery ? ` Your USDC buys exactly ${spotDelivery.amount} ${spotDelivery.token}; if the price moves too far before it is bought, you are refunded instead.` : '')
+              + (isDelayedSettlement(fees.paymentMethod) ? ' Bank payments take a few business days to clear; your USDC is sent once it does.' : '')
+          }
+        },
+        // Remove phone number collection
+        phone_number_collection: {
+          enabled: false,
+        },
+        // Email is always collected by default for receipts
+        ...(email ? { customer_email: email } : {}),
+        mode: 'payment',
+        success_url: `${req.headers.origin}/success?session_id={CHECKOUT_SESSION_ID}`,
+        cancel_url: `${req.headers.origin}/?canceled=true`,
+        expires_at: Math.floor(reservation.expiresAt.getTime() / 1000),
+        // Store a note explaining the fee structure
+        metadata: {
+          amountMode: fees.mode,
+          baseAmount: baseAmount.toString(),
+          paymentMethod: fees.paymentMethod,
+          serviceFeePercent: fees.serviceFeePercent.toString(),
+          serviceFeeFlatCents: fees.serviceFeeFlatCents.toString(),
+          serviceFeeCents: serviceFeeCents.toString(),
+          discountCents: fees.discountCents.toString(),
+          roundingAdjustmentCents: fees.roundingAdjustmentCents.toString(),
+          ...(fees.promoCode ? { promoCode: fees.promoCode } : {}),
+          stripeFeeCents: stripeFeeCents.toString(),
+          totalAmountCents: totalAmountCents.toString(),
+          // What the customer was charged, in minor units of the charge currency
+          currency: charge.currency,
+          chargeTotal: charge.total.toString(),
+          ...(fees.fx ? {
+            fxUsdPerUnit: fees.fx.usdPerUnit.toString(),
+            fxSpreadPercent: fees.fx.spreadPercent.toString(),
+            fxFeeCents: fees.fxFeeCents.toString(),
+            fxProvider: fees.fx.provider,
+            fxFetchedAt: fees.fx.fetchedAt
+          } : {}),
+          walletAddress: walletAddress,
+          payoutRail: rail.id,
+          networkFeeCents: fees.networkFeeCents.toString(),
+          ...(spotDelivery ? {
+            spotToken: spotDelivery.token,
+            spotAmount: spotDelivery.amount.toString(),
+            spotQuotedPrice: spotDelivery.quotedPrice.toString(),
+            spotMaxPrice: spotDelivery.maxPrice.toString()
+          } : {}),
+          reservationId: reservation.id,
+          limitUsageId: usage.id,
+          quoted: quoteId ? 'true' : 'false',
+          note: fees.mode === 'pay'
+            ? 'User pays a fixed total; USDC amount is what remains after service fee, network fee, FX fee and Stripe processing fee'
+            : 'User pays USDC amount + service fee + network fee + FX fee + Stripe processing fee',
+        },
+      });
+    } catch (error) {
+      await releaseReservation(reservation.id, 'checkout creation failed');
+      await voidUsage(usage.id);
+      
+      if (promoRedemption) {
+        await releasePromoRedemption(promoRedemption.id);
+      }
+      throw error;
+    }
+    
+    await attachReservationToSession(reservation.id, session.id, new Date(session.expires_at * 1000));
+    await attachUsageToSession(usage.id, session.id);
+    
+    if (promoRedemption) {
+      await attachPromoRedemptionToSession(promoRedemption.id, session.id);
+    }
+    
     return res.status(200).json({
       sessionId: session.id,
       url: session.url,
-      breakdown: {
-        baseAmount: amount,
-        serviceFee: serviceFeeCents / 100,
-        stripeFee: stripeFeeCents / 100,
-        totalAmount: totalAmountCents / 100
-      }
+      breakdown: toBreakdownResponse(fees),
+      ...(spotDelivery ? { spotDelivery } : {})
     });
   } catch (error) {
     console.error('Error creating checkout session:', error);
@@ -187,8 +681,12 @@ export const verifySession = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Session not found' });
     }
     
+    // A completed bank debit stays unpaid until it settles, days later
+    const awaitingSettlement = session.status === 'complete' && session.payment_status === 'unpaid'
+      && isDelayedSettlement(session.metadata?.paymentMethod || 'card');
+    
     // Check if payment was successful
-    if (session.payment_status !== 'paid') {
+    if (session.payment_status !== 'paid' && !awaitingSettlement) {
       return res.status(400).json({
         success: false,
         message: `Payment status is ${session.payment_status}`,
@@ -198,29 +696,43 @@ export const verifySession = async (req: Request, res: Response) => {
     // Get the base amount from metadata
     const baseAmount = parseFloat(session.metadata?.baseAmount || '0');
     const serviceFee = parseFloat(session.metadata?.serviceFeeCents || '0') / 100;
+    const discount = parseFloat(session.metadata?.discountCents || '0') / 100;
     const stripeFee = parseFloat(session.metadata?.stripeFeeCents || '0') / 100;
     const totalPaid = parseFloat(session.metadata?.totalAmountCents || '0') / 100;
     const walletAddress = session.metadata?.walletAddress || '';
     
     // Check if we have a transaction status for this session
-    const txStatus = getTransactionStatus(id);
+    const txStatus = await getTransactionStatus(id);
     
     // Return session details
     return res.status(200).json({
       success: true,
       session: {
         id: session.id,
+        amountMode: session.metadata?.amountMode || 'receive',
         baseAmount: baseAmount,
         serviceFee: serviceFee,
+        serviceFeePercent: parseFloat(session.metadata?.serviceFeePercent || '0'),
+        discount: discount,
+        promoCode: session.metadata?.promoCode,
+        networkFee: parseFloat(session.metadata?.networkFeeCents || '0') / 100,
+        fxFee: parseFloat(session.metadata?.fxFeeCents || '0') / 100,
         stripeFee: stripeFee,
+        paymentMethod: session.metadata?.paymentMethod || 'card',
         totalPaid: totalPaid,
+        currency: session.currency || 'usd',
+        amountCharged: session.amount_total !== null ? fromMinorUnits(session.amount_total, session.currency || 'usd') : totalPaid,
         walletAddress: walletAddress,
+        payoutRail: session.metadata?.payoutRail || 'hyperliquid',
+        token: session.metadata?.spotToken || 'USDC',
+        tokenAmount: session.metadata?.spotToken ? parseFloat(session.metadata.spotAmount || '0') : baseAmount,
         paymentStatus: session.payment_status,
+        awaitingSettlement,
         customer: session.customer,
         customerDetails: session.customer_details,
       },
       transaction: txStatus || {
-        status: 'pending',
+        status: awaitingSettlement ? 'awaiting_payment' : 'pending',
         sessionId: id,
         walletAddress,
         amount: baseAmount,
@@ -236,6 +748,44 @@ export const verifySession = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Cancel an open checkout session and release the capacity reserved for it
+ * Called by the frontend when the user comes back through the cancel URL
+ */
+export const cancelCheckoutSession = async (req: Request, res: Response) => {
+  try {
+    const { sessionId } = req.body;
+    
+    if (!sessionId || typeof sessionId !== 'string' || sessionId.trim() === '') {
+      return res.status(400).json({ message: 'Valid session ID is required' });
+    }
+    
+    // Validate session ID format (basic check for potential injection)
+    if (sessionId.length > 100 || /[<>]/.test(sessionId)) {
+      return res.status(400).json({ message: 'Invalid session ID format' });
+    }
+    
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+    
+    // Only open sessions can be expired; completed ones keep their reservation for the payout
+    if (session.status !== 'open') {
+      return res.status(409).json({ message: `Session is ${session.status}` });
+    }
+    
+    await stripe.checkout.sessions.expire(sessionId);
+    await releaseSessionReservation(sessionId, 'cancelled');
+    await voidSessionUsage(sessionId);
+    await releaseSessionPromoRedemption(sessionId);
+    
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling checkout session:', error);
+    return res.status(500).json({
+      message: error instanceof Error ? error.message : 'Failed to cancel checkout session',
+    });
+  }
+};
+
 /**
  * Handle Stripe webhook events
  */
@@ -265,84 +815,66 @@ export const handleWebhook = async (req: Request, res: Response) => {
     return res.status(400).json({ message: 'Webhook signature verification failed' });
   }
   
+  // Drop events Stripe has already delivered to us
+  let isNewEvent: boolean;
+  
+  try {
+    isNewEvent = await webhookEventRepository.recordIfNew(event.id, event.type);
+  } catch (err) {
+    console.error('❌ Failed to record webhook event:', err);
+    // Let Stripe retry the delivery later
+    return res.status(500).json({ message: 'Failed to record webhook event' });
+  }
+  
+  if (!isNewEvent) {
+    console.log(`♻️ Duplicate webhook event ${event.id} ignored`);
+    return res.status(200).json({ received: true, duplicate: true });
+  }
+  
   // Handle the event
-  switch (event.type) {
-    case 'checkout.session.completed':
-      const session = event.data.object as Stripe.Checkout.Session;
-      console.log(`💰 Checkout session completed: ${session.id}`);
-      console.log(`Payment status: ${session.payment_status}`);
-      
-      // Make sure the payment was successful
-      if (session.payment_status === 'paid') {
-        console.log('✅ Payment was successful!');
+  try {
+    switch (event.type) {
+      case 'checkout.session.completed':
+        await handleCheckoutSessionCompleted(event.data.object as Stripe.Checkout.Session);
+        break;
         
-        // Get the wallet address and amount from the session metadata
-        const walletAddress = session.metadata?.walletAddress;
-        const baseAmount = parseFloat(session.metadata?.baseAmount || '0');
+      case 'checkout.session.async_payment_succeeded':
+        await handleAsyncPaymentSucceeded(event.data.object as Stripe.Checkout.Session);
+        break;
         
-        console.log('📝 Session metadata:', session.metadata);
+      case 'checkout.session.async_payment_failed':
+        await handleAsyncPaymentFailed(event.data.object as Stripe.Checkout.Session);
+        break;
         
-        if (walletAddress && baseAmount) {
-          console.log(`🔑 Wallet Address: ${walletAddress}`);
-          console.log(`💵 Amount: ${baseAmount} USDC`);
-          
-          try {
-            // Process the USDC deposit to Hyperliquid using our onramp service
-            console.log('🔄 About to process deposit...');
-            const result = await processDeposit(session.id, walletAddress, baseAmount);
-            console.log('📊 Process deposit result:', JSON.stringify(result, null, 2));
-            
-            if (result.success) {
-              console.log(`🚀 Successfully processed USDC deposit of ${baseAmount} to ${walletAddress}`);
-              console.log(`🧾 Transaction hash: ${result.txHash}`);
-              
-              // We no longer delete the transaction immediately
-              // It will be cleaned up by the scheduled job after 24 hours
-            } else {
-              console.error(`❌ Failed to process deposit: ${result.error}`);
-              console.log('💸 Attempting to issue refund...');
-              
-              // Issue a refund to the customer
-              try {
-                if (session.payment_intent) {
-                  const paymentIntentId = typeof session.payment_intent === 'string' 
-                    ? session.payment_intent 
-                    : session.payment_intent.id;
-                  
-                  console.log(`💸 Issuing refund for payment intent: ${paymentIntentId}`);
-                  
-                  const refund = await stripe.refunds.create({
-                    payment_intent: paymentIntentId,
-                    reason: 'requested_by_customer',
-                  });
-                  
-                  console.log(`✅ Refund issued: ${refund.id}`);
-                  
-                  // We no longer delete the transaction immediately
-                  // It will be cleaned up by the scheduled job after 24 hours
-                } else {
-                  console.error('❌ Cannot issue refund: No payment intent found in session');
-                }
-              } catch (refundError) {
-                console.error('❌ Error issuing refund:', refundError);
-              }
-            }
-          } catch (error) {
-            console.error('❌ Error processing USDC deposit:', error);
-            // Note: We're still returning a 200 to Stripe to acknowledge receipt
-            // You should implement proper error handling and retry logic
-          }
-        } else {
-          console.error('❌ Missing wallet address or amount in session metadata');
-          console.error('Metadata received:', session.metadata);
-        }
-      } else {
-        console.log(`⚠️ Payment status is not 'paid': ${session.payment_status}`);
-      }
-      break;
-      
-    default:
-      console.log(`ℹ️ Unhandled event type: ${event.type}`);
+      case 'checkout.session.expired':
+        await handleCheckoutSessionExpired(event.data.object as Stripe.Checkout.Session);
+        break;
+        
+      case 'charge.dispute.created':
+        await handleDisputeCreated(event.data.object as Stripe.Dispute);
+        break;
+        
+      case 'refund.updated':
+      case 'refund.failed':
+        await handleRefundEvent(event.data.object as Stripe.Refund);
+        break;
+        
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+        
+      case 'charge.updated':
+        await handleChargeUpdated(event.data.object as Stripe.Charge);
+        break;
+        
+      default:
+        console.log(`ℹ️ Unhandled event type: ${event.type}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error handling ${event.type}:`, error);
+    // Forget the event so Stripe's retry of it is not dropped as a duplicate
+    await webhookEventRepository.forget(event.id).catch(() => undefined);
+    return res.status(500).json({ message: `Failed to handle ${event.type}` });
   }
   
   // Return a 200 response to acknowledge receipt of the event
@@ -352,6 +884,8 @@ export const handleWebhook = async (req: Request, res: Response) => {
 
 /**
  * Get the current wallet balance and available amount for onramp
+ * With a walletAddress query parameter, maxAmount also accounts for what is left
+ * of that wallet's rolling limits. Each payout rail reports what it can deliver from its own balance.
  */
 export const getOnrampCapacity = async (req: Request, res: Response) => {
   // Explicitly set CORS headers for this endpoint
@@ -366,13 +900,58 @@ export const getOnrampCapacity = async (req: Request, res: Response) => {
   }
   
   try {
+    const { walletAddress } = req.query;
     const balanceInfo = await getWalletBalance();
+    let maxAmount = Math.min(balanceInfo.availableForOnramp, config.maxAmountUsdCents / 100);
+    
+    const limits = typeof walletAddress === 'string' && /^0x[a-fA-F0-9]{40}$/.test(walletAddress)
+      ? await getRemainingAllowance({ walletAddress })
+      : undefined;
+    
+    if (limits) {
+      maxAmount = Math.min(maxAmount, ...limits.map(allowance => allowance.remaining));
+    }
+    
+    // Each payment method's own limits, within what can be onramped overall right now
+    const paymentMethods = getPaymentMethods().map(method => ({
+      type: method.type,
+      label: method.label,
+      currencies: method.currencies,
+      delayedSettlement: method.delayedSettlement,
+      wallets: method.wallets,
+      minAmount: method.minAmountUsdCents / 100,
+      maxAmount: Math.min(maxAmount, method.maxAmountUsdCents / 100)
+    }));
+    
+    // Rails pay from different balances and the network fee comes out of the same balance
+    const payoutRails = [];
+    
+    for (const rail of getPayoutRails()) {
+      const railBalance = rail.source === 'core' ? balanceInfo : await getWalletBalance(rail.source);
+      const availableForOnramp = Math.max(0, railBalance.availableForOnramp - rail.networkFee);
+      
+      payoutRails.push({
+        id: rail.id,
+        label: rail.label,
+        networkFee: rail.networkFee,
+        availableForOnramp,
+        maxAmount: Math.min(
+          availableForOnramp,
+          config.maxAmountUsdCents / 100,
+          ...(limits ? limits.map(allowance => allowance.remaining) : [])
+        )
+      });
+    }
     
     return res.status(200).json({
       success: true,
       ...balanceInfo,
-      maxAmount: Math.min(balanceInfo.availableForOnramp, MAX_AMOUNT_USD_CENTS / 100),
-      minAmount: MIN_AMOUNT_USD_CENTS / 100
+      maxAmount,
+      minAmount: config.minAmountUsdCents / 100,
+      paymentMethods,
+      payoutRails,
+      spotTokens: getSpotTokens(),
+      ...(limits ? { limits } : {})
     });
   } catch (error) {
     console.error('Error getting onramp capacity:', error);
@@ -405,7 +984,7 @@ export const getTransactionStatusById = async (req: Request, res: Response) => {
       });
     }
     
-    const txStatus = getTransactionStatus(sessionId);
+    const txStatus = await getTransactionStatus(sessionId);
     
     if (!txStatus) {
       return res.status(404).json({ 
@@ -428,31 +1007,11 @@ export const getTransactionStatusById = async (req: Request, res: Response) => {
 };
 
 /**
- * Get all transaction statuses
- */
-export const getAllTransactions = async (req: Request, res: Response) => {
-  try {
-    const transactions = getAllTransactionStatuses();
-    
-    return res.status(200).json({
-      success: true,
-      transactions
-    });
-  } catch (error) {
-    console.error('Error getting all transactions:', error);
-    return res.status(500).json({
-      success: false,
-      message: error instanceof Error ? error.message : 'Failed to get all transactions',
-    });
-  }
-};
-
-/**
- * Get the total amount onramped
+ * Get the total amount onramped, as the USDC the ledger records sent to customers
  */
 export const getTotalOnramped = async (req: Request, res: Response) => {
   try {
-    const totalAmount = getTotalOnrampedAmount();
+    const totalAmount = await getTotalDisbursed();
     
     return res.status(200).json({
       success: true,
@@ -466,4 +1025,23 @@ export const getTotalOnramped = async (req: Request, res: Response) => {
       message: error instanceof Error ? error.message : 'Failed to get total onramped amount',
     });
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Get the network the service runs on, so the frontend can show it
+ */
+export const getNetwork = async (req: Request, res: Response) => {
+  const { network } = config;
+
+  return res.status(200).json({
+    success: true,
+    network: network.name,
+    isTestnet: network.name !== 'mainnet',
+    hyperliquidChain: config.hyperliquidChain,
+    hyperliquidApiUrl: config.hyperliquidApiUrl,
+    signatureChainId: network.signatureChainId,
+    bridgeChainName: network.bridgeChainName,
+    hyperEvmChainId: config.hyperEvmChainId,
+    minPayoutUsdc: network.minPayoutUsdc
+  });
+};
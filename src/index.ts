@@ -2,7 +2,17 @@ import express from 'express';
 import config from './config/config';
 import stripeRoutes from './routes/stripeRoutes';
 import onrampRoutes from './routes/onrampRoutes';
+import adminRoutes from './routes/adminRoutes';
 import { corsMiddleware } from './middleware/cors';
+import { startPayoutJobPruner, startPayoutWorker } from './services/payoutQueueService';
+import { startConfirmationMonitor } from './services/confirmationService';
+import { startReservationSweeper } from './services/reservationService';
+import { startLimitUsagePruner } from './services/limitsService';
+import { reloadScreeningLists, startScreeningListReloader } from './services/screeningService';
+import { startTreasuryMonitor } from './services/treasuryService';
+import { startRebalancer } from './services/rebalanceService';
+import { canSign, unlockSigner } from './services/signerService';
+import { startReconciliationScheduler } from './services/reconciliationService';
 
 // Initialize Express
 const app = express();
@@ -19,6 +29,7 @@ app.use(express.json());
 // Routes
 app.use('/api', stripeRoutes);
 app.use('/api/onramp', onrampRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Health check route
 app.get('/health', (req, res) => {
@@ -38,8 +49,49 @@ app.use((err: any, req: express.Request, res: express.Response, next: express.Ne
   });
 });
 
-// Start the server
-app.listen(config.port, () => {
+// Unlock the hot wallet's signer, then start the server
+unlockSigner().then(() => app.listen(config.port, () => {
   console.log(`Server running on port ${config.port}`);
   console.log(`API available at http://localhost:${config.port}/api`);
-}); 
\ No newline at end of file
+  
+  // Process queued USDC payouts in the background; a read-only service leaves them queued
+  if (canSign()) {
+    startPayoutWorker();
+  } else {
+    console.warn('⚠️ Running read-only: payouts stay queued and the hot wallet is not topped up');
+  }
+  
+  // Confirm sent payouts against the Hyperliquid ledger
+  startConfirmationMonitor();
+  
+  // Release capacity reserved for checkouts that expired
+  startReservationSweeper();
+  
+  // Forget checkouts older than the longest limit window
+  startLimitUsagePruner();
+  
+  // Delete payout jobs that finished longer ago than PAYOUT_JOB_RETENTION_DAYS
+  startPayoutJobPruner();
+  
+  // Load the wallet screening lists now and again whenever they change
+  try {
+    reloadScreeningLists();
+  } catch (error) {
+    console.error('❌ Error loading screening lists, checkouts and payouts will fail until they load:', error);
+  }
+  startScreeningListReloader();
+  
+  // Record hot-wallet balances and alert when they run low
+  startTreasuryMonitor();
+  
+  // Top the hot wallet up from the treasury when it runs low
+  if (canSign()) {
+    startRebalancer();
+  }
+  
+  // Reconcile Stripe, our records and the Hyperliquid ledger for the previous day
+  startReconciliationScheduler();
+}), error => {
+  console.error('❌ Could not unlock the signer:', error);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import config from '../config/config';
+
+// The authenticated operator, available to admin handlers as res.locals.admin
+export interface AdminIdentity {
+  id: string;
+  method: 'api_key' | 'jwt';
+}
+
+/**
+ * Compare two strings in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+}
+
+/**
+ * Match a bearer token against the configured API keys
+ * Keys are configured as `name:key` pairs so the audit log can tell operators apart
+ */
+function verifyApiKey(token: string): AdminIdentity | undefined {
+  for (const entry of config.adminApiKeys) {
+    const separator = entry.indexOf(':');
+    const name = separator > 0 ? entry.substring(0, separator) : 'api-key';
+    const key = separator > 0 ? entry.substring(separator + 1) : entry;
+
+    if (key && safeEqual(token, key)) {
+      return { id: name, method: 'api_key' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Verify an HS256 JWT signed with ADMIN_JWT_SECRET
+ * The token must carry a `sub` (the operator) and an unexpired `exp`
+ */
+function verifyJwt(token: string): AdminIdentity | undefined {
+  if (!config.adminJwtSecret) {
+    return undefined;
+  }
+
+  const parts = token.split('.');
+
+  if (parts.length !== 3) {
+    return undefined;
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+
+  try {
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'));
+
+    if (header.alg !== 'HS256') {
+      return undefined;
+    }
+
+    const expected = crypto
+      .createHmac('sha256', config.adminJwtSecret)
+      .update(`${encodedHeader}.${encodedPayload}`)
+      .digest('base64url');
+
+    if (!safeEqual(signature, expected)) {
+      return undefined;
+    }
+
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+
+    if (typeof payload.sub !== 'string' || typeof payload.exp !== 'number') {
+      return undefined;
+    }
+
+    if (payload.exp * 1000 < Date.now()) {
+      return undefined;
+    }
+
+    return { id: payload.sub, method: 'jwt' };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Require an admin API key or JWT in the Authorization header (`Bearer <token>`)
+ */
+export function adminAuthMiddleware(req: Request, res: Response, next: NextFunction) {
+  if (config.adminApiKeys.length === 0 && !config.adminJwtSecret) {
+    return res.status(503).json({ success: false, message: 'Admin API is not configured' });
+  }
+
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+
+  if (!match) {
+    return res.status(401).json({ success: false, message: 'Missing bearer token' });
+  }
+
+  const token = match[1].trim();
+  const admin = verifyApiKey(token) || verifyJwt(token);
+
+  if (!admin) {
+    return res.status(401).json({ success: false, message: 'Invalid or expired credentials' });
+  }
+
+  res.locals.admin = admin;
+  next();
+}
@@ -0,0 +1,467 @@
+import crypto from 'crypto';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import {
+  AGENT_TYPES,
+  L1_DOMAIN,
+  L2Level,
+  LedgerUpdate,
+  OrderStatus,
+  OrderWire,
+  SpotMeta,
+  USER_SIGNED_ACTION_TYPES,
+  USER_SIGNED_DOMAIN,
+  l1ActionHash
+} from '../services/hyperliquidClient';
+import { getNetworkProfile } from '../config/networks';
+
+/**
+ * In-process stand-in for the Hyperliquid API, for integration tests
+ * Point HYPERLIQUID_API_URL (or a HyperliquidClient) at it. It keeps perp and spot balances, a ledger
+ * and used nonces in memory, checks the signature of every /exchange action to find who sent it, and
+ * can be told to fail the next requests. Run this file directly to start it on its own:
+ * `MOCK_HYPERLIQUID_BALANCES=0xabc...:1000 npm run mock:hyperliquid`.
+ */
+
+// A canned failure for the next request to an endpoint (any endpoint if unset)
+export interface MockFailure {
+  endpoint?: '/info' | '/exchange';
+  // Answer with this HTTP status, or 200 with `body` (e.g. `{ status: 'err', response: '...' }`)
+  status?: number;
+  body?: unknown;
+  // Wait this long before answering, to run a client into its timeout
+  delayMs?: number;
+}
+
+// An /exchange action the mock accepted or refused, and who signed it
+export interface MockExchangeCall {
+  action: Record<string, any>;
+  nonce: number;
+  signer: string;
+  response: unknown;
+}
+
+// Everything the mock knows; addresses are lowercase
+export interface MockHyperliquidState {
+  chain: string;
+  // Withdrawable USDC of each perp account
+  perpBalances: Record<string, number>;
+  // Spot balances of each account, by coin
+  spotBalances: Record<string, Record<string, number>>;
+  // Master account of each sub-account
+  subAccounts: Record<string, string>;
+  // Account each approved API (agent) wallet trades for
+  agents: Record<string, string>;
+  ledger: Record<string, LedgerUpdate[]>;
+  usedNonces: Record<string, Set<number>>;
+  spotMeta: SpotMeta;
+  // Resting orders of each spot market, by coin: bids then asks
+  books: Record<string, [L2Level[], L2Level[]]>;
+  failures: MockFailure[];
+  exchangeCalls: MockExchangeCall[];
+}
+
+/**
+ * Create an empty mock state, with USDC as spot token 0
+ */
+export function createMockHyperliquidState(seed: Partial<MockHyperliquidState> = {}): MockHyperliquidState {
+  return {
+    chain: 'Mainnet',
+    perpBalances: {},
+    spotBalances: {},
+    subAccounts: {},
+    agents: {},
+    ledger: {},
+    usedNonces: {},
+    spotMeta: {
+      tokens: [{ name: 'USDC', index: 0, tokenId: '0x6d1e7cde53ba9467b783cb7c530ce054', szDecimals: 8, weiDecimals: 8 }],
+      universe: []
+    },
+    books: {},
+    failures: [],
+    exchangeCalls: [],
+    ...seed
+  };
+}
+
+function randomHash(): string {
+  return `0x${crypto.randomBytes(32).toString('hex')}`;
+}
+
+function addLedgerUpdate(state: MockHyperliquidState, users: string[], delta: LedgerUpdate['delta']): void {
+  const update = { time: Date.now(), hash: randomHash(), delta };
+
+  for (const user of new Set(users.map(u => u.toLowerCase()))) {
+    (state.ledger[user] ||= []).push(update);
+  }
+}
+
+function spotBalance(state: MockHyperliquidState, user: string, coin: string): number {
+  return state.spotBalances[user]?.[coin] || 0;
+}
+
+function addSpotBalance(state: MockHyperliquidState, user: string, coin: string, amount: number): void {
+  const balances = (state.spotBalances[user] ||= {});
+  balances[coin] = (balances[coin] || 0) + amount;
+}
+
+/**
+ * Recover the address that signed an /exchange request
+ */
+function recoverSigner(state: MockHyperliquidState, action: Record<string, any>, nonce: number, signature: any): string {
+  if (action.type === 'order' || action.type === 'subAccountTransfer') {
+    return ethers.utils.verifyTypedData(L1_DOMAIN, AGENT_TYPES, {
+      source: state.chain === 'Mainnet' ? 'a' : 'b',
+      connectionId: l1ActionHash(action, nonce)
+    }, signature).toLowerCase();
+  }
+
+  const definition = USER_SIGNED_ACTION_TYPES[action.type];
+
+  if (!definition) {
+    throw new Error(`Unsupported action type ${action.type}`);
+  }
+
+  // Hyperliquid only takes actions meant for its own chain
+  if (action.hyperliquidChain !== state.chain) {
+    throw new Error(`Action is for ${action.hyperliquidChain}, this is ${state.chain}`);
+  }
+
+  const message: Record<string, unknown> = { hyperliquidChain: action.hyperliquidChain };
+
+  for (const field of definition.fields) {
+    message[field.name] = action[field.name];
+  }
+
+  return ethers.utils.verifyTypedData(
+    { ...USER_SIGNED_DOMAIN, chainId: parseInt(action.signatureChainId, 16) },
+    { [`HyperliquidTransaction:${definition.primaryType}`]: [{ name: 'hyperliquidChain', type: 'string' }, ...definition.fields] },
+    message,
+    signature
+  ).toLowerCase();
+}
+
+/**
+ * Fill an order against the book of its market, taking liquidity up to the limit price
+ * Unfilled IOC orders are cancelled; what is left of other orders is reported resting but not kept.
+ */
+function fillOrder(state: MockHyperliquidState, signer: string, order: OrderWire): OrderStatus {
+  const market = state.spotMeta.universe.find(m => m.index === order.a - 10000);
+
+  if (!market) {
+    return { error: `Unknown asset ${order.a}` };
+  }
+
+  const base = state.spotMeta.tokens.find(t => t.index === market.tokens[0])!.name;
+  const book = state.books[market.name] || [[], []];
+  const levels = order.b ? book[1] : book[0];
+  const limit = parseFloat(order.p);
+  let remaining = parseFloat(order.s);
+  let filled = 0;
+  let notional = 0;
+
+  while (remaining > 1e-12 && levels.length > 0) {
+    const level = levels[0];
+    const px = parseFloat(level.px);
+
+    if (order.b ? px > limit : px < limit) {
+      break;
+    }
+
+    const size = Math.min(remaining, parseFloat(level.sz));
+
+    if (order.b && spotBalance(state, signer, 'USDC') < notional + size * px) {
+      return { error: 'Insufficient spot balance to place order' };
+    }
+
+    filled += size;
+    notional += size * px;
+    remaining -= size;
+
+    const left = parseFloat(level.sz) - size;
+
+    if (left > 1e-12) {
+      level.sz = left.toString();
+    } else {
+      levels.shift();
+    }
+  }
+
+  if (filled === 0) {
+    return order.t.limit.tif === 'Ioc'
+      ? { error: `Order could not immediately match against any resting orders. asset=${order.a}` }
+      : { resting: { oid: Date.now() } };
+  }
+
+  addSpotBalance(state, signer, base, order.b ? filled : -filled);
+  addSpotBalance(state, signer, 'USDC', order.b ? -notional : notional);
+
+  return { filled: { totalSz: filled.toString(), avgPx: (notional / filled).toString(), oid: Date.now() } };
+}
+
+/**
+ * Carry out a signed action
+ * @returns What /exchange answers
+ */
+function runAction(state: MockHyperliquidState, signer: string, action: Record<string, any>, nonce: number): unknown {
+  const refuse = (response: string) => ({ status: 'err', response });
+
+  switch (action.type) {
+    case 'usdSend':
+    case 'withdraw3': {
+      const amount = parseFloat(action.amount);
+      const destination = String(action.destination).toLowerCase();
+
+      if (!(amount > 0) || (state.perpBalances[signer] || 0) < amount) {
+        return refuse(`Insufficient balance for ${action.type === 'usdSend' ? 'transfer' : 'withdrawal'}`);
+      }
+
+      state.perpBalances[signer] -= amount;
+
+      if (action.type === 'withdraw3') {
+        addLedgerUpdate(state, [signer], { type: 'withdraw', usdc: action.amount, nonce, fee: '1.0' });
+      } else {
+        state.perpBalances[destination] = (state.perpBalances[destination] || 0) + amount;
+        addLedgerUpdate(state, [signer, destination], {
+          type: 'send', user: signer, destination, sourceDex: '', destinationDex: '',
+          token: 'USDC', amount: action.amount, usdcValue: action.amount, fee: '0.0', nonce
+        });
+      }
+
+      return { status: 'ok', response: { type: 'default' } };
+    }
+
+    case 'spotSend': {
+      const amount = parseFloat(action.amount);
+      const coin = String(action.token).split(':')[0];
+      const destination = String(action.destination).toLowerCase();
+
+      if (!(amount > 0) || spotBalance(state, signer, coin) < amount) {
+        return refuse(`Insufficient ${coin} balance for spot transfer`);
+      }
+
+      addSpotBalance(state, signer, coin, -amount);
+      addSpotBalance(state, destination, coin, amount);
+      addLedgerUpdate(state, [signer, destination], {
+        type: 'spotTransfer', token: coin, amount: action.amount, usdcValue: '0.0',
+        user: signer, destination, fee: '0.0', nonce
+      });
+
+      return { status: 'ok', response: { type: 'default' } };
+    }
+
+    case 'usdClassTransfer': {
+      const amount = parseFloat(action.amount);
+      const available = action.toPerp ? spotBalance(state, signer, 'USDC') : state.perpBalances[signer] || 0;
+
+      if (!(amount > 0) || available < amount) {
+        return refuse('Insufficient balance for class transfer');
+      }
+
+      state.perpBalances[signer] = (state.perpBalances[signer] || 0) + (action.toPerp ? amount : -amount);
+      addSpotBalance(state, signer, 'USDC', action.toPerp ? -amount : amount);
+      addLedgerUpdate(state, [signer], { type: 'accountClassTransfer', usdc: action.amount, toPerp: action.toPerp });
+
+      return { status: 'ok', response: { type: 'default' } };
+    }
+
+    case 'subAccountTransfer': {
+      const amount = action.usd / 1e6;
+      const subAccount = String(action.subAccountUser).toLowerCase();
+      const [from, to] = action.isDeposit ? [signer, subAccount] : [subAccount, signer];
+
+      if (state.subAccounts[subAccount] !== signer) {
+        return refuse('Sub-account is not owned by the signer');
+      }
+
+      if (!(amount > 0) || (state.perpBalances[from] || 0) < amount) {
+        return refuse('Insufficient balance for sub-account transfer');
+      }
+
+      state.perpBalances[from] -= amount;
+      state.perpBalances[to] = (state.perpBalances[to] || 0) + amount;
+      addLedgerUpdate(state, [from, to], { type: 'subAccountTransfer', usdc: amount.toString(), user: from, destination: to });
+
+      return { status: 'ok', response: { type: 'default' } };
+    }
+
+    case 'order': {
+      const statuses = (action.orders as OrderWire[]).map(order => fillOrder(state, signer, order));
+      return { status: 'ok', response: { type: 'order', data: { statuses } } };
+    }
+
+    default:
+      return refuse(`Unsupported action type ${action.type}`);
+  }
+}
+
+/**
+ * Answer an /info request
+ * @returns The answer, or undefined for request types the mock does not know
+ */
+function answerInfo(state: MockHyperliquidState, request: Record<string, any>): unknown {
+  const user = String(request.user || '').toLowerCase();
+
+  switch (request.type) {
+    case 'clearinghouseState': {
+      const balance = (state.perpBalances[user] || 0).toString();
+      const summary = { accountValue: balance, totalNtlPos: '0.0', totalRawUsd: balance, totalMarginUsed: '0.0' };
+      return {
+        marginSummary: summary,
+        crossMarginSummary: summary,
+        crossMaintenanceMarginUsed: '0.0',
+        withdrawable: balance,
+        assetPositions: [],
+        time: Date.now()
+      };
+    }
+
+    case 'spotClearinghouseState':
+      return {
+        balances: Object.entries(state.spotBalances[user] || {}).map(([coin, total]) => ({
+          coin,
+          token: state.spotMeta.tokens.find(t => t.name === coin)?.index ?? 0,
+          total: total.toString(),
+          hold: '0.0',
+          entryNtl: '0.0'
+        }))
+      };
+
+    case 'userNonFundingLedgerUpdates':
+      return (state.ledger[user] || []).filter(update =>
+        update.time >= request.startTime && (request.endTime === undefined || update.time <= request.endTime)
+      );
+
+    case 'spotMeta':
+      return state.spotMeta;
+
+    case 'l2Book':
+      return { coin: request.coin, time: Date.now(), levels: state.books[request.coin] || [[], []] };
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Create the express app serving the mock /info and /exchange endpoints
+ */
+export function createMockHyperliquidApp(state: MockHyperliquidState): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  // Serve a canned failure instead of the real answer, if one is queued for the endpoint
+  app.use(async (req, res, next) => {
+    const index = state.failures.findIndex(failure => !failure.endpoint || failure.endpoint === req.path);
+
+    if (index === -1) {
+      return next();
+    }
+
+    const [failure] = state.failures.splice(index, 1);
+
+    if (failure.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, failure.delayMs));
+    }
+
+    if (failure.status === undefined && failure.body === undefined) {
+      return next();
+    }
+
+    res.status(failure.status || 200).json(failure.body ?? { error: 'Mock failure' });
+  });
+
+  app.post('/info', (req, res) => {
+    const answer = answerInfo(state, req.body || {});
+
+    if (answer === undefined) {
+      return res.status(422).json({ error: `Unsupported info type ${req.body?.type}` });
+    }
+
+    res.json(answer);
+  });
+
+  app.post('/exchange', (req, res) => {
+    const { action, nonce, signature } = req.body || {};
+
+    if (!action || typeof nonce !== 'number' || !signature) {
+      return res.status(422).json({ error: 'Expected action, nonce and signature' });
+    }
+
+    let signer: string;
+
+    try {
+      signer = recoverSigner(state, action, nonce, signature);
+    } catch (error) {
+      return res.status(422).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+
+    // An API wallet signs orders for the account that approved it, and nothing else
+    if (action.type === 'order' && state.agents[signer]) {
+      signer = state.agents[signer];
+    }
+
+    const nonces = (state.usedNonces[signer] ||= new Set());
+    const response = nonces.has(nonce)
+      ? { status: 'err', response: `Invalid nonce: duplicate nonce ${nonce}` }
+      : runAction(state, signer, action, nonce);
+
+    nonces.add(nonce);
+    state.exchangeCalls.push({ action, nonce, signer, response });
+    res.json(response);
+  });
+
+  return app;
+}
+
+// A running mock server
+export interface MockHyperliquidServer {
+  url: string;
+  state: MockHyperliquidState;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the mock server on a port (a free one by default)
+ */
+export function startMockHyperliquidServer(
+  options: { port?: number; state?: MockHyperliquidState } = {}
+): Promise<MockHyperliquidServer> {
+  const state = options.state || createMockHyperliquidState();
+  const app = createMockHyperliquidApp(state);
+
+  return new Promise((resolve, reject) => {
+    const server: Server = app.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        state,
+        close: () => new Promise((done, fail) => server.close(error => (error ? fail(error) : done())))
+      });
+    });
+
+    server.on('error', reject);
+  });
+}
+
+// Run on its own, seeded from MOCK_HYPERLIQUID_BALANCES (`address:usdc`, comma separated)
+if (require.main === module) {
+  const state = createMockHyperliquidState({
+    chain: getNetworkProfile(process.env.NETWORK_ENV || 'mainnet').hyperliquidChain
+  });
+
+  for (const entry of (process.env.MOCK_HYPERLIQUID_BALANCES || '').split(',').filter(Boolean)) {
+    const [address, amount] = entry.split(':').map(v => v.trim());
+    state.perpBalances[address.toLowerCase()] = parseFloat(amount);
+  }
+
+  startMockHyperliquidServer({ port: parseInt(process.env.MOCK_HYPERLIQUID_PORT || '3001', 10), state })
+    .then(({ url }) => console.log(`🧪 Mock Hyperliquid API listening on ${url}`))
+    .catch(error => {
+      console.error('❌ Could not start the mock Hyperliquid API:', error);
+      process.exit(1);
+    });
+}
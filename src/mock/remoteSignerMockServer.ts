@@ -0,0 +1,107 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+
+/**
+ * In-process stand-in for a remote signing service, for integration tests
+ * Point REMOTE_SIGNER_URL (or a RemoteSigner) at it. It holds one private key and signs whatever it is
+ * asked to for that key's address, after checking the bearer token. Run this file directly to start it
+ * on its own: `REMOTE_SIGNER_PRIVATE_KEY=0x... npm run mock:signer`.
+ */
+
+// A running mock signer
+export interface RemoteSignerMockServer {
+  url: string;
+  // Address the mock signs for
+  address: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Create the Express app of the mock signer
+ * @param wallet Key the mock signs with
+ * @param token Bearer token callers must send (none checked if empty)
+ */
+export function createRemoteSignerApp(wallet: ethers.Wallet, token = ''): express.Express {
+  const app = express();
+  app.use(express.json());
+
+  // Check the token and that the caller wants this key's signature
+  app.use((req, res, next) => {
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      return res.status(401).json({ message: 'Invalid signer token' });
+    }
+
+    if (typeof req.body?.address !== 'string' || req.body.address.toLowerCase() !== wallet.address.toLowerCase()) {
+      return res.status(400).json({ message: `This signer only signs for ${wallet.address}` });
+    }
+
+    next();
+  });
+
+  app.post('/sign/typed-data', async (req, res) => {
+    try {
+      const { domain, types, value } = req.body;
+      res.json({ signature: await wallet._signTypedData(domain, types, value) });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Could not sign typed data' });
+    }
+  });
+
+  app.post('/sign/transaction', async (req, res) => {
+    try {
+      const { to, nonce, gasLimit, gasPrice, maxFeePerGas, maxPriorityFeePerGas, data, value, chainId, type } =
+        ethers.utils.parseTransaction(req.body.unsignedTransaction);
+
+      res.json({
+        signedTransaction: await wallet.signTransaction({
+          to, nonce, gasLimit, gasPrice, maxFeePerGas, maxPriorityFeePerGas, data, value, chainId, type: type ?? undefined
+        })
+      });
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : 'Could not sign the transaction' });
+    }
+  });
+
+  return app;
+}
+
+/**
+ * Start the mock signer on a port (a free one by default)
+ * @param options.privateKey Key to sign with (a random one by default)
+ */
+export function startRemoteSignerMockServer(
+  options: { port?: number; privateKey?: string; token?: string } = {}
+): Promise<RemoteSignerMockServer> {
+  const wallet = options.privateKey ? new ethers.Wallet(options.privateKey) : ethers.Wallet.createRandom();
+  const app = createRemoteSignerApp(wallet, options.token);
+
+  return new Promise((resolve, reject) => {
+    const server: Server = app.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        address: wallet.address,
+        close: () => new Promise((done, fail) => server.close(error => (error ? fail(error) : done())))
+      });
+    });
+
+    server.on('error', reject);
+  });
+}
+
+// Run on its own with REMOTE_SIGNER_PRIVATE_KEY (a random key if unset) and REMOTE_SIGNER_TOKEN
+if (require.main === module) {
+  startRemoteSignerMockServer({
+    port: parseInt(process.env.MOCK_REMOTE_SIGNER_PORT || '3002', 10),
+    privateKey: process.env.REMOTE_SIGNER_PRIVATE_KEY,
+    token: process.env.REMOTE_SIGNER_TOKEN
+  })
+    .then(({ url, address }) => console.log(`🧪 Mock remote signer for ${address} listening on ${url}`))
+    .catch(error => {
+      console.error('❌ Could not start the mock remote signer:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,101 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// A record of something an operator did through the admin API
+export interface AuditEntry {
+  id: string;
+  // Who did it (API key name or JWT subject)
+  actor: string;
+  action: string;
+  // What it was done to, e.g. a Stripe session ID
+  target?: string;
+  details?: Record<string, unknown>;
+  // Whether the action went through
+  outcome: 'success' | 'failure';
+  ip?: string;
+  createdAt: Date;
+}
+
+/**
+ * Append-only storage for the admin audit log
+ */
+export interface AuditLogRepository {
+  append(entry: AuditEntry): Promise<AuditEntry>;
+  /**
+   * List entries, newest first
+   */
+  list(limit?: number): Promise<AuditEntry[]>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryAuditLogRepository implements AuditLogRepository {
+  private readonly entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<AuditEntry> {
+    this.entries.push({ ...entry });
+    return { ...entry };
+  }
+
+  async list(limit?: number): Promise<AuditEntry[]> {
+    const newestFirst = [...this.entries].reverse();
+    return (limit ? newestFirst.slice(0, limit) : newestFirst).map(entry => ({ ...entry }));
+  }
+}
+
+interface AuditLogStoreData {
+  entries: Array<Omit<AuditEntry, 'createdAt'> & { createdAt: string }>;
+}
+
+/**
+ * Schema migrations for the audit log store file
+ */
+export const auditLogStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create entries list',
+    up: () => ({ entries: [] })
+  }
+];
+
+/**
+ * File-backed repository
+ */
+export class FileAuditLogRepository implements AuditLogRepository {
+  private readonly store: JsonFileStore<AuditLogStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<AuditLogStoreData>(filePath, auditLogStoreMigrations);
+  }
+
+  async append(entry: AuditEntry): Promise<AuditEntry> {
+    return this.store.update(data => {
+      data.entries.push({ ...entry, createdAt: entry.createdAt.toISOString() });
+      return { ...entry };
+    });
+  }
+
+  async list(limit?: number): Promise<AuditEntry[]> {
+    const newestFirst = [...this.store.read().entries].reverse();
+    return (limit ? newestFirst.slice(0, limit) : newestFirst).map(entry => ({
+      ...entry,
+      createdAt: new Date(entry.createdAt)
+    }));
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createAuditLogRepository(): AuditLogRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryAuditLogRepository();
+  }
+
+  return new FileAuditLogRepository(path.join(config.dataDir, 'audit-log.json'));
+}
+
+// Shared repository
+export const auditLogRepository: AuditLogRepository = createAuditLogRepository();
@@ -0,0 +1,126 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+import { FundingSource } from './reservationRepository';
+
+// A hot-wallet balance as the treasury monitor saw it
+export interface BalanceSnapshot {
+  id: string;
+  source: FundingSource;
+  balance: number;
+  // Owed to paid checkouts and held for open ones
+  pendingAmount: number;
+  reservedAmount: number;
+  availableForOnramp: number;
+  // USDC paid out per hour over the burn rate window
+  burnRatePerHour: number;
+  // Hours until the available balance runs out at that rate; unset while nothing is paid out
+  runwayHours?: number;
+  recordedAt: Date;
+}
+
+/**
+ * Time series of hot-wallet balances
+ */
+export interface BalanceSnapshotRepository {
+  append(snapshot: BalanceSnapshot): Promise<BalanceSnapshot>;
+  /**
+   * List snapshots recorded at or after `since`, oldest first
+   */
+  list(since: Date, source?: FundingSource): Promise<BalanceSnapshot[]>;
+  /**
+   * Delete snapshots recorded before the cutoff
+   * @returns How many were deleted
+   */
+  deleteRecordedBefore(cutoff: Date): Promise<number>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryBalanceSnapshotRepository implements BalanceSnapshotRepository {
+  private snapshots: BalanceSnapshot[] = [];
+
+  async append(snapshot: BalanceSnapshot): Promise<BalanceSnapshot> {
+    this.snapshots.push({ ...snapshot });
+    return { ...snapshot };
+  }
+
+  async list(since: Date, source?: FundingSource): Promise<BalanceSnapshot[]> {
+    return this.snapshots
+      .filter(snapshot => snapshot.recordedAt >= since && (!source || snapshot.source === source))
+      .map(snapshot => ({ ...snapshot }));
+  }
+
+  async deleteRecordedBefore(cutoff: Date): Promise<number> {
+    const before = this.snapshots.length;
+    this.snapshots = this.snapshots.filter(snapshot => snapshot.recordedAt >= cutoff);
+    return before - this.snapshots.length;
+  }
+}
+
+interface BalanceSnapshotStoreData {
+  snapshots: Array<Omit<BalanceSnapshot, 'recordedAt'> & { recordedAt: string }>;
+}
+
+/**
+ * Schema migrations for the balance snapshot store file
+ */
+export const balanceSnapshotStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create snapshots list',
+    up: () => ({ snapshots: [] })
+  }
+];
+
+/**
+ * File-backed repository
+ */
+export class FileBalanceSnapshotRepository implements BalanceSnapshotRepository {
+  private readonly store: JsonFileStore<BalanceSnapshotStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<BalanceSnapshotStoreData>(filePath, balanceSnapshotStoreMigrations);
+  }
+
+  async append(snapshot: BalanceSnapshot): Promise<BalanceSnapshot> {
+    return this.store.update(data => {
+      data.snapshots.push({ ...snapshot, recordedAt: snapshot.recordedAt.toISOString() });
+      return { ...snapshot };
+    });
+  }
+
+  async list(since: Date, source?: FundingSource): Promise<BalanceSnapshot[]> {
+    return this.store.read().snapshots
+      .map(snapshot => ({ ...snapshot, recordedAt: new Date(snapshot.recordedAt) }))
+      .filter(snapshot => snapshot.recordedAt >= since && (!source || snapshot.source === source));
+  }
+
+  async deleteRecordedBefore(cutoff: Date): Promise<number> {
+    const stale = this.store.read().snapshots.filter(snapshot => new Date(snapshot.recordedAt) < cutoff);
+
+    if (stale.length === 0) {
+      return 0;
+    }
+
+    return this.store.update(data => {
+      data.snapshots = data.snapshots.filter(snapshot => new Date(snapshot.recordedAt) >= cutoff);
+      return stale.length;
+    });
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createBalanceSnapshotRepository(): BalanceSnapshotRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryBalanceSnapshotRepository();
+  }
+
+  return new FileBalanceSnapshotRepository(path.join(config.dataDir, 'balance-snapshots.json'));
+}
+
+// Shared repository
+export const balanceSnapshotRepository: BalanceSnapshotRepository = createBalanceSnapshotRepository();
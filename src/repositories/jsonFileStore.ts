@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * A single schema migration for a JSON file store.
+ * `up` receives the data written by the previous version (undefined for a new store) and
+ * returns the upgraded data; it has to check the shape of what it is given.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (data: unknown) => unknown;
+}
+
+/**
+ * Write an optional date to a store file as an ISO string
+ */
+export function toStoredDate(date: Date | undefined): string | undefined {
+  return date ? date.toISOString() : undefined;
+}
+
+/**
+ * Read an optional date written by toStoredDate
+ */
+export function fromStoredDate(value: string | undefined): Date | undefined {
+  return value ? new Date(value) : undefined;
+}
+
+// On-disk envelope for every store file
+interface StoreFile<T> {
+  schemaVersion: number;
+  updatedAt: string;
+  data: T;
+}
+
+/**
+ * A small JSON document store persisted to a single file.
+ * Reads happen once at construction, every write rewrites the file atomically
+ * (write to a temp file then rename) so a crash never leaves a half-written store.
+ * Only one process may write a store file: another process would neither see its writes
+ * nor be seen, so updates are only atomic within a single instance.
+ */
+export class JsonFileStore<T> {
+  private data: T;
+  private readonly schemaVersion: number;
+
+  constructor(private readonly filePath: string, private readonly migrations: Migration[]) {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+    this.migrations = sorted;
+    this.schemaVersion = sorted.length > 0 ? sorted[sorted.length - 1].version : 0;
+    this.data = this.load();
+  }
+
+  /**
+   * Get the current data
+   */
+  read(): T {
+    return this.data;
+  }
+
+  /**
+   * Apply a mutation to the data and persist it
+   * The mutation runs synchronously, so no other write can interleave with it
+   */
+  update<R>(mutate: (data: T) => R): R {
+    const result = mutate(this.data);
+    this.persist();
+    return result;
+  }
+
+  /**
+   * Load the store from disk, running any pending migrations
+   */
+  private load(): T {
+    let fileVersion = 0;
+    let data: unknown = undefined;
+
+    if (fs.existsSync(this.filePath)) {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as StoreFile<T>;
+      fileVersion = parsed.schemaVersion || 0;
+      data = parsed.data;
+    }
+
+    if (fileVersion > this.schemaVersion) {
+      throw new Error(
+        `Store ${this.filePath} has schema version ${fileVersion}, newer than supported version ${this.schemaVersion}`
+      );
+    }
+
+    const pending = this.migrations.filter(m => m.version > fileVersion);
+
+    for (const migration of pending) {
+      console.log(`🗄️ Migrating ${path.basename(this.filePath)} to v${migration.version}: ${migration.description}`);
+      data = migration.up(data);
+    }
+
+    this.data = data as T;
+
+    if (pending.length > 0) {
+      this.persist();
+    }
+
+    return this.data;
+  }
+
+  /**
+   * Write the store to disk atomically
+   */
+  private persist(): void {
+    const file: StoreFile<T> = {
+      schemaVersion: this.schemaVersion,
+      updatedAt: new Date().toISOString(),
+      data: this.data
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,181 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// Accounts of the double-entry ledger, all in USD cents
+// Assets: fiat held by Stripe, USDC in the hot wallet and in the treasury top-ups come from.
+// Liability: USDC owed to customers who paid. Revenue: what customers paid us on top of their USDC.
+// Expenses: Stripe's actual processing fees, rail network fees and refunds of payments already paid out.
+export type LedgerAccount =
+  | 'stripe_balance'
+  | 'hot_wallet'
+  | 'treasury'
+  | 'customer_payable'
+  | 'service_fee_revenue'
+  | 'fx_fee_revenue'
+  | 'network_fee_revenue'
+  | 'processing_fee_revenue'
+  | 'stripe_fee_expense'
+  | 'network_fee_expense'
+  | 'refund_loss_expense';
+
+// What a journal entry records
+export type LedgerEntryKind = 'charge' | 'stripe_fee' | 'disbursement' | 'refund' | 'top_up';
+
+// One side of a journal entry
+export interface LedgerLine {
+  account: LedgerAccount;
+  side: 'debit' | 'credit';
+  // Positive whole USD cents
+  amountCents: number;
+}
+
+// A balanced journal entry
+export interface LedgerEntry {
+  // Derived from what is recorded (e.g. `charge:cs_...`), so recording the same thing twice is a no-op
+  id: string;
+  kind: LedgerEntryKind;
+  stripeSessionId?: string;
+  // Stripe charge, balance transaction or refund ID, payout hash or top-up ID behind the entry
+  reference?: string;
+  lines: LedgerLine[];
+  occurredAt: Date;
+  recordedAt: Date;
+}
+
+// Which entries to list
+export interface LedgerEntryFilter {
+  // occurredAt at or after `from` and before `to`
+  from?: Date;
+  to?: Date;
+  stripeSessionId?: string;
+}
+
+/**
+ * Append-only storage for ledger entries
+ */
+export interface LedgerRepository {
+  /**
+   * Record an entry
+   * @returns false if an entry with the same ID was already recorded
+   */
+  recordIfNew(entry: LedgerEntry): Promise<boolean>;
+  find(id: string): Promise<LedgerEntry | undefined>;
+  /**
+   * List entries, oldest first
+   */
+  list(filter?: LedgerEntryFilter): Promise<LedgerEntry[]>;
+}
+
+/**
+ * Whether an entry passes a filter
+ */
+function matchesFilter(entry: LedgerEntry, filter: LedgerEntryFilter): boolean {
+  return (!filter.from || entry.occurredAt >= filter.from)
+    && (!filter.to || entry.occurredAt < filter.to)
+    && (!filter.stripeSessionId || entry.stripeSessionId === filter.stripeSessionId);
+}
+
+function copyEntry(entry: LedgerEntry): LedgerEntry {
+  return { ...entry, lines: entry.lines.map(line => ({ ...line })) };
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryLedgerRepository implements LedgerRepository {
+  private readonly entries: LedgerEntry[] = [];
+
+  async recordIfNew(entry: LedgerEntry): Promise<boolean> {
+    if (this.entries.some(existing => existing.id === entry.id)) {
+      return false;
+    }
+
+    this.entries.push(copyEntry(entry));
+    return true;
+  }
+
+  async find(id: string): Promise<LedgerEntry | undefined> {
+    const entry = this.entries.find(existing => existing.id === id);
+    return entry ? copyEntry(entry) : undefined;
+  }
+
+  async list(filter: LedgerEntryFilter = {}): Promise<LedgerEntry[]> {
+    return this.entries.filter(entry => matchesFilter(entry, filter)).map(copyEntry);
+  }
+}
+
+type StoredLedgerEntry = Omit<LedgerEntry, 'occurredAt' | 'recordedAt'> & { occurredAt: string; recordedAt: string };
+
+interface LedgerStoreData {
+  entries: StoredLedgerEntry[];
+}
+
+/**
+ * Schema migrations for the ledger store file
+ */
+export const ledgerStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create entries list',
+    up: () => ({ entries: [] })
+  }
+];
+
+function toStored(entry: LedgerEntry): StoredLedgerEntry {
+  return { ...copyEntry(entry), occurredAt: entry.occurredAt.toISOString(), recordedAt: entry.recordedAt.toISOString() };
+}
+
+function fromStored(stored: StoredLedgerEntry): LedgerEntry {
+  return {
+    ...stored,
+    lines: stored.lines.map(line => ({ ...line })),
+    occurredAt: new Date(stored.occurredAt),
+    recordedAt: new Date(stored.recordedAt)
+  };
+}
+
+/**
+ * File-backed repository
+ */
+export class FileLedgerRepository implements LedgerRepository {
+  private readonly store: JsonFileStore<LedgerStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<LedgerStoreData>(filePath, ledgerStoreMigrations);
+  }
+
+  async recordIfNew(entry: LedgerEntry): Promise<boolean> {
+    return this.store.update(data => {
+      if (data.entries.some(existing => existing.id === entry.id)) {
+        return false;
+      }
+
+      data.entries.push(toStored(entry));
+      return true;
+    });
+  }
+
+  async find(id: string): Promise<LedgerEntry | undefined> {
+    const stored = this.store.read().entries.find(entry => entry.id === id);
+    return stored ? fromStored(stored) : undefined;
+  }
+
+  async list(filter: LedgerEntryFilter = {}): Promise<LedgerEntry[]> {
+    return this.store.read().entries.map(fromStored).filter(entry => matchesFilter(entry, filter));
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createLedgerRepository(): LedgerRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryLedgerRepository();
+  }
+
+  return new FileLedgerRepository(path.join(config.dataDir, 'ledger.json'));
+}
+
+// Shared repository
+export const ledgerRepository: LedgerRepository = createLedgerRepository();
@@ -0,0 +1,238 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// Lifecycle of a checkout as far as the limits are concerned
+// 'open' and 'paid' checkouts count towards the amount caps; 'void' ones (expired, cancelled,
+// never paid) and 'rejected' ones (paid over a limit and refunded) only count towards velocity
+export type LimitUsageStatus = 'open' | 'paid' | 'rejected' | 'void';
+
+// One checkout, recorded against the wallet, email and card that made it
+export interface LimitUsage {
+  id: string;
+  // Unset for the moment between recording and the Stripe session being created
+  stripeSessionId?: string;
+  // Lowercased
+  walletAddress: string;
+  // Lowercased; known up front if the customer gave it, otherwise once they paid
+  email?: string;
+  // Stripe card fingerprint, known once the customer paid
+  cardFingerprint?: string;
+  amount: number;
+  status: LimitUsageStatus;
+  // Which limit a 'rejected' payment broke
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Result of trying to record a checkout
+export interface RecordResult<R> {
+  usage?: LimitUsage;
+  // What the check objected to, when the checkout was not recorded
+  rejection?: R;
+}
+
+/**
+ * Storage abstraction for checkout usage records
+ */
+export interface LimitUsageRepository {
+  /**
+   * Atomically save a record (new or updated) if `check` has no objection against the other records
+   * @param check Returns why the record may not be saved, or undefined if it may
+   */
+  tryRecord<R>(usage: LimitUsage, check: (others: LimitUsage[]) => R | undefined): Promise<RecordResult<R>>;
+  update(id: string, updates: Partial<LimitUsage>): Promise<LimitUsage | undefined>;
+  findById(id: string): Promise<LimitUsage | undefined>;
+  findBySessionId(sessionId: string): Promise<LimitUsage | undefined>;
+  list(): Promise<LimitUsage[]>;
+  /**
+   * Delete records created before the cutoff
+   * @returns The number of records deleted
+   */
+  deleteCreatedBefore(cutoff: Date): Promise<number>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryLimitUsageRepository implements LimitUsageRepository {
+  private readonly usages: Map<string, LimitUsage> = new Map();
+
+  async tryRecord<R>(usage: LimitUsage, check: (others: LimitUsage[]) => R | undefined): Promise<RecordResult<R>> {
+    const others = Array.from(this.usages.values()).filter(other => other.id !== usage.id);
+    const rejection = check(others.map(other => ({ ...other })));
+
+    if (rejection !== undefined) {
+      return { rejection };
+    }
+
+    this.usages.set(usage.id, { ...usage });
+    return { usage: { ...usage } };
+  }
+
+  async update(id: string, updates: Partial<LimitUsage>): Promise<LimitUsage | undefined> {
+    const usage = this.usages.get(id);
+
+    if (!usage) {
+      return undefined;
+    }
+
+    const updatedUsage = { ...usage, ...updates, id, updatedAt: new Date() };
+    this.usages.set(id, updatedUsage);
+    return { ...updatedUsage };
+  }
+
+  async findById(id: string): Promise<LimitUsage | undefined> {
+    const usage = this.usages.get(id);
+    return usage ? { ...usage } : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<LimitUsage | undefined> {
+    const usage = Array.from(this.usages.values()).find(u => u.stripeSessionId === sessionId);
+    return usage ? { ...usage } : undefined;
+  }
+
+  async list(): Promise<LimitUsage[]> {
+    return Array.from(this.usages.values()).map(usage => ({ ...usage }));
+  }
+
+  async deleteCreatedBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+
+    for (const [id, usage] of this.usages.entries()) {
+      if (usage.createdAt.getTime() < cutoff.getTime()) {
+        this.usages.delete(id);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+// Records as they are written to disk, with their dates as ISO strings
+type StoredLimitUsage = Omit<LimitUsage, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface LimitUsageStoreData {
+  usages: Record<string, StoredLimitUsage>;
+}
+
+/**
+ * Schema migrations for the limit usage store file
+ */
+export const limitUsageStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create usages collection',
+    up: () => ({ usages: {} })
+  }
+];
+
+function toStored(usage: LimitUsage): StoredLimitUsage {
+  return {
+    ...usage,
+    createdAt: usage.createdAt.toISOString(),
+    updatedAt: usage.updatedAt.toISOString()
+  };
+}
+
+function fromStored(usage: StoredLimitUsage): LimitUsage {
+  return {
+    ...usage,
+    createdAt: new Date(usage.createdAt),
+    updatedAt: new Date(usage.updatedAt)
+  };
+}
+
+/**
+ * File-backed repository
+ */
+export class FileLimitUsageRepository implements LimitUsageRepository {
+  private readonly store: JsonFileStore<LimitUsageStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<LimitUsageStoreData>(filePath, limitUsageStoreMigrations);
+  }
+
+  async tryRecord<R>(usage: LimitUsage, check: (others: LimitUsage[]) => R | undefined): Promise<RecordResult<R>> {
+    // Check and write inside one synchronous update so concurrent checkouts cannot both slip under a limit
+    return this.store.update(data => {
+      const others = Object.values(data.usages).filter(other => other.id !== usage.id).map(fromStored);
+      const rejection = check(others);
+
+      if (rejection !== undefined) {
+        return { rejection };
+      }
+
+      data.usages[usage.id] = toStored(usage);
+      return { usage: fromStored(data.usages[usage.id]) };
+    });
+  }
+
+  async update(id: string, updates: Partial<LimitUsage>): Promise<LimitUsage | undefined> {
+    if (!this.store.read().usages[id]) {
+      return undefined;
+    }
+
+    return this.store.update(data => {
+      const updatedUsage: LimitUsage = {
+        ...fromStored(data.usages[id]),
+        ...updates,
+        id,
+        updatedAt: new Date()
+      };
+
+      data.usages[id] = toStored(updatedUsage);
+      return updatedUsage;
+    });
+  }
+
+  async findById(id: string): Promise<LimitUsage | undefined> {
+    const usage = this.store.read().usages[id];
+    return usage ? fromStored(usage) : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<LimitUsage | undefined> {
+    const usage = Object.values(this.store.read().usages).find(u => u.stripeSessionId === sessionId);
+    return usage ? fromStored(usage) : undefined;
+  }
+
+  async list(): Promise<LimitUsage[]> {
+    return Object.values(this.store.read().usages).map(fromStored);
+  }
+
+  async deleteCreatedBefore(cutoff: Date): Promise<number> {
+    const expired = Object.values(this.store.read().usages).filter(
+      usage => new Date(usage.createdAt).getTime() < cutoff.getTime()
+    );
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    return this.store.update(data => {
+      for (const usage of expired) {
+        delete data.usages[usage.id];
+      }
+      return expired.length;
+    });
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createLimitUsageRepository(): LimitUsageRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryLimitUsageRepository();
+  }
+
+  return new FileLimitUsageRepository(path.join(config.dataDir, 'limit-usage.json'));
+}
+
+// Shared repository
+export const limitUsageRepository: LimitUsageRepository = createLimitUsageRepository();
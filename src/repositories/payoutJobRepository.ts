@@ -0,0 +1,313 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration, fromStoredDate, toStoredDate } from './jsonFileStore';
+import { PayoutRailId, SpotDelivery } from './transactionRepository';
+
+// Lifecycle states of a payout job
+// 'dead' jobs exhausted their attempts or hit a terminal error and are refunded
+// 'parked' jobs sent something we could not verify; they are neither retried nor refunded
+export type PayoutJobStatus = 'queued' | 'running' | 'succeeded' | 'dead' | 'parked';
+
+// A queued USDC payout for a paid Stripe session
+export interface PayoutJob {
+  id: string;
+  stripeSessionId: string;
+  paymentIntentId?: string;
+  walletAddress: string;
+  amount: number;
+  // Unset on jobs from before payout rails, which pay out on Hyperliquid
+  payoutRail?: PayoutRailId;
+  spotDelivery?: SpotDelivery;
+  status: PayoutJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  // Times the job found its session held by another payout and was put back (unset means none)
+  deferrals?: number;
+  nextRunAt: Date;
+  // A running job whose lock lapsed is picked up again by the next worker
+  lockedUntil?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for payout jobs
+ */
+export interface PayoutJobRepository {
+  /**
+   * Add a job unless one already exists for the same Stripe session
+   * @returns The job for the session, new or existing
+   */
+  enqueue(job: PayoutJob): Promise<PayoutJob>;
+  /**
+   * Atomically pick the oldest due job and mark it running until `lockMs` from now
+   */
+  claimNext(now: Date, lockMs: number): Promise<PayoutJob | undefined>;
+  update(id: string, updates: Partial<PayoutJob>): Promise<PayoutJob | undefined>;
+  findById(id: string): Promise<PayoutJob | undefined>;
+  findBySessionId(sessionId: string): Promise<PayoutJob | undefined>;
+  list(): Promise<PayoutJob[]>;
+  /**
+   * Delete succeeded and dead jobs last updated before the cutoff
+   * @returns The number of jobs deleted
+   */
+  deleteFinishedBefore(cutoff: Date): Promise<number>;
+}
+
+/**
+ * Whether a job can be picked up by a worker
+ */
+export function isJobDue(job: PayoutJob, now: Date): boolean {
+  if (job.status === 'queued') {
+    return job.nextRunAt.getTime() <= now.getTime();
+  }
+
+  if (job.status === 'running') {
+    return !job.lockedUntil || job.lockedUntil.getTime() < now.getTime();
+  }
+
+  return false;
+}
+
+/**
+ * Whether a job is done with and only kept for the record
+ * Parked jobs still wait for an operator, so they are never finished.
+ */
+function isFinishedBefore(job: { status: PayoutJobStatus; updatedAt: Date }, cutoff: Date): boolean {
+  return (job.status === 'succeeded' || job.status === 'dead') && job.updatedAt.getTime() < cutoff.getTime();
+}
+
+/**
+ * Pick the job a worker should run next
+ */
+function nextDueJob(jobs: PayoutJob[], now: Date): PayoutJob | undefined {
+  return jobs
+    .filter(job => isJobDue(job, now))
+    .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime())[0];
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryPayoutJobRepository implements PayoutJobRepository {
+  private readonly jobs: Map<string, PayoutJob> = new Map();
+
+  async enqueue(job: PayoutJob): Promise<PayoutJob> {
+    const existing = Array.from(this.jobs.values()).find(j => j.stripeSessionId === job.stripeSessionId);
+
+    if (existing) {
+      return { ...existing };
+    }
+
+    this.jobs.set(job.id, { ...job });
+    return { ...job };
+  }
+
+  async claimNext(now: Date, lockMs: number): Promise<PayoutJob | undefined> {
+    const job = nextDueJob(Array.from(this.jobs.values()), now);
+
+    if (!job) {
+      return undefined;
+    }
+
+    const claimed: PayoutJob = {
+      ...job,
+      status: 'running',
+      lockedUntil: new Date(now.getTime() + lockMs),
+      updatedAt: now
+    };
+
+    this.jobs.set(claimed.id, claimed);
+    return { ...claimed };
+  }
+
+  async update(id: string, updates: Partial<PayoutJob>): Promise<PayoutJob | undefined> {
+    const job = this.jobs.get(id);
+
+    if (!job) {
+      return undefined;
+    }
+
+    const updatedJob = { ...job, ...updates, id, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return { ...updatedJob };
+  }
+
+  async findById(id: string): Promise<PayoutJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<PayoutJob | undefined> {
+    const job = Array.from(this.jobs.values()).find(j => j.stripeSessionId === sessionId);
+    return job ? { ...job } : undefined;
+  }
+
+  async list(): Promise<PayoutJob[]> {
+    return Array.from(this.jobs.values()).map(job => ({ ...job }));
+  }
+
+  async deleteFinishedBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+
+    for (const [id, job] of this.jobs.entries()) {
+      if (isFinishedBefore(job, cutoff)) {
+        this.jobs.delete(id);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+// Jobs as they are written to disk, with their dates as ISO strings
+type StoredPayoutJob = Omit<PayoutJob, 'nextRunAt' | 'lockedUntil' | 'createdAt' | 'updatedAt'> & {
+  nextRunAt: string;
+  lockedUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface PayoutJobStoreData {
+  jobs: Record<string, StoredPayoutJob>;
+}
+
+/**
+ * Schema migrations for the payout job store file
+ */
+export const payoutJobStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create jobs collection',
+    up: () => ({ jobs: {} })
+  }
+];
+
+function toStored(job: PayoutJob): StoredPayoutJob {
+  return {
+    ...job,
+    nextRunAt: job.nextRunAt.toISOString(),
+    lockedUntil: toStoredDate(job.lockedUntil),
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString()
+  };
+}
+
+function fromStored(job: StoredPayoutJob): PayoutJob {
+  return {
+    ...job,
+    nextRunAt: new Date(job.nextRunAt),
+    lockedUntil: fromStoredDate(job.lockedUntil),
+    createdAt: new Date(job.createdAt),
+    updatedAt: new Date(job.updatedAt)
+  };
+}
+
+/**
+ * File-backed repository
+ */
+export class FilePayoutJobRepository implements PayoutJobRepository {
+  private readonly store: JsonFileStore<PayoutJobStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<PayoutJobStoreData>(filePath, payoutJobStoreMigrations);
+  }
+
+  async enqueue(job: PayoutJob): Promise<PayoutJob> {
+    return this.store.update(data => {
+      const existing = Object.values(data.jobs).find(j => j.stripeSessionId === job.stripeSessionId);
+
+      if (existing) {
+        return fromStored(existing);
+      }
+
+      data.jobs[job.id] = toStored(job);
+      return fromStored(data.jobs[job.id]);
+    });
+  }
+
+  async claimNext(now: Date, lockMs: number): Promise<PayoutJob | undefined> {
+    // Read, decide and write without yielding so two workers never get the same job;
+    // a poll that finds nothing due leaves the file alone
+    const job = nextDueJob(Object.values(this.store.read().jobs).map(fromStored), now);
+
+    if (!job) {
+      return undefined;
+    }
+
+    const claimed: PayoutJob = {
+      ...job,
+      status: 'running',
+      lockedUntil: new Date(now.getTime() + lockMs),
+      updatedAt: now
+    };
+
+    return this.store.update(data => {
+      data.jobs[claimed.id] = toStored(claimed);
+      return claimed;
+    });
+  }
+
+  async update(id: string, updates: Partial<PayoutJob>): Promise<PayoutJob | undefined> {
+    if (!this.store.read().jobs[id]) {
+      return undefined;
+    }
+
+    return this.store.update(data => {
+      const updatedJob: PayoutJob = {
+        ...fromStored(data.jobs[id]),
+        ...updates,
+        id,
+        updatedAt: new Date()
+      };
+
+      data.jobs[id] = toStored(updatedJob);
+      return updatedJob;
+    });
+  }
+
+  async findById(id: string): Promise<PayoutJob | undefined> {
+    const job = this.store.read().jobs[id];
+    return job ? fromStored(job) : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<PayoutJob | undefined> {
+    const job = Object.values(this.store.read().jobs).find(j => j.stripeSessionId === sessionId);
+    return job ? fromStored(job) : undefined;
+  }
+
+  async list(): Promise<PayoutJob[]> {
+    return Object.values(this.store.read().jobs).map(fromStored);
+  }
+
+  async deleteFinishedBefore(cutoff: Date): Promise<number> {
+    const finished = Object.values(this.store.read().jobs).filter(job => isFinishedBefore(fromStored(job), cutoff));
+
+    if (finished.length === 0) {
+      return 0;
+    }
+
+    return this.store.update(data => {
+      for (const job of finished) {
+        delete data.jobs[job.id];
+      }
+      return finished.length;
+    });
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createPayoutJobRepository(): PayoutJobRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryPayoutJobRepository();
+  }
+
+  return new FilePayoutJobRepository(path.join(config.dataDir, 'payout-jobs.json'));
+}
+
+// Shared repository used by the payout queue
+export const payoutJobRepository: PayoutJobRepository = createPayoutJobRepository();
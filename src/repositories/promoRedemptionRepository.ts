@@ -0,0 +1,179 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// 'active' redemptions count towards the code's usage limit; 'released' ones were given back
+// because their checkout expired or was cancelled
+export type PromoRedemptionStatus = 'active' | 'released';
+
+// One use of a promo code by a checkout
+export interface PromoRedemption {
+  id: string;
+  // Uppercased promo code
+  code: string;
+  // Unset for the moment between redeeming and the Stripe session being created
+  stripeSessionId?: string;
+  status: PromoRedemptionStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for promo code redemptions
+ */
+export interface PromoRedemptionRepository {
+  /**
+   * Atomically add a redemption if the code has fewer than `maxUses` active redemptions
+   * @param maxUses Unlimited if undefined
+   * @returns The redemption, or undefined if the code is used up
+   */
+  tryRedeem(redemption: PromoRedemption, maxUses?: number): Promise<PromoRedemption | undefined>;
+  update(id: string, updates: Partial<PromoRedemption>): Promise<PromoRedemption | undefined>;
+  findBySessionId(sessionId: string): Promise<PromoRedemption | undefined>;
+  /**
+   * Number of active redemptions of a code
+   */
+  countActive(code: string): Promise<number>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryPromoRedemptionRepository implements PromoRedemptionRepository {
+  private readonly redemptions: Map<string, PromoRedemption> = new Map();
+
+  async tryRedeem(redemption: PromoRedemption, maxUses?: number): Promise<PromoRedemption | undefined> {
+    if (maxUses !== undefined && await this.countActive(redemption.code) >= maxUses) {
+      return undefined;
+    }
+
+    this.redemptions.set(redemption.id, { ...redemption });
+    return { ...redemption };
+  }
+
+  async update(id: string, updates: Partial<PromoRedemption>): Promise<PromoRedemption | undefined> {
+    const redemption = this.redemptions.get(id);
+
+    if (!redemption) {
+      return undefined;
+    }
+
+    const updatedRedemption = { ...redemption, ...updates, id, updatedAt: new Date() };
+    this.redemptions.set(id, updatedRedemption);
+    return { ...updatedRedemption };
+  }
+
+  async findBySessionId(sessionId: string): Promise<PromoRedemption | undefined> {
+    const redemption = Array.from(this.redemptions.values()).find(r => r.stripeSessionId === sessionId);
+    return redemption ? { ...redemption } : undefined;
+  }
+
+  async countActive(code: string): Promise<number> {
+    return Array.from(this.redemptions.values()).filter(r => r.code === code && r.status === 'active').length;
+  }
+}
+
+// Redemptions as they are written to disk, with their dates as ISO strings
+type StoredPromoRedemption = Omit<PromoRedemption, 'createdAt' | 'updatedAt'> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface PromoRedemptionStoreData {
+  redemptions: Record<string, StoredPromoRedemption>;
+}
+
+/**
+ * Schema migrations for the promo redemption store file
+ */
+export const promoRedemptionStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create redemptions collection',
+    up: () => ({ redemptions: {} })
+  }
+];
+
+function toStored(redemption: PromoRedemption): StoredPromoRedemption {
+  return {
+    ...redemption,
+    createdAt: redemption.createdAt.toISOString(),
+    updatedAt: redemption.updatedAt.toISOString()
+  };
+}
+
+function fromStored(redemption: StoredPromoRedemption): PromoRedemption {
+  return {
+    ...redemption,
+    createdAt: new Date(redemption.createdAt),
+    updatedAt: new Date(redemption.updatedAt)
+  };
+}
+
+/**
+ * File-backed repository
+ */
+export class FilePromoRedemptionRepository implements PromoRedemptionRepository {
+  private readonly store: JsonFileStore<PromoRedemptionStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<PromoRedemptionStoreData>(filePath, promoRedemptionStoreMigrations);
+  }
+
+  async tryRedeem(redemption: PromoRedemption, maxUses?: number): Promise<PromoRedemption | undefined> {
+    // Count and write inside one synchronous update so concurrent checkouts cannot overuse a code
+    return this.store.update(data => {
+      const active = Object.values(data.redemptions).filter(
+        r => r.code === redemption.code && r.status === 'active'
+      ).length;
+
+      if (maxUses !== undefined && active >= maxUses) {
+        return undefined;
+      }
+
+      data.redemptions[redemption.id] = toStored(redemption);
+      return fromStored(data.redemptions[redemption.id]);
+    });
+  }
+
+  async update(id: string, updates: Partial<PromoRedemption>): Promise<PromoRedemption | undefined> {
+    if (!this.store.read().redemptions[id]) {
+      return undefined;
+    }
+
+    return this.store.update(data => {
+      const updatedRedemption: PromoRedemption = {
+        ...fromStored(data.redemptions[id]),
+        ...updates,
+        id,
+        updatedAt: new Date()
+      };
+
+      data.redemptions[id] = toStored(updatedRedemption);
+      return updatedRedemption;
+    });
+  }
+
+  async findBySessionId(sessionId: string): Promise<PromoRedemption | undefined> {
+    const redemption = Object.values(this.store.read().redemptions).find(r => r.stripeSessionId === sessionId);
+    return redemption ? fromStored(redemption) : undefined;
+  }
+
+  async countActive(code: string): Promise<number> {
+    return Object.values(this.store.read().redemptions).filter(r => r.code === code && r.status === 'active').length;
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createPromoRedemptionRepository(): PromoRedemptionRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryPromoRedemptionRepository();
+  }
+
+  return new FilePromoRedemptionRepository(path.join(config.dataDir, 'promo-redemptions.json'));
+}
+
+// Shared repository
+export const promoRedemptionRepository: PromoRedemptionRepository = createPromoRedemptionRepository();
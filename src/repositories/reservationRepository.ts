@@ -0,0 +1,222 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// Lifecycle states of a capacity reservation
+// 'converted' reservations turned into a payout; 'released' ones expired or were cancelled
+export type ReservationStatus = 'active' | 'converted' | 'released';
+
+// Balance a payout is paid from: the Hyperliquid account (usdSend and withdraw3)
+// or the hot wallet's USDC on HyperEVM
+export type FundingSource = 'core' | 'evm';
+
+// Hot-wallet capacity held for an open checkout session
+export interface Reservation {
+  id: string;
+  // Unset for the moment between reserving and the Stripe session being created
+  stripeSessionId?: string;
+  walletAddress: string;
+  amount: number;
+  // Unset on reservations from before payout rails, which were all on 'core'
+  fundingSource?: FundingSource;
+  status: ReservationStatus;
+  expiresAt: Date;
+  releaseReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage abstraction for capacity reservations
+ */
+export interface ReservationRepository {
+  /**
+   * Atomically add a reservation if the active reservations on its funding source plus this one fit within `capacity`
+   * @returns The reservation, or undefined if there is not enough capacity left
+   */
+  tryReserve(reservation: Reservation, capacity: number): Promise<Reservation | undefined>;
+  update(id: string, updates: Partial<Reservation>): Promise<Reservation | undefined>;
+  findById(id: string): Promise<Reservation | undefined>;
+  findBySessionId(sessionId: string): Promise<Reservation | undefined>;
+  list(): Promise<Reservation[]>;
+}
+
+/**
+ * Whether a reservation still holds capacity
+ */
+export function isReservationActive(reservation: Reservation, now: Date): boolean {
+  return reservation.status === 'active' && reservation.expiresAt.getTime() > now.getTime();
+}
+
+/**
+ * Total amount held by active reservations, on one funding source if given
+ */
+export function sumActiveReservations(reservations: Reservation[], now: Date, fundingSource?: FundingSource): number {
+  return reservations
+    .filter(reservation => isReservationActive(reservation, now))
+    .filter(reservation => !fundingSource || (reservation.fundingSource || 'core') === fundingSource)
+    .reduce((total, reservation) => total + reservation.amount, 0);
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryReservationRepository implements ReservationRepository {
+  private readonly reservations: Map<string, Reservation> = new Map();
+
+  async tryReserve(reservation: Reservation, capacity: number): Promise<Reservation | undefined> {
+    const reserved = sumActiveReservations(
+      Array.from(this.reservations.values()),
+      new Date(),
+      reservation.fundingSource || 'core'
+    );
+
+    if (reserved + reservation.amount > capacity) {
+      return undefined;
+    }
+
+    this.reservations.set(reservation.id, { ...reservation });
+    return { ...reservation };
+  }
+
+  async update(id: string, updates: Partial<Reservation>): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+
+    if (!reservation) {
+      return undefined;
+    }
+
+    const updatedReservation = { ...reservation, ...updates, id, updatedAt: new Date() };
+    this.reservations.set(id, updatedReservation);
+    return { ...updatedReservation };
+  }
+
+  async findById(id: string): Promise<Reservation | undefined> {
+    const reservation = this.reservations.get(id);
+    return reservation ? { ...reservation } : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<Reservation | undefined> {
+    const reservation = Array.from(this.reservations.values()).find(r => r.stripeSessionId === sessionId);
+    return reservation ? { ...reservation } : undefined;
+  }
+
+  async list(): Promise<Reservation[]> {
+    return Array.from(this.reservations.values()).map(reservation => ({ ...reservation }));
+  }
+}
+
+// Reservations as they are written to disk, with their dates as ISO strings
+type StoredReservation = Omit<Reservation, 'expiresAt' | 'createdAt' | 'updatedAt'> & {
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+interface ReservationStoreData {
+  reservations: Record<string, StoredReservation>;
+}
+
+/**
+ * Schema migrations for the reservation store file
+ */
+export const reservationStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create reservations collection',
+    up: () => ({ reservations: {} })
+  }
+];
+
+function toStored(reservation: Reservation): StoredReservation {
+  return {
+    ...reservation,
+    expiresAt: reservation.expiresAt.toISOString(),
+    createdAt: reservation.createdAt.toISOString(),
+    updatedAt: reservation.updatedAt.toISOString()
+  };
+}
+
+function fromStored(reservation: StoredReservation): Reservation {
+  return {
+    ...reservation,
+    expiresAt: new Date(reservation.expiresAt),
+    createdAt: new Date(reservation.createdAt),
+    updatedAt: new Date(reservation.updatedAt)
+  };
+}
+
+/**
+ * File-backed repository
+ */
+export class FileReservationRepository implements ReservationRepository {
+  private readonly store: JsonFileStore<ReservationStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<ReservationStoreData>(filePath, reservationStoreMigrations);
+  }
+
+  async tryReserve(reservation: Reservation, capacity: number): Promise<Reservation | undefined> {
+    // Sum, decide and write inside one synchronous update so concurrent checkouts cannot overbook
+    return this.store.update(data => {
+      const reserved = sumActiveReservations(
+        Object.values(data.reservations).map(fromStored),
+        new Date(),
+        reservation.fundingSource || 'core'
+      );
+
+      if (reserved + reservation.amount > capacity) {
+        return undefined;
+      }
+
+      data.reservations[reservation.id] = toStored(reservation);
+      return fromStored(data.reservations[reservation.id]);
+    });
+  }
+
+  async update(id: string, updates: Partial<Reservation>): Promise<Reservation | undefined> {
+    if (!this.store.read().reservations[id]) {
+      return undefined;
+    }
+
+    return this.store.update(data => {
+      const updatedReservation: Reservation = {
+        ...fromStored(data.reservations[id]),
+        ...updates,
+        id,
+        updatedAt: new Date()
+      };
+
+      data.reservations[id] = toStored(updatedReservation);
+      return updatedReservation;
+    });
+  }
+
+  async findById(id: string): Promise<Reservation | undefined> {
+    const reservation = this.store.read().reservations[id];
+    return reservation ? fromStored(reservation) : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<Reservation | undefined> {
+    const reservation = Object.values(this.store.read().reservations).find(r => r.stripeSessionId === sessionId);
+    return reservation ? fromStored(reservation) : undefined;
+  }
+
+  async list(): Promise<Reservation[]> {
+    return Object.values(this.store.read().reservations).map(fromStored);
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createReservationRepository(): ReservationRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryReservationRepository();
+  }
+
+  return new FileReservationRepository(path.join(config.dataDir, 'reservations.json'));
+}
+
+// Shared repository
+export const reservationRepository: ReservationRepository = createReservationRepository();
@@ -0,0 +1,101 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// A wallet address that matched a screening list
+export interface ScreeningHit {
+  id: string;
+  // Lowercased wallet address
+  address: string;
+  // Name of the list it was found on
+  list: string;
+  // Why the list has it, if the list says
+  reason?: string;
+  // Where it was caught: creating a checkout or right before a payout
+  stage: 'checkout' | 'payout';
+  stripeSessionId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Append-only storage for screening hits
+ */
+export interface ScreeningHitRepository {
+  append(hit: ScreeningHit): Promise<ScreeningHit>;
+  /**
+   * List hits, newest first
+   */
+  list(limit?: number): Promise<ScreeningHit[]>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryScreeningHitRepository implements ScreeningHitRepository {
+  private readonly hits: ScreeningHit[] = [];
+
+  async append(hit: ScreeningHit): Promise<ScreeningHit> {
+    this.hits.push({ ...hit });
+    return { ...hit };
+  }
+
+  async list(limit?: number): Promise<ScreeningHit[]> {
+    const newestFirst = [...this.hits].reverse();
+    return (limit ? newestFirst.slice(0, limit) : newestFirst).map(hit => ({ ...hit }));
+  }
+}
+
+interface ScreeningHitStoreData {
+  hits: Array<Omit<ScreeningHit, 'createdAt'> & { createdAt: string }>;
+}
+
+/**
+ * Schema migrations for the screening hit store file
+ */
+export const screeningHitStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create hits list',
+    up: () => ({ hits: [] })
+  }
+];
+
+/**
+ * File-backed repository
+ */
+export class FileScreeningHitRepository implements ScreeningHitRepository {
+  private readonly store: JsonFileStore<ScreeningHitStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<ScreeningHitStoreData>(filePath, screeningHitStoreMigrations);
+  }
+
+  async append(hit: ScreeningHit): Promise<ScreeningHit> {
+    return this.store.update(data => {
+      data.hits.push({ ...hit, createdAt: hit.createdAt.toISOString() });
+      return { ...hit };
+    });
+  }
+
+  async list(limit?: number): Promise<ScreeningHit[]> {
+    const newestFirst = [...this.store.read().hits].reverse();
+    return (limit ? newestFirst.slice(0, limit) : newestFirst).map(hit => ({
+      ...hit,
+      createdAt: new Date(hit.createdAt)
+    }));
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createScreeningHitRepository(): ScreeningHitRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryScreeningHitRepository();
+  }
+
+  return new FileScreeningHitRepository(path.join(config.dataDir, 'screening-hits.json'));
+}
+
+// Shared repository
+export const screeningHitRepository: ScreeningHitRepository = createScreeningHitRepository();
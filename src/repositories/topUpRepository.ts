@@ -0,0 +1,150 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// Where hot-wallet top-ups come from: a sub-account of the hot wallet or a separate treasury wallet
+export type TopUpSource = 'subaccount' | 'signer';
+
+// Lifecycle states of a top-up
+// 'dry_run' top-ups were only worked out, never sent; 'pending' ones are being sent
+export type TopUpStatus = 'dry_run' | 'pending' | 'completed' | 'failed';
+
+// USDC moved (or that would have been moved) into the hot wallet by the rebalancer
+export interface TopUp {
+  id: string;
+  source: TopUpSource;
+  // Address the USDC comes from
+  from: string;
+  amount: number;
+  status: TopUpStatus;
+  // Hot-wallet balance that triggered the top-up
+  balanceBefore: number;
+  lowWaterMark: number;
+  highWaterMark: number;
+  // Millisecond timestamp the transfer was signed with
+  nonce?: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Storage for hot-wallet top-ups
+ */
+export interface TopUpRepository {
+  create(topUp: TopUp): Promise<TopUp>;
+  update(id: string, updates: Partial<TopUp>): Promise<TopUp | undefined>;
+  /**
+   * List top-ups created at or after `since` (all of them if unset), newest first
+   */
+  list(since?: Date): Promise<TopUp[]>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryTopUpRepository implements TopUpRepository {
+  private readonly topUps = new Map<string, TopUp>();
+
+  async create(topUp: TopUp): Promise<TopUp> {
+    this.topUps.set(topUp.id, { ...topUp });
+    return { ...topUp };
+  }
+
+  async update(id: string, updates: Partial<TopUp>): Promise<TopUp | undefined> {
+    const existing = this.topUps.get(id);
+
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.topUps.set(id, updated);
+    return { ...updated };
+  }
+
+  async list(since?: Date): Promise<TopUp[]> {
+    return Array.from(this.topUps.values())
+      .filter(topUp => !since || topUp.createdAt >= since)
+      .reverse()
+      .map(topUp => ({ ...topUp }));
+  }
+}
+
+type StoredTopUp = Omit<TopUp, 'createdAt' | 'updatedAt'> & { createdAt: string; updatedAt: string };
+
+interface TopUpStoreData {
+  topUps: StoredTopUp[];
+}
+
+/**
+ * Schema migrations for the top-up store file
+ */
+export const topUpStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create top-ups list',
+    up: () => ({ topUps: [] })
+  }
+];
+
+function toStored(topUp: TopUp): StoredTopUp {
+  return { ...topUp, createdAt: topUp.createdAt.toISOString(), updatedAt: topUp.updatedAt.toISOString() };
+}
+
+function fromStored(stored: StoredTopUp): TopUp {
+  return { ...stored, createdAt: new Date(stored.createdAt), updatedAt: new Date(stored.updatedAt) };
+}
+
+/**
+ * File-backed repository
+ */
+export class FileTopUpRepository implements TopUpRepository {
+  private readonly store: JsonFileStore<TopUpStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<TopUpStoreData>(filePath, topUpStoreMigrations);
+  }
+
+  async create(topUp: TopUp): Promise<TopUp> {
+    return this.store.update(data => {
+      data.topUps.push(toStored(topUp));
+      return { ...topUp };
+    });
+  }
+
+  async update(id: string, updates: Partial<TopUp>): Promise<TopUp | undefined> {
+    return this.store.update(data => {
+      const index = data.topUps.findIndex(topUp => topUp.id === id);
+
+      if (index === -1) {
+        return undefined;
+      }
+
+      const updated = { ...fromStored(data.topUps[index]), ...updates, id, updatedAt: new Date() };
+      data.topUps[index] = toStored(updated);
+      return updated;
+    });
+  }
+
+  async list(since?: Date): Promise<TopUp[]> {
+    return this.store.read().topUps
+      .map(fromStored)
+      .filter(topUp => !since || topUp.createdAt >= since)
+      .reverse();
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createTopUpRepository(): TopUpRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryTopUpRepository();
+  }
+
+  return new FileTopUpRepository(path.join(config.dataDir, 'top-ups.json'));
+}
+
+// Shared repository
+export const topUpRepository: TopUpRepository = createTopUpRepository();
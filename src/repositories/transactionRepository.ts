@@ -0,0 +1,406 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration, fromStoredDate, toStoredDate } from './jsonFileStore';
+
+// Lifecycle states of an onramp transaction
+// 'completed' means Hyperliquid accepted the send; 'confirmed' means we found it in the ledger.
+// A failed payout moves on to the refund states once we start refunding the customer.
+// Delayed payment methods sit in 'awaiting_payment' until Stripe reports the payment settled;
+// sessions that lapse unpaid end up 'expired'. 'resolved' is set by an operator by hand.
+// Payments fraud screening wants a person to look at wait in 'held' until an operator releases them.
+// 'unverified' means a send may have gone out but we could not find it in the ledger; nothing is sent
+// again until an operator has looked (or the confirmation monitor finds it after all).
+export type TransactionState =
+  | 'awaiting_payment'
+  | 'expired'
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'confirmed'
+  | 'failed'
+  | 'refund_pending'
+  | 'refunded'
+  | 'refund_failed'
+  | 'resolved'
+  | 'held'
+  | 'unverified';
+
+// Where a payout is delivered: Hyperliquid itself (usdSend), Arbitrum (withdraw3) or HyperEVM (ERC-20 transfer)
+// Transactions from before rails existed have none and were paid out on Hyperliquid
+export type PayoutRailId = 'hyperliquid' | 'arbitrum' | 'hyperevm';
+
+// A Hyperliquid spot token delivered instead of USDC, priced when the customer checked out
+// The payout is `amount` of the token; buying it may cost up to `maxPrice` USDC per token
+export interface SpotDelivery {
+  token: string;
+  amount: number;
+  // USDC per token the amount was priced at (from the order book, before the taker fee)
+  quotedPrice: number;
+  maxPrice: number;
+}
+
+// What fraud screening decided about a payment, and the Stripe signals it went on
+export interface RiskAssessment {
+  decision: 'release' | 'hold' | 'block';
+  reasons: string[];
+  riskLevel?: string;
+  riskScore?: number;
+  threeDSecure?: string;
+  cardCountry?: string;
+}
+
+// Interface for pending transaction
+export interface PendingTransaction {
+  id: string;
+  walletAddress: string;
+  amount: number;
+  status: TransactionState;
+  createdAt: Date;
+  updatedAt: Date;
+  stripeSessionId: string;
+  paymentIntentId?: string;
+  txHash?: string;
+  error?: string;
+  // Holder of the payout claim and when it lapses
+  leaseOwner?: string;
+  leaseExpiresAt?: Date;
+  // Set right before USDC is sent; a claim is never taken over after this point
+  payoutStartedAt?: Date;
+  payoutRail?: PayoutRailId;
+  // Set when the customer is paid in a spot token; `amount` stays the USDC value
+  spotDelivery?: SpotDelivery;
+  // Nonce signed into the usdSend, reused on every retry so a resend cannot pay twice; never replaced once set
+  payoutNonce?: number;
+  // Signed HyperEVM transaction, saved before it is broadcast so a retry rebroadcasts it instead of paying twice
+  payoutPreparedTx?: string;
+  // When the send was matched against the Hyperliquid ledger (txHash then holds the ledger hash)
+  confirmedAt?: Date;
+  // Set when something about the transaction needs a human to look at it
+  needsReview?: boolean;
+  reviewReason?: string;
+  // Refund of the Stripe payment, once one has been requested
+  refundId?: string;
+  refundReason?: string;
+  refundError?: string;
+  refundedAt?: Date;
+  // Stripe dispute opened against the payment
+  disputeId?: string;
+  disputeReason?: string;
+  // Outcome of fraud screening before the payout
+  risk?: RiskAssessment;
+  // Manual resolution by an operator
+  resolvedBy?: string;
+  resolutionNote?: string;
+  resolvedAt?: Date;
+}
+
+// Result of trying to claim a Stripe session for payout
+export interface SessionClaim {
+  claimed: boolean;
+  transaction: PendingTransaction;
+}
+
+/**
+ * Storage abstraction for onramp transactions
+ */
+export interface TransactionRepository {
+  create(transaction: PendingTransaction): Promise<PendingTransaction>;
+  update(id: string, updates: Partial<PendingTransaction>): Promise<PendingTransaction | undefined>;
+  findById(id: string): Promise<PendingTransaction | undefined>;
+  findBySessionId(sessionId: string): Promise<PendingTransaction | undefined>;
+  list(): Promise<PendingTransaction[]>;
+  /**
+   * Atomically create `transaction` unless its Stripe session already has one
+   * @returns The transaction for the session, new or existing
+   */
+  createForSession(transaction: PendingTransaction): Promise<PendingTransaction>;
+  /**
+   * Atomically claim the payout for a Stripe session
+   * Creates `transaction` if the session has no record yet, otherwise takes over the
+   * existing record only if no payout can be in flight for it (see canTakeOverClaim)
+   */
+  claimSession(transaction: PendingTransaction, leaseOwner: string, leaseMs: number): Promise<SessionClaim>;
+}
+
+/**
+ * Whether a payout claim on an existing transaction can be taken over
+ * Pending transactions are free; a processing one only if its lease lapsed before any USDC was sent
+ */
+export function canTakeOverClaim(tx: PendingTransaction, now: Date): boolean {
+  if (tx.status === 'pending') {
+    return true;
+  }
+
+  if (tx.status === 'processing' && !tx.payoutStartedAt) {
+    return !tx.leaseExpiresAt || tx.leaseExpiresAt.getTime() < now.getTime();
+  }
+
+  return false;
+}
+
+/**
+ * Whether a payout stopped after it started sending, e.g. because the process crashed mid-send
+ * Such a claim is never taken over; its send has to be looked up in the ledger instead (see verifyStartedPayout).
+ */
+export function isStalledPayout(tx: PendingTransaction, now: Date): boolean {
+  return tx.status === 'processing' &&
+    !!tx.payoutStartedAt &&
+    !!tx.leaseExpiresAt &&
+    tx.leaseExpiresAt.getTime() < now.getTime();
+}
+
+/**
+ * Whether anything may have been sent for a transaction
+ * True once a payout attempt signed (or was about to sign) a send, even if it then failed
+ */
+export function hasPayoutStarted(tx: PendingTransaction): boolean {
+  return !!(tx.payoutStartedAt || tx.payoutNonce !== undefined || tx.payoutPreparedTx || tx.txHash || tx.confirmedAt);
+}
+
+/**
+ * Apply a claim to a transaction
+ */
+function withClaim(tx: PendingTransaction, leaseOwner: string, leaseMs: number, now: Date): PendingTransaction {
+  return {
+    ...tx,
+    status: 'processing',
+    leaseOwner,
+    leaseExpiresAt: new Date(now.getTime() + leaseMs),
+    updatedAt: now
+  };
+}
+
+/**
+ * In-memory repository
+ * Everything is lost on restart, so this is only meant for tests and local development
+ */
+export class InMemoryTransactionRepository implements TransactionRepository {
+  private readonly transactions: Map<string, PendingTransaction> = new Map();
+
+  async create(transaction: PendingTransaction): Promise<PendingTransaction> {
+    if (this.transactions.has(transaction.id)) {
+      throw new Error(`Transaction ${transaction.id} already exists`);
+    }
+
+    this.transactions.set(transaction.id, { ...transaction });
+    return { ...transaction };
+  }
+
+  async update(id: string, updates: Partial<PendingTransaction>): Promise<PendingTransaction | undefined> {
+    const transaction = this.transactions.get(id);
+
+    if (!transaction) {
+      return undefined;
+    }
+
+    const updatedTransaction = {
+      ...transaction,
+      ...updates,
+      id: transaction.id,
+      updatedAt: new Date()
+    };
+
+    this.transactions.set(id, updatedTransaction);
+    return { ...updatedTransaction };
+  }
+
+  async findById(id: string): Promise<PendingTransaction | undefined> {
+    const transaction = this.transactions.get(id);
+    return transaction ? { ...transaction } : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<PendingTransaction | undefined> {
+    for (const tx of this.transactions.values()) {
+      if (tx.stripeSessionId === sessionId) {
+        return { ...tx };
+      }
+    }
+    return undefined;
+  }
+
+  async list(): Promise<PendingTransaction[]> {
+    return Array.from(this.transactions.values()).map(tx => ({ ...tx }));
+  }
+
+  async createForSession(transaction: PendingTransaction): Promise<PendingTransaction> {
+    const existing = Array.from(this.transactions.values()).find(
+      tx => tx.stripeSessionId === transaction.stripeSessionId
+    );
+
+    if (existing) {
+      return { ...existing };
+    }
+
+    this.transactions.set(transaction.id, { ...transaction });
+    return { ...transaction };
+  }
+
+  async claimSession(transaction: PendingTransaction, leaseOwner: string, leaseMs: number): Promise<SessionClaim> {
+    const now = new Date();
+    const existing = Array.from(this.transactions.values()).find(
+      tx => tx.stripeSessionId === transaction.stripeSessionId
+    );
+
+    if (existing && !canTakeOverClaim(existing, now)) {
+      return { claimed: false, transaction: { ...existing } };
+    }
+
+    const claimed = withClaim(existing || transaction, leaseOwner, leaseMs, now);
+    this.transactions.set(claimed.id, claimed);
+    return { claimed: true, transaction: { ...claimed } };
+  }
+}
+
+// Optional dates of a transaction
+type OptionalDateField = 'leaseExpiresAt' | 'payoutStartedAt' | 'confirmedAt' | 'refundedAt' | 'resolvedAt';
+
+// Transactions as they are written to disk, with their dates as ISO strings
+type StoredTransaction = Omit<PendingTransaction, 'createdAt' | 'updatedAt' | OptionalDateField> & {
+  createdAt: string;
+  updatedAt: string;
+} & { [K in OptionalDateField]?: string };
+
+interface TransactionStoreData {
+  transactions: Record<string, StoredTransaction>;
+}
+
+/**
+ * Schema migrations for the transaction store file
+ * Append new entries here; never edit a migration that has already shipped
+ */
+export const transactionStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create transactions collection',
+    up: () => ({ transactions: {} })
+  }
+];
+
+function toStored(tx: PendingTransaction): StoredTransaction {
+  return {
+    ...tx,
+    createdAt: tx.createdAt.toISOString(),
+    updatedAt: tx.updatedAt.toISOString(),
+    leaseExpiresAt: toStoredDate(tx.leaseExpiresAt),
+    payoutStartedAt: toStoredDate(tx.payoutStartedAt),
+    confirmedAt: toStoredDate(tx.confirmedAt),
+    refundedAt: toStoredDate(tx.refundedAt),
+    resolvedAt: toStoredDate(tx.resolvedAt)
+  };
+}
+
+function fromStored(tx: StoredTransaction): PendingTransaction {
+  return {
+    ...tx,
+    createdAt: new Date(tx.createdAt),
+    updatedAt: new Date(tx.updatedAt),
+    leaseExpiresAt: fromStoredDate(tx.leaseExpiresAt),
+    payoutStartedAt: fromStoredDate(tx.payoutStartedAt),
+    confirmedAt: fromStoredDate(tx.confirmedAt),
+    refundedAt: fromStoredDate(tx.refundedAt),
+    resolvedAt: fromStoredDate(tx.resolvedAt)
+  };
+}
+
+/**
+ * File-backed repository
+ * Survives restarts and redeploys as long as the data directory is on persistent storage
+ */
+export class FileTransactionRepository implements TransactionRepository {
+  private readonly store: JsonFileStore<TransactionStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<TransactionStoreData>(filePath, transactionStoreMigrations);
+  }
+
+  async create(transaction: PendingTransaction): Promise<PendingTransaction> {
+    return this.store.update(data => {
+      if (data.transactions[transaction.id]) {
+        throw new Error(`Transaction ${transaction.id} already exists`);
+      }
+
+      data.transactions[transaction.id] = toStored(transaction);
+      return fromStored(data.transactions[transaction.id]);
+    });
+  }
+
+  async update(id: string, updates: Partial<PendingTransaction>): Promise<PendingTransaction | undefined> {
+    if (!this.store.read().transactions[id]) {
+      return undefined;
+    }
+
+    return this.store.update(data => {
+      const updatedTransaction: PendingTransaction = {
+        ...fromStored(data.transactions[id]),
+        ...updates,
+        id,
+        updatedAt: new Date()
+      };
+
+      data.transactions[id] = toStored(updatedTransaction);
+      return updatedTransaction;
+    });
+  }
+
+  async findById(id: string): Promise<PendingTransaction | undefined> {
+    const tx = this.store.read().transactions[id];
+    return tx ? fromStored(tx) : undefined;
+  }
+
+  async findBySessionId(sessionId: string): Promise<PendingTransaction | undefined> {
+    const tx = Object.values(this.store.read().transactions).find(t => t.stripeSessionId === sessionId);
+    return tx ? fromStored(tx) : undefined;
+  }
+
+  async list(): Promise<PendingTransaction[]> {
+    return Object.values(this.store.read().transactions).map(fromStored);
+  }
+
+  async createForSession(transaction: PendingTransaction): Promise<PendingTransaction> {
+    return this.store.update(data => {
+      const existing = Object.values(data.transactions).find(
+        tx => tx.stripeSessionId === transaction.stripeSessionId
+      );
+
+      if (existing) {
+        return fromStored(existing);
+      }
+
+      data.transactions[transaction.id] = toStored(transaction);
+      return fromStored(data.transactions[transaction.id]);
+    });
+  }
+
+  async claimSession(transaction: PendingTransaction, leaseOwner: string, leaseMs: number): Promise<SessionClaim> {
+    // Read, decide and write inside one synchronous update so no other claim can interleave
+    return this.store.update(data => {
+      const now = new Date();
+      const stored = Object.values(data.transactions).find(
+        tx => tx.stripeSessionId === transaction.stripeSessionId
+      );
+      const existing = stored ? fromStored(stored) : undefined;
+
+      if (existing && !canTakeOverClaim(existing, now)) {
+        return { claimed: false, transaction: existing };
+      }
+
+      const claimed = withClaim(existing || transaction, leaseOwner, leaseMs, now);
+      data.transactions[claimed.id] = toStored(claimed);
+      return { claimed: true, transaction: claimed };
+    });
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createTransactionRepository(): TransactionRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryTransactionRepository();
+  }
+
+  return new FileTransactionRepository(path.join(config.dataDir, 'transactions.json'));
+}
+
+// Shared repository used by the services
+export const transactionRepository: TransactionRepository = createTransactionRepository();
@@ -0,0 +1,130 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// A wallet we refuse to onramp to until an operator clears it
+export interface WalletFlag {
+  // Lowercased wallet address
+  address: string;
+  reason: string;
+  // What raised the flag, e.g. the Stripe dispute ID
+  source: string;
+  createdAt: Date;
+}
+
+/**
+ * Storage for frozen wallet addresses
+ */
+export interface WalletFlagRepository {
+  /**
+   * Freeze a wallet; freezing an already frozen wallet keeps the original flag
+   */
+  freeze(address: string, reason: string, source: string): Promise<WalletFlag>;
+  unfreeze(address: string): Promise<boolean>;
+  find(address: string): Promise<WalletFlag | undefined>;
+  list(): Promise<WalletFlag[]>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryWalletFlagRepository implements WalletFlagRepository {
+  private readonly flags: Map<string, WalletFlag> = new Map();
+
+  async freeze(address: string, reason: string, source: string): Promise<WalletFlag> {
+    const key = address.toLowerCase();
+    const existing = this.flags.get(key);
+
+    if (existing) {
+      return { ...existing };
+    }
+
+    const flag = { address: key, reason, source, createdAt: new Date() };
+    this.flags.set(key, flag);
+    return { ...flag };
+  }
+
+  async unfreeze(address: string): Promise<boolean> {
+    return this.flags.delete(address.toLowerCase());
+  }
+
+  async find(address: string): Promise<WalletFlag | undefined> {
+    const flag = this.flags.get(address.toLowerCase());
+    return flag ? { ...flag } : undefined;
+  }
+
+  async list(): Promise<WalletFlag[]> {
+    return Array.from(this.flags.values()).map(flag => ({ ...flag }));
+  }
+}
+
+interface WalletFlagStoreData {
+  flags: Record<string, { address: string; reason: string; source: string; createdAt: string }>;
+}
+
+/**
+ * Schema migrations for the wallet flag store file
+ */
+export const walletFlagStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create flags collection',
+    up: () => ({ flags: {} })
+  }
+];
+
+/**
+ * File-backed repository
+ */
+export class FileWalletFlagRepository implements WalletFlagRepository {
+  private readonly store: JsonFileStore<WalletFlagStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<WalletFlagStoreData>(filePath, walletFlagStoreMigrations);
+  }
+
+  async freeze(address: string, reason: string, source: string): Promise<WalletFlag> {
+    const key = address.toLowerCase();
+
+    return this.store.update(data => {
+      if (!data.flags[key]) {
+        data.flags[key] = { address: key, reason, source, createdAt: new Date().toISOString() };
+      }
+
+      return { ...data.flags[key], createdAt: new Date(data.flags[key].createdAt) };
+    });
+  }
+
+  async unfreeze(address: string): Promise<boolean> {
+    const key = address.toLowerCase();
+
+    if (!this.store.read().flags[key]) {
+      return false;
+    }
+
+    return this.store.update(data => delete data.flags[key]);
+  }
+
+  async find(address: string): Promise<WalletFlag | undefined> {
+    const flag = this.store.read().flags[address.toLowerCase()];
+    return flag ? { ...flag, createdAt: new Date(flag.createdAt) } : undefined;
+  }
+
+  async list(): Promise<WalletFlag[]> {
+    return Object.values(this.store.read().flags).map(flag => ({ ...flag, createdAt: new Date(flag.createdAt) }));
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createWalletFlagRepository(): WalletFlagRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryWalletFlagRepository();
+  }
+
+  return new FileWalletFlagRepository(path.join(config.dataDir, 'wallet-flags.json'));
+}
+
+// Shared repository
+export const walletFlagRepository: WalletFlagRepository = createWalletFlagRepository();
@@ -0,0 +1,151 @@
+import path from 'path';
+import config from '../config/config';
+import { JsonFileStore, Migration } from './jsonFileStore';
+
+// A Stripe webhook event we have already accepted
+export interface ProcessedWebhookEvent {
+  id: string;
+  type: string;
+  receivedAt: Date;
+}
+
+/**
+ * Storage for Stripe webhook event IDs, used to drop redelivered events
+ */
+export interface WebhookEventRepository {
+  /**
+   * Record an event ID
+   * @returns false if the event was already recorded
+   */
+  recordIfNew(id: string, type: string): Promise<boolean>;
+  find(id: string): Promise<ProcessedWebhookEvent | undefined>;
+  /**
+   * Remove an event ID so a redelivery of it is processed again
+   * Used when handling the event failed after it was recorded
+   */
+  forget(id: string): Promise<boolean>;
+  /**
+   * Forget events received before the cutoff
+   * Stripe stops retrying an event after 3 days, so older IDs are not needed
+   */
+  deleteReceivedBefore(cutoff: Date): Promise<number>;
+}
+
+/**
+ * In-memory repository for tests
+ */
+export class InMemoryWebhookEventRepository implements WebhookEventRepository {
+  private readonly events: Map<string, ProcessedWebhookEvent> = new Map();
+
+  async recordIfNew(id: string, type: string): Promise<boolean> {
+    if (this.events.has(id)) {
+      return false;
+    }
+
+    this.events.set(id, { id, type, receivedAt: new Date() });
+    return true;
+  }
+
+  async find(id: string): Promise<ProcessedWebhookEvent | undefined> {
+    const event = this.events.get(id);
+    return event ? { ...event } : undefined;
+  }
+
+  async forget(id: string): Promise<boolean> {
+    return this.events.delete(id);
+  }
+
+  async deleteReceivedBefore(cutoff: Date): Promise<number> {
+    let deleted = 0;
+
+    for (const [id, event] of this.events.entries()) {
+      if (event.receivedAt.getTime() < cutoff.getTime()) {
+        this.events.delete(id);
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+}
+
+interface WebhookEventStoreData {
+  events: Record<string, { id: string; type: string; receivedAt: string }>;
+}
+
+/**
+ * Schema migrations for the webhook event store file
+ */
+export const webhookEventStoreMigrations: Migration[] = [
+  {
+    version: 1,
+    description: 'Create events collection',
+    up: () => ({ events: {} })
+  }
+];
+
+/**
+ * File-backed repository
+ */
+export class FileWebhookEventRepository implements WebhookEventRepository {
+  private readonly store: JsonFileStore<WebhookEventStoreData>;
+
+  constructor(filePath: string) {
+    this.store = new JsonFileStore<WebhookEventStoreData>(filePath, webhookEventStoreMigrations);
+  }
+
+  async recordIfNew(id: string, type: string): Promise<boolean> {
+    return this.store.update(data => {
+      if (data.events[id]) {
+        return false;
+      }
+
+      data.events[id] = { id, type, receivedAt: new Date().toISOString() };
+      return true;
+    });
+  }
+
+  async find(id: string): Promise<ProcessedWebhookEvent | undefined> {
+    const event = this.store.read().events[id];
+    return event ? { ...event, receivedAt: new Date(event.receivedAt) } : undefined;
+  }
+
+  async forget(id: string): Promise<boolean> {
+    if (!this.store.read().events[id]) {
+      return false;
+    }
+
+    return this.store.update(data => delete data.events[id]);
+  }
+
+  async deleteReceivedBefore(cutoff: Date): Promise<number> {
+    const expired = Object.values(this.store.read().events).filter(
+      event => new Date(event.receivedAt).getTime() < cutoff.getTime()
+    );
+
+    if (expired.length === 0) {
+      return 0;
+    }
+
+    return this.store.update(data => {
+      for (const event of expired) {
+        delete data.events[event.id];
+      }
+      return expired.length;
+    });
+  }
+}
+
+/**
+ * Create the repository selected by the STORAGE_DRIVER setting
+ */
+export function createWebhookEventRepository(): WebhookEventRepository {
+  if (config.storageDriver === 'memory') {
+    return new InMemoryWebhookEventRepository();
+  }
+
+  return new FileWebhookEventRepository(path.join(config.dataDir, 'webhook-events.json'));
+}
+
+// Shared repository used by the webhook handler
+export const webhookEventRepository: WebhookEventRepository = createWebhookEventRepository();
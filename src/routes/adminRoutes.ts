@@ -0,0 +1,65 @@
+import express, { Router } from 'express';
+import { adminAuthMiddleware } from '../middleware/adminAuth';
+import {
+  listTransactions,
+  getTransaction,
+  retryTransactionPayout,
+  releaseHeldTransaction,
+  resolveTransactionManually,
+  refundTransactionManually,
+  getHotWalletBalance,
+  getTreasury,
+  getTopUps,
+  getLedgerEntries,
+  getRevenue,
+  getLedgerCheck,
+  getScreening,
+  reloadScreening,
+  getAuditLog
+} from '../controllers/adminController';
+
+const router = Router();
+
+// Every admin route needs an API key or JWT
+router.use(adminAuthMiddleware as express.RequestHandler);
+
+// List and filter transactions
+router.get('/transactions', listTransactions as express.RequestHandler);
+
+// Get one transaction with its payout job
+router.get('/transactions/:sessionId', getTransaction as express.RequestHandler);
+
+// Retry a failed payout
+router.post('/transactions/:sessionId/retry', retryTransactionPayout as express.RequestHandler);
+
+// Release a payout held by fraud screening
+router.post('/transactions/:sessionId/release', releaseHeldTransaction as express.RequestHandler);
+
+// Mark a transaction as manually resolved
+router.post('/transactions/:sessionId/resolve', resolveTransactionManually as express.RequestHandler);
+
+// Refund the customer's payment
+router.post('/transactions/:sessionId/refund', refundTransactionManually as express.RequestHandler);
+
+// Hot wallet balance
+router.get('/balance', getHotWalletBalance as express.RequestHandler);
+
+// Hot wallet balances, burn rate, runway and balance history
+router.get('/treasury', getTreasury as express.RequestHandler);
+
+// Hot wallet top-ups from the treasury
+router.get('/top-ups', getTopUps as express.RequestHandler);
+
+// Double-entry ledger, revenue stats and the consistency check
+router.get('/ledger', getLedgerEntries as express.RequestHandler);
+router.get('/ledger/revenue', getRevenue as express.RequestHandler);
+router.get('/ledger/check', getLedgerCheck as express.RequestHandler);
+
+// Wallet screening lists and blocked addresses
+router.get('/screening', getScreening as express.RequestHandler);
+router.post('/screening/reload', reloadScreening as express.RequestHandler);
+
+// Admin audit log
+router.get('/audit-log', getAuditLog as express.RequestHandler);
+
+export default router;
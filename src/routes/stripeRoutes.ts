@@ -1,19 +1,27 @@
 import express, { Router } from 'express';
 import { 
+  createQuoteHandler,
   createCheckoutSession, 
+  cancelCheckoutSession,
   verifySession, 
   handleWebhook, 
   getOnrampCapacity,
   getTransactionStatusById,
-  getAllTransactions,
-  getTotalOnramped
+  getTotalOnramped,
+  getNetwork
 } from '../controllers/stripeController';
 
 const router = Router();
 
+// Quote the fees for an onramp
+router.post('/quote', createQuoteHandler as express.RequestHandler);
+
 // Create checkout session route
 router.post('/create-checkout', createCheckoutSession as express.RequestHandler);
 
+// Cancel checkout session route
+router.post('/cancel-checkout', cancelCheckoutSession as express.RequestHandler);
+
 // Verify session route
 router.get('/verify-session', verifySession as express.RequestHandler);
 
@@ -23,12 +31,12 @@ router.get('/onramp-capacity', getOnrampCapacity as express.RequestHandler);
 // Get transaction status by session ID
 router.get('/transaction/:sessionId', getTransactionStatusById as express.RequestHandler);
 
-// Get all transactions
-router.get('/transactions', getAllTransactions as express.RequestHandler);
-
 // Get total onramped amount
 router.get('/total-onramped', getTotalOnramped as express.RequestHandler);
 
+// Get the network the service runs on
+router.get('/network', getNetwork as express.RequestHandler);
+
 // Stripe webhook route - needs raw body for signature verification
 router.post('/webhook', 
   express.raw({ type: 'application/json' }),
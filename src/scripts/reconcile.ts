@@ -0,0 +1,88 @@
+import { unlockSigner } from '../services/signerService';
+import { reconcile, startOfUtcDay, toCsv, writeReconciliationReport } from '../services/reconciliationService';
+
+/**
+ * Reconcile Stripe against our records and the Hyperliquid ledger from the command line
+ * `npm run reconcile -- --from 2026-10-01 --to 2026-10-07 [--out ./reports] [--print json|csv]`
+ * `--from` and `--to` are UTC days, both included; without them yesterday is reconciled. The JSON and CSV
+ * reports are written to `--out` (RECONCILIATION_REPORT_DIR by default). Exits with 2 when anything
+ * does not match, so a cron job can tell.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read `--name value` and `--name=value` options
+ */
+function parseArgs(args: string[]): Record<string, string> {
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const match = args[i].match(/^--([^=]+)(?:=(.*))?$/);
+
+    if (!match) {
+      throw new Error(`Unexpected argument ${args[i]}`);
+    }
+
+    options[match[1]] = match[2] ?? args[++i] ?? '';
+  }
+
+  return options;
+}
+
+/**
+ * Parse a YYYY-MM-DD day as the start of that UTC day
+ */
+function parseDay(value: string, name: string): Date {
+  const date = new Date(`${value}T00:00:00Z`);
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+    throw new Error(`--${name} must be a date like 2026-10-01, got '${value}'`);
+  }
+
+  return date;
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.print && options.print !== 'json' && options.print !== 'csv') {
+    throw new Error("--print must be 'json' or 'csv'");
+  }
+
+  const from = options.from ? parseDay(options.from, 'from') : new Date(startOfUtcDay(new Date()).getTime() - DAY_MS);
+  const to = new Date((options.to ? parseDay(options.to, 'to') : from).getTime() + DAY_MS);
+
+  if (to <= from) {
+    throw new Error('--to must not be before --from');
+  }
+
+  await unlockSigner();
+
+  const report = await reconcile(from, to);
+  const { jsonPath, csvPath } = await writeReconciliationReport(report, options.out || undefined);
+
+  if (options.print === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (options.print === 'csv') {
+    process.stdout.write(toCsv(report));
+  } else {
+    const { summary } = report;
+    console.log(`🧾 ${report.from} to ${report.to}: ${summary.paidSessions} paid sessions, ${summary.sends} sends, ${summary.matched} matched`);
+    console.log(`   Paid but unsent: ${summary.issues.paid_but_unsent}`);
+    console.log(`   Sent but unpaid: ${summary.issues.sent_but_unpaid}`);
+    console.log(`   Amount mismatches: ${summary.issues.amount_mismatch}`);
+    console.log(`   Orphaned refunds: ${summary.issues.orphaned_refund}`);
+  }
+
+  console.error(`📄 Reports written to ${jsonPath} and ${csvPath}`);
+  return report.issues.length > 0 ? 2 : 0;
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('❌ Reconciliation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,420 @@
+import Stripe from 'stripe';
+import {
+  createPendingTransaction,
+  getPendingTransactionByPaymentIntentId,
+  getPendingTransactionBySessionId,
+  isRefundState,
+  updatePendingTransaction
+} from './onrampService';
+import { enqueuePayout, processDuePayoutJobs } from './payoutQueueService';
+import { convertReservation, releaseSessionReservation } from './reservationService';
+import { recordPayment, voidSessionUsage } from './limitsService';
+import { refundTransaction } from './refundService';
+import { screenCharge } from './fraudService';
+import { releaseSessionPromoRedemption } from './feeService';
+import { recordCharge, recordStripeFee } from './ledgerService';
+import { stripe } from './stripeService';
+import { PayoutRailId, SpotDelivery } from '../repositories/transactionRepository';
+import { walletFlagRepository } from '../repositories/walletFlagRepository';
+
+/**
+ * Get the ID of an expandable Stripe payment intent reference
+ */
+function toPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null): string | undefined {
+  if (!paymentIntent) {
+    return undefined;
+  }
+
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent.id;
+}
+
+// Where and how much to pay out for a session
+interface SessionPayout {
+  walletAddress: string;
+  baseAmount: number;
+  payoutRail?: PayoutRailId;
+  spotDelivery?: SpotDelivery;
+}
+
+/**
+ * Read the spot token delivery priced at checkout, if the customer bought a spot token
+ */
+function getSessionSpotDelivery(session: Stripe.Checkout.Session): SpotDelivery | undefined {
+  const token = session.metadata?.spotToken;
+
+  if (!token) {
+    return undefined;
+  }
+
+  return {
+    token,
+    amount: parseFloat(session.metadata?.spotAmount || '0'),
+    quotedPrice: parseFloat(session.metadata?.spotQuotedPrice || '0'),
+    maxPrice: parseFloat(session.metadata?.spotMaxPrice || '0')
+  };
+}
+
+/**
+ * Read the wallet address, USDC amount, payout rail and spot token we stored on the session at checkout
+ */
+function getSessionPayout(session: Stripe.Checkout.Session): SessionPayout | undefined {
+  const walletAddress = session.metadata?.walletAddress;
+  const baseAmount = parseFloat(session.metadata?.baseAmount || '0');
+  const payoutRail = session.metadata?.payoutRail as PayoutRailId | undefined;
+
+  console.log('📝 Session metadata:', session.metadata);
+
+  if (!walletAddress || !baseAmount) {
+    console.error('❌ Missing wallet address or amount in session metadata');
+    console.error('Metadata received:', session.metadata);
+    return undefined;
+  }
+
+  return { walletAddress, baseAmount, payoutRail, spotDelivery: getSessionSpotDelivery(session) };
+}
+
+/**
+ * Get the charge a session was paid with, with its balance transaction
+ */
+async function getSessionCharge(session: Stripe.Checkout.Session): Promise<Stripe.Charge | undefined> {
+  const paymentIntentId = toPaymentIntentId(session.payment_intent);
+
+  if (!paymentIntentId) {
+    return undefined;
+  }
+
+  const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId, {
+    expand: ['latest_charge.balance_transaction']
+  });
+  const charge = paymentIntent.latest_charge;
+
+  return charge && typeof charge !== 'string' ? charge : undefined;
+}
+
+/**
+ * Check the limits of the email and card a session was paid with
+ * A payment over a limit is failed and refunded instead of paid out.
+ * @returns Whether the payout may go ahead
+ */
+async function enforcePaymentLimits(
+  session: Stripe.Checkout.Session,
+  payout: SessionPayout,
+  charge: Stripe.Charge | undefined
+): Promise<boolean> {
+  const paymentIntentId = toPaymentIntentId(session.payment_intent);
+
+  const usage = await recordPayment(
+    session.id,
+    {
+      email: session.customer_details?.email || undefined,
+      // Bank debits are capped by the account they were paid from, as cards are
+      cardFingerprint: charge?.payment_method_details?.card?.fingerprint
+        || charge?.payment_method_details?.us_bank_account?.fingerprint
+        || charge?.payment_method_details?.sepa_debit?.fingerprint
+        || undefined
+    },
+    { walletAddress: payout.walletAddress, amount: payout.baseAmount }
+  );
+
+  if (usage.status !== 'rejected') {
+    return true;
+  }
+
+  const tx = await getPendingTransactionBySessionId(session.id)
+    || await createPendingTransaction(
+      session.id, payout.walletAddress, payout.baseAmount, payout.payoutRail, payout.spotDelivery
+    );
+
+  // Already refunded on an earlier delivery of the event
+  if (isRefundState(tx.status)) {
+    return false;
+  }
+
+  await updatePendingTransaction(tx.id, {
+    status: 'failed',
+    error: `Limit exceeded: ${usage.rejectionReason}`,
+    paymentIntentId
+  });
+
+  if (paymentIntentId) {
+    await refundTransaction(session.id, paymentIntentId, `Limit exceeded: ${usage.rejectionReason}`);
+  }
+
+  return false;
+}
+
+/**
+ * Screen a paid session for fraud before its payout
+ * Risky payments are held for manual review; the riskiest are refunded and their wallet frozen.
+ * The decision is recorded on the transaction and made once per session.
+ * @returns Whether the payout may go ahead
+ */
+async function screenPayment(
+  session: Stripe.Checkout.Session,
+  payout: SessionPayout,
+  charge: Stripe.Charge | undefined
+): Promise<boolean> {
+  const paymentIntentId = toPaymentIntentId(session.payment_intent);
+  const existing = await getPendingTransactionBySessionId(session.id);
+
+  // Decided on an earlier delivery of the event (a held payment may since have been released)
+  if (existing?.risk) {
+    return existing.status !== 'held' && existing.status !== 'failed' && !isRefundState(existing.status);
+  }
+
+  if (!charge) {
+    return true;
+  }
+
+  const risk = screenCharge(charge);
+  const tx = existing || await createPendingTransaction(
+    session.id, payout.walletAddress, payout.baseAmount, payout.payoutRail, payout.spotDelivery
+  );
+
+  if (risk.decision === 'release') {
+    await updatePendingTransaction(tx.id, { risk, paymentIntentId });
+    return true;
+  }
+
+  const reasons = risk.reasons.join(', ');
+
+  if (risk.decision === 'hold') {
+    console.log(`✋ Payout for session ${session.id} held for review: ${reasons}`);
+    await updatePendingTransaction(tx.id, {
+      status: 'held',
+      risk,
+      paymentIntentId,
+      needsReview: true,
+      reviewReason: `Held by fraud screening: ${reasons}`
+    });
+    return false;
+  }
+
+  console.log(`⛔ Payout for session ${session.id} blocked by fraud screening: ${reasons}`);
+  await updatePendingTransaction(tx.id, {
+    status: 'failed',
+    risk,
+    paymentIntentId,
+    error: `Blocked by fraud screening: ${reasons}`
+  });
+  await walletFlagRepository.freeze(payout.walletAddress, `Fraud screening: ${reasons}`, session.id);
+
+  if (paymentIntentId) {
+    await refundTransaction(session.id, paymentIntentId, `Blocked by fraud screening: ${reasons}`);
+  }
+
+  return false;
+}
+
+/**
+ * Queue the USDC payout for a paid session
+ * Throws if the job could not be queued, so the webhook can ask Stripe to retry
+ */
+async function queueSessionPayout(session: Stripe.Checkout.Session): Promise<void> {
+  const payout = getSessionPayout(session);
+
+  if (!payout) {
+    return;
+  }
+
+  console.log(`🔑 Wallet Address: ${payout.walletAddress}`);
+  console.log(`💵 Amount: ${payout.baseAmount} USDC`);
+
+  const charge = await getSessionCharge(session);
+
+  // Book the payment before anything can refund it
+  await recordCharge(session, charge);
+
+  if (charge?.balance_transaction && typeof charge.balance_transaction !== 'string') {
+    await recordStripeFee(session.id, charge.balance_transaction);
+  }
+
+  if (!await enforcePaymentLimits(session, payout, charge)) {
+    return;
+  }
+
+  if (!await screenPayment(session, payout, charge)) {
+    return;
+  }
+
+  // Queue the USDC payout; the payout worker sends it and retries transient failures
+  await enqueuePayout({
+    stripeSessionId: session.id,
+    paymentIntentId: toPaymentIntentId(session.payment_intent),
+    walletAddress: payout.walletAddress,
+    amount: payout.baseAmount,
+    payoutRail: payout.payoutRail,
+    spotDelivery: payout.spotDelivery
+  });
+
+  // Kick the worker now instead of waiting for its next poll
+  processDuePayoutJobs().catch(error => console.error('❌ Payout worker error:', error));
+}
+
+/**
+ * Handle checkout.session.completed
+ * Card payments are paid at this point; delayed methods (bank debits) are still unpaid
+ * and are recorded as awaiting payment until an async_payment event arrives
+ */
+export async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session): Promise<void> {
+  console.log(`💰 Checkout session completed: ${session.id}`);
+  console.log(`Payment status: ${session.payment_status}`);
+
+  if (session.payment_status !== 'paid' && session.payment_status !== 'unpaid') {
+    console.log(`⚠️ Payment status is not 'paid': ${session.payment_status}`);
+    return;
+  }
+
+  const payout = getSessionPayout(session);
+
+  if (!payout) {
+    // Nothing will be paid out for the session, so the capacity held for it is free again
+    await releaseSessionReservation(session.id, 'invalid session metadata');
+    return;
+  }
+
+  // The transaction counts the capacity held for the checkout from here on, so it has to exist
+  // before the reservation stops counting; a redelivered event gets the existing transaction back
+  const tx = await createPendingTransaction(
+    session.id,
+    payout.walletAddress,
+    payout.baseAmount,
+    payout.payoutRail,
+    payout.spotDelivery,
+    session.payment_status === 'paid' ? 'pending' : 'awaiting_payment'
+  );
+  await convertReservation(session.id);
+
+  if (session.payment_status === 'paid') {
+    console.log('✅ Payment was successful!');
+    await queueSessionPayout(session);
+    return;
+  }
+
+  if (tx.status === 'awaiting_payment' && !tx.paymentIntentId) {
+    await updatePendingTransaction(tx.id, { paymentIntentId: toPaymentIntentId(session.payment_intent) });
+  }
+
+  console.log(`⏳ Session ${session.id} awaiting delayed payment`);
+}
+
+/**
+ * Handle checkout.session.async_payment_succeeded
+ * The delayed payment settled, so the payout can go ahead
+ */
+export async function handleAsyncPaymentSucceeded(session: Stripe.Checkout.Session): Promise<void> {
+  console.log(`💰 Delayed payment succeeded for session ${session.id}`);
+
+  const tx = await getPendingTransactionBySessionId(session.id);
+
+  if (tx && tx.status === 'awaiting_payment') {
+    await updatePendingTransaction(tx.id, {
+      status: 'pending',
+      paymentIntentId: toPaymentIntentId(session.payment_intent) || tx.paymentIntentId
+    });
+  }
+
+  await queueSessionPayout(session);
+}
+
+/**
+ * Handle checkout.session.async_payment_failed
+ * Nothing was paid, so there is nothing to send or refund
+ */
+export async function handleAsyncPaymentFailed(session: Stripe.Checkout.Session): Promise<void> {
+  console.log(`❌ Delayed payment failed for session ${session.id}`);
+
+  await voidSessionUsage(session.id);
+
+  const tx = await getPendingTransactionBySessionId(session.id);
+
+  if (tx && tx.status === 'awaiting_payment') {
+    await updatePendingTransaction(tx.id, {
+      status: 'failed',
+      error: 'Delayed payment failed'
+    });
+  }
+}
+
+/**
+ * Handle checkout.session.expired
+ * The customer never paid; release the reserved capacity and drop whatever we were holding for the session
+ */
+export async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session): Promise<void> {
+  console.log(`⌛ Checkout session expired: ${session.id}`);
+
+  await releaseSessionReservation(session.id, 'expired');
+  await voidSessionUsage(session.id);
+  await releaseSessionPromoRedemption(session.id);
+
+  const tx = await getPendingTransactionBySessionId(session.id);
+
+  if (tx && tx.status === 'awaiting_payment') {
+    await updatePendingTransaction(tx.id, { status: 'expired' });
+  }
+}
+
+/**
+ * Handle charge.dispute.created
+ * Freezes the wallet the payment was for and flags the transaction for review.
+ * A payout that has not started yet is cancelled.
+ */
+export async function handleDisputeCreated(dispute: Stripe.Dispute): Promise<void> {
+  console.log(`⚠️ Dispute ${dispute.id} opened (${dispute.reason}) for ${dispute.amount / 100} ${dispute.currency}`);
+
+  const paymentIntentId = toPaymentIntentId(dispute.payment_intent);
+  const tx = paymentIntentId ? await getPendingTransactionByPaymentIntentId(paymentIntentId) : undefined;
+  let walletAddress = tx?.walletAddress;
+
+  // The transaction may be unknown or already cleaned up; the session metadata still has the wallet
+  if (!walletAddress && paymentIntentId) {
+    const sessions = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+    walletAddress = sessions.data[0]?.metadata?.walletAddress;
+  }
+
+  if (walletAddress) {
+    await walletFlagRepository.freeze(walletAddress, `Stripe dispute: ${dispute.reason}`, dispute.id);
+    console.log(`🧊 Wallet ${walletAddress} frozen because of dispute ${dispute.id}`);
+  } else {
+    console.error(`❌ Could not find the wallet for dispute ${dispute.id}`);
+  }
+
+  if (!tx) {
+    return;
+  }
+
+  const cancelPayout = tx.status === 'pending' || tx.status === 'awaiting_payment' || tx.status === 'held';
+
+  await updatePendingTransaction(tx.id, {
+    disputeId: dispute.id,
+    disputeReason: dispute.reason,
+    needsReview: true,
+    reviewReason: `Stripe dispute ${dispute.id} opened: ${dispute.reason}`,
+    ...(cancelPayout ? { status: 'failed' as const, error: 'Payment disputed before payout' } : {})
+  });
+}
+
+/**
+ * Handle charge.updated
+ * Stripe adds the balance transaction to a charge once it settles, which is when its actual fee is known
+ */
+export async function handleChargeUpdated(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = toPaymentIntentId(charge.payment_intent);
+
+  if (!charge.balance_transaction || !paymentIntentId) {
+    return;
+  }
+
+  const tx = await getPendingTransactionByPaymentIntentId(paymentIntentId);
+
+  if (!tx) {
+    console.log(`ℹ️ No transaction found for updated charge ${charge.id}`);
+    return;
+  }
+
+  const balanceTransaction = typeof charge.balance_transaction === 'string'
+    ? await stripe.balanceTransactions.retrieve(charge.balance_transaction)
+    : charge.balance_transaction;
+
+  await recordStripeFee(tx.stripeSessionId, balanceTransaction);
+}
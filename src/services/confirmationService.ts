@@ -0,0 +1,283 @@
+import config from '../config/config';
+import { PendingTransaction, isStalledPayout } from '../repositories/transactionRepository';
+import { LedgerUpdate } from './hyperliquidClient';
+import { getHotWalletAddress, getLedgerUpdates } from './hyperliquidService';
+import { recordDisbursement } from './ledgerService';
+import { getAllPendingTransactions, updatePendingTransaction } from './onrampService';
+import { getPayoutRail } from './payoutRailService';
+
+// Tolerance when comparing USDC (or spot token) amounts from the ledger
+const AMOUNT_EPSILON = 0.000001;
+
+// A USDC or spot token transfer read out of a ledger update
+export interface LedgerSend {
+  hash: string;
+  time: number;
+  from: string;
+  destination: string;
+  amount: number;
+  nonce?: number;
+}
+
+/**
+ * Extract a transfer of `token` from a ledger update, if it is one
+ * A perp-balance usdSend shows up as `internalTransfer`; newer API versions report it as `send`.
+ * A spotSend shows up as `spotTransfer`, or as `send` with the token set.
+ */
+export function toLedgerSend(update: LedgerUpdate, token: string): LedgerSend | undefined {
+  const delta = update.delta;
+
+  if (delta.type === 'internalTransfer' && token === 'USDC') {
+    return {
+      hash: update.hash,
+      time: update.time,
+      from: String(delta.user || ''),
+      destination: String(delta.destination || ''),
+      amount: parseFloat(delta.usdc)
+    };
+  }
+
+  if ((delta.type === 'send' || delta.type === 'spotTransfer') && (delta.token || 'USDC') === token) {
+    return {
+      hash: update.hash,
+      time: update.time,
+      from: String(delta.user || ''),
+      destination: String(delta.destination || ''),
+      amount: parseFloat(token === 'USDC' ? delta.usdcValue ?? delta.amount : delta.amount),
+      nonce: typeof delta.nonce === 'number' ? delta.nonce : undefined
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the ledger entry for a transaction's send
+ * Matches on sender, destination, token and amount, then on nonce when the ledger reports one,
+ * otherwise on the ledger time being close to the signed send time.
+ * Withdrawals to Arbitrum are `withdraw` entries in our own ledger and match on their nonce alone.
+ */
+export function findMatchingSend(
+  tx: PendingTransaction,
+  hotWallet: string,
+  updates: LedgerUpdate[],
+  usedHashes: Set<string>
+): LedgerSend | undefined {
+  if (tx.payoutNonce === undefined) {
+    return undefined;
+  }
+
+  const nonce = tx.payoutNonce;
+  const windowMs = config.confirmationMatchWindowSeconds * 1000;
+
+  if (tx.payoutRail === 'arbitrum') {
+    const withdrawal = updates.find(update =>
+      update.delta.type === 'withdraw' && update.delta.nonce === nonce && !usedHashes.has(update.hash)
+    );
+
+    return withdrawal && {
+      hash: withdrawal.hash,
+      time: withdrawal.time,
+      from: hotWallet,
+      destination: tx.walletAddress,
+      amount: parseFloat(withdrawal.delta.usdc),
+      nonce
+    };
+  }
+
+  // Spot token payouts are matched on the tokens sent, not their USDC value
+  const token = tx.spotDelivery?.token || 'USDC';
+  const amount = tx.spotDelivery?.amount ?? tx.amount;
+
+  return updates
+    .map(update => toLedgerSend(update, token))
+    .find((send): send is LedgerSend =>
+      !!send &&
+      !usedHashes.has(send.hash) &&
+      send.from.toLowerCase() === hotWallet.toLowerCase() &&
+      send.destination.toLowerCase() === tx.walletAddress.toLowerCase() &&
+      Math.abs(send.amount - amount) < AMOUNT_EPSILON &&
+      (send.nonce !== undefined ? send.nonce === nonce : Math.abs(send.time - nonce) <= windowMs)
+    );
+}
+
+/**
+ * Hashes of ledger entries that already confirmed a transaction
+ * A ledger entry can only ever confirm one transaction
+ */
+function confirmedHashes(transactions: PendingTransaction[]): Set<string> {
+  return new Set(
+    transactions
+      .filter(tx => tx.status === 'confirmed')
+      .map(tx => tx.txHash)
+      .filter((hash): hash is string => !!hash)
+  );
+}
+
+/**
+ * Look a transaction's send up in the hot wallet's ledger updates, then in the destination's ledger
+ * @param hotWalletUpdates The hot wallet's ledger since at least the send's nonce (less the match window)
+ */
+async function findSend(
+  tx: PendingTransaction,
+  payoutNonce: number,
+  hotWallet: string,
+  hotWalletUpdates: LedgerUpdate[],
+  usedHashes: Set<string>
+): Promise<LedgerSend | undefined> {
+  const send = findMatchingSend(tx, hotWallet, hotWalletUpdates, usedHashes);
+
+  if (send || tx.payoutRail === 'arbitrum') {
+    return send;
+  }
+
+  // Fall back to the destination's ledger, which records the same transfer
+  const destinationUpdates = await getLedgerUpdates(
+    tx.walletAddress,
+    payoutNonce - config.confirmationMatchWindowSeconds * 1000
+  );
+  return findMatchingSend(tx, hotWallet, destinationUpdates, usedHashes);
+}
+
+/**
+ * Confirm a transaction with the ledger entry of its send
+ * A send we could not verify before is booked in our ledger now; other sends were booked when they went out.
+ */
+async function confirmSend(tx: PendingTransaction, send: LedgerSend): Promise<PendingTransaction | undefined> {
+  const confirmed = await updatePendingTransaction(tx.id, {
+    status: 'confirmed',
+    txHash: send.hash,
+    confirmedAt: new Date(),
+    error: undefined,
+    needsReview: undefined,
+    reviewReason: undefined,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  });
+
+  if (tx.status !== 'completed') {
+    await recordDisbursement(tx, getPayoutRail(tx.payoutRail).networkFee, send.hash)
+      .catch(error => console.error(`❌ Could not record the payout for session ${tx.stripeSessionId} in the ledger:`, error));
+  }
+
+  console.log(`🔗 Transaction ${tx.id} confirmed in Hyperliquid ledger: ${send.hash}`);
+  return confirmed;
+}
+
+/**
+ * Settle a payout whose send may have gone out without us hearing back
+ * Looks the transaction's nonce up in the Hyperliquid ledger: a send that is there confirms the
+ * transaction, otherwise it is left unverified for an operator. Its nonce is kept either way, so
+ * nothing is signed again for it until someone has looked.
+ * @param reason Why the outcome of the send is unknown
+ * @returns The transaction as it was left
+ */
+export async function verifyStartedPayout(tx: PendingTransaction, reason: string): Promise<PendingTransaction | undefined> {
+  let send: LedgerSend | undefined;
+
+  // HyperEVM transfers are not in the Hyperliquid ledger; their signed transaction is kept on the transaction
+  if (tx.payoutNonce !== undefined && tx.payoutRail !== 'hyperevm') {
+    const hotWallet = getHotWalletAddress();
+    const hotWalletUpdates = await getLedgerUpdates(
+      hotWallet,
+      tx.payoutNonce - config.confirmationMatchWindowSeconds * 1000
+    );
+
+    send = await findSend(tx, tx.payoutNonce, hotWallet, hotWalletUpdates, confirmedHashes(await getAllPendingTransactions()));
+  }
+
+  if (send) {
+    return confirmSend(tx, send);
+  }
+
+  console.warn(`🚩 Transaction ${tx.id} parked for review: ${reason}, send not found in the ledger`);
+  return updatePendingTransaction(tx.id, {
+    status: 'unverified',
+    needsReview: true,
+    reviewReason: `${reason}; send not found in the Hyperliquid ledger`,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  });
+}
+
+/**
+ * Settle payouts left in `processing` after their send started, e.g. by a crash mid-send
+ * Each is looked up in the ledger like any send whose outcome is unknown (see verifyStartedPayout).
+ * @returns The number of stalled payouts found
+ */
+export async function recoverStalledPayouts(): Promise<number> {
+  const now = new Date();
+  const stalled = (await getAllPendingTransactions()).filter(tx => isStalledPayout(tx, now));
+
+  for (const tx of stalled) {
+    console.warn(`🩹 Transaction ${tx.id} stalled after its send started, looking it up in the ledger`);
+    await verifyStartedPayout(tx, 'Payout stopped after its send was started');
+  }
+
+  return stalled.length;
+}
+
+/**
+ * Match sent-but-unconfirmed transactions against the Hyperliquid ledger
+ * Matched transactions move to `confirmed` with the real ledger hash; sends that are
+ * still missing after the confirmation timeout are flagged for review. Unverified sends
+ * are looked for too, in case they reached the ledger late.
+ */
+export async function reconcilePendingConfirmations(): Promise<{ confirmed: number; flagged: number }> {
+  const transactions = await getAllPendingTransactions();
+  const unconfirmed = transactions.filter(tx =>
+    (tx.status === 'completed' || (tx.status === 'unverified' && tx.payoutRail !== 'hyperevm')) &&
+    tx.payoutNonce !== undefined
+  );
+
+  if (unconfirmed.length === 0) {
+    return { confirmed: 0, flagged: 0 };
+  }
+
+  const hotWallet = getHotWalletAddress();
+  const windowMs = config.confirmationMatchWindowSeconds * 1000;
+  const timeoutMs = config.confirmationTimeoutMinutes * 60 * 1000;
+  const startTime = Math.min(...unconfirmed.map(tx => tx.payoutNonce!)) - windowMs;
+  const hotWalletUpdates = await getLedgerUpdates(hotWallet, startTime);
+  const usedHashes = confirmedHashes(transactions);
+
+  let confirmed = 0;
+  let flagged = 0;
+
+  for (const tx of unconfirmed) {
+    const send = await findSend(tx, tx.payoutNonce!, hotWallet, hotWalletUpdates, usedHashes);
+
+    if (send) {
+      usedHashes.add(send.hash);
+      await confirmSend(tx, send);
+      confirmed++;
+      continue;
+    }
+
+    if (!tx.needsReview && Date.now() - tx.payoutNonce! > timeoutMs) {
+      await updatePendingTransaction(tx.id, {
+        needsReview: true,
+        reviewReason: `Send not found in Hyperliquid ledger after ${config.confirmationTimeoutMinutes} minutes`
+      });
+      console.warn(`🚩 Transaction ${tx.id} flagged for review: send not found in Hyperliquid ledger`);
+      flagged++;
+    }
+  }
+
+  return { confirmed, flagged };
+}
+
+/**
+ * Start reconciling sends against the ledger (and recovering stalled payouts) on a schedule
+ * @returns A function that stops the monitor
+ */
+export function startConfirmationMonitor(): () => void {
+  const timer = setInterval(() => {
+    recoverStalledPayouts()
+      .then(() => reconcilePendingConfirmations())
+      .catch(error => console.error('❌ Confirmation monitor error:', error));
+  }, config.confirmationIntervalSeconds * 1000);
+
+  console.log(`🔗 Confirmation monitor polling every ${config.confirmationIntervalSeconds}s`);
+  return () => clearInterval(timer);
+}
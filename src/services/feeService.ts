@@ -0,0 +1,464 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import config from '../config/config';
+import { FxRate, convertUsdCents, fromMinorUnits, toUsdCents } from './fxService';
+import {
+  PromoRedemption,
+  PromoRedemptionRepository,
+  promoRedemptionRepository
+} from '../repositories/promoRedemptionRepository';
+
+// Service fee for a band of amounts; a band covers amounts up to and including upToCents
+export interface FeeTier {
+  // Unset on the last tier, which covers everything above the previous one
+  upToCents?: number;
+  percent: number;
+  flatCents: number;
+}
+
+// The payment processor's fee for a payment method, passed on to the customer
+export interface ProcessingFeeRate {
+  percent: number;
+  flatCents: number;
+  // Most the processor charges, for methods with capped fees (e.g. ACH)
+  capCents?: number;
+}
+
+// A code that takes a percentage off our service fee
+export interface PromoCode {
+  code: string;
+  percentOff: number;
+  // ISO date after which the code no longer works
+  expiresAt?: string;
+  // How many checkouts may use the code
+  maxUses?: number;
+}
+
+// Everything that decides what a customer pays on top of the onramp amount
+export interface FeeSchedule {
+  tiers: FeeTier[];
+  // Least service fee charged, before any promo discount
+  minimumFeeCents: number;
+  // Keyed by Stripe payment method type, e.g. 'card'
+  processingFees: Record<string, ProcessingFeeRate>;
+  promoCodes: PromoCode[];
+}
+
+// The schedule used without FEE_SCHEDULE_PATH: 0.5% service fee and Stripe's standard rates -
+// cards at 2.9% + $0.30, ACH Direct Debit at 0.8% capped at $5, SEPA Direct Debit at a flat 0.35
+const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  tiers: [{ percent: 0.5, flatCents: 0 }],
+  minimumFeeCents: 0,
+  processingFees: {
+    card: { percent: 2.9, flatCents: 30 },
+    us_bank_account: { percent: 0.8, flatCents: 0, capCents: 500 },
+    sepa_debit: { percent: 0, flatCents: 35 }
+  },
+  promoCodes: []
+};
+
+// Whether the customer chose the USDC to receive (fees added on top)
+// or the total to pay (fees taken out of it)
+export type AmountMode = 'receive' | 'pay';
+
+// What the customer is charged, in minor units of the currency they pay in
+export interface ChargeAmounts {
+  currency: string;
+  baseAmount: number;
+  serviceFee: number;
+  networkFee: number;
+  fxFee: number;
+  processingFee: number;
+  total: number;
+}
+
+// What the customer pays for an onramp, in USD cents
+export interface FeeBreakdown {
+  mode: AmountMode;
+  // The USDC the customer receives
+  baseAmountCents: number;
+  paymentMethod: string;
+  // The tier's service fee rate
+  serviceFeePercent: number;
+  serviceFeeFlatCents: number;
+  // Whether the tier's fee was raised to the minimum fee
+  minimumFeeApplied: boolean;
+  promoCode?: string;
+  // Taken off the service fee by the promo code
+  discountCents: number;
+  // Service fee charged, after the discount and including any rounding adjustment
+  serviceFeeCents: number;
+  // Minor units of the charge currency added to the service fee so a 'pay' mode total comes out exact
+  roundingAdjustmentCents: number;
+  // What delivering the USDC costs on the chosen payout rail (e.g. the Arbitrum withdrawal fee)
+  networkFeeCents: number;
+  // Rate the charge was converted at, unset when paying in USD
+  fx?: FxRate;
+  // Our margin on the conversion
+  fxFeeCents: number;
+  stripeFeePercent: number;
+  stripeFeeFixedCents: number;
+  stripeFeeCents: number;
+  totalAmountCents: number;
+  // The same lines converted to the charge currency
+  charge: ChargeAmounts;
+}
+
+// Options for pricing an onramp
+export interface FeeOptions {
+  // Stripe payment method type, 'card' by default
+  paymentMethod?: string;
+  // A promo code already checked with checkPromoCode
+  promoCode?: string;
+  // Rate to charge in another currency at, from getFxRate
+  fx?: FxRate;
+  // Cost of the payout rail, in USD cents
+  networkFeeCents?: number;
+}
+
+/**
+ * Check a fee schedule read from a file
+ * Throws on the first problem found.
+ */
+function validateFeeSchedule(schedule: FeeSchedule): FeeSchedule {
+  if (!Array.isArray(schedule.tiers) || schedule.tiers.length === 0) {
+    throw new Error('Fee schedule needs at least one tier');
+  }
+
+  schedule.tiers.forEach((tier, index) => {
+    const isLast = index === schedule.tiers.length - 1;
+
+    if (typeof tier.percent !== 'number' || tier.percent < 0 || typeof tier.flatCents !== 'number' || tier.flatCents < 0) {
+      throw new Error(`Fee tier ${index + 1} needs a non-negative percent and flatCents`);
+    }
+
+    if (isLast !== (tier.upToCents === undefined)) {
+      throw new Error('Every fee tier but the last needs upToCents, and the last must not have it');
+    }
+
+    if (index > 0 && tier.upToCents !== undefined && tier.upToCents <= schedule.tiers[index - 1].upToCents!) {
+      throw new Error('Fee tiers must be in increasing order of upToCents');
+    }
+  });
+
+  if (!schedule.processingFees || !schedule.processingFees.card) {
+    throw new Error('Fee schedule needs a processing fee rate for card payments');
+  }
+
+  for (const promo of schedule.promoCodes || []) {
+    if (!promo.code || typeof promo.percentOff !== 'number' || promo.percentOff <= 0 || promo.percentOff > 100) {
+      throw new Error(`Promo code ${promo.code || '(no code)'} needs a percentOff between 0 and 100`);
+    }
+
+    if (promo.expiresAt && isNaN(new Date(promo.expiresAt).getTime())) {
+      throw new Error(`Promo code ${promo.code} has an invalid expiresAt`);
+    }
+  }
+
+  return {
+    ...schedule,
+    minimumFeeCents: schedule.minimumFeeCents || 0,
+    promoCodes: (schedule.promoCodes || []).map(promo => ({ ...promo, code: promo.code.toUpperCase() }))
+  };
+}
+
+/**
+ * Load a fee schedule from a JSON file, or the default schedule without one
+ */
+export function loadFeeSchedule(filePath?: string): FeeSchedule {
+  if (!filePath) {
+    return DEFAULT_FEE_SCHEDULE;
+  }
+
+  return validateFeeSchedule(JSON.parse(fs.readFileSync(filePath, 'utf8')));
+}
+
+// Fee schedule in use (swappable for tests)
+let schedule: FeeSchedule = loadFeeSchedule(config.feeSchedulePath);
+
+/**
+ * Replace the fee schedule
+ */
+export function setFeeSchedule(feeSchedule: FeeSchedule): void {
+  schedule = validateFeeSchedule(feeSchedule);
+}
+
+/**
+ * The fee schedule in use
+ */
+export function getFeeSchedule(): FeeSchedule {
+  return schedule;
+}
+
+// Repository holding promo code redemptions (swappable for tests)
+let repository: PromoRedemptionRepository = promoRedemptionRepository;
+
+/**
+ * Replace the promo redemption repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setPromoRedemptionRepository(repo: PromoRedemptionRepository): void {
+  repository = repo;
+}
+
+function findPromoCode(code: string): PromoCode | undefined {
+  return schedule.promoCodes.find(promo => promo.code === code.toUpperCase());
+}
+
+/**
+ * Check that a promo code exists and has not expired
+ * @returns Why the code cannot be used, if it cannot
+ */
+export function checkPromoCode(code: string): string | undefined {
+  const promo = findPromoCode(code);
+
+  if (!promo) {
+    return 'Unknown promo code';
+  }
+
+  if (promo.expiresAt && new Date(promo.expiresAt).getTime() <= Date.now()) {
+    return 'Promo code has expired';
+  }
+
+  return undefined;
+}
+
+/**
+ * Calculate the fees added on top of an onramp amount
+ * Our service fee comes from the amount's tier (at least the minimum fee, less any promo discount)
+ * and the payout rail's network fee is passed on at cost. Paying in another currency adds the FX
+ * spread on all of that, and the processing fee is charged on everything before it. Each line is
+ * then converted to the charge currency.
+ * @param baseAmountCents The USDC amount to deliver, in cents
+ */
+export function calculateFees(baseAmountCents: number, options: FeeOptions = {}): FeeBreakdown {
+  const paymentMethod = options.paymentMethod || 'card';
+  const rate = schedule.processingFees[paymentMethod];
+
+  if (!rate) {
+    throw new Error(`No processing fee rate for payment method ${paymentMethod}`);
+  }
+
+  const tier = schedule.tiers.find(t => t.upToCents === undefined || baseAmountCents <= t.upToCents)!;
+  const tierFeeCents = Math.round(baseAmountCents * (tier.percent / 100)) + tier.flatCents;
+  const minimumFeeApplied = tierFeeCents < schedule.minimumFeeCents;
+  const grossServiceFeeCents = Math.max(tierFeeCents, schedule.minimumFeeCents);
+
+  const promo = options.promoCode ? findPromoCode(options.promoCode) : undefined;
+  const discountCents = promo ? Math.round(grossServiceFeeCents * (promo.percentOff / 100)) : 0;
+  const serviceFeeCents = grossServiceFeeCents - discountCents;
+
+  const networkFeeCents = options.networkFeeCents || 0;
+  const convertedCents = baseAmountCents + serviceFeeCents + networkFeeCents;
+  const fxFeeCents = options.fx ? Math.round(convertedCents * (options.fx.spreadPercent / 100)) : 0;
+
+  const subtotalCents = convertedCents + fxFeeCents;
+  const uncappedStripeFeeCents = Math.round(subtotalCents * (rate.percent / 100)) + rate.flatCents;
+  const stripeFeeCents = rate.capCents !== undefined ? Math.min(uncappedStripeFeeCents, rate.capCents) : uncappedStripeFeeCents;
+
+  const charge = {
+    currency: options.fx?.currency || 'usd',
+    baseAmount: convertUsdCents(baseAmountCents, options.fx),
+    serviceFee: convertUsdCents(serviceFeeCents, options.fx),
+    networkFee: convertUsdCents(networkFeeCents, options.fx),
+    fxFee: convertUsdCents(fxFeeCents, options.fx),
+    processingFee: convertUsdCents(stripeFeeCents, options.fx),
+    total: 0
+  };
+  charge.total = charge.baseAmount + charge.serviceFee + charge.networkFee + charge.fxFee + charge.processingFee;
+
+  return {
+    mode: 'receive',
+    baseAmountCents,
+    paymentMethod,
+    serviceFeePercent: tier.percent,
+    serviceFeeFlatCents: tier.flatCents,
+    minimumFeeApplied,
+    promoCode: promo?.code,
+    discountCents,
+    serviceFeeCents,
+    roundingAdjustmentCents: 0,
+    networkFeeCents,
+    fx: options.fx,
+    fxFeeCents,
+    stripeFeePercent: rate.percent,
+    stripeFeeFixedCents: rate.flatCents,
+    stripeFeeCents,
+    totalAmountCents: subtotalCents + stripeFeeCents,
+    charge
+  };
+}
+
+/**
+ * Work out the USDC a fixed total buys, the inverse of calculateFees
+ * Picks the largest base amount whose total fits within the amount paid. Fee rounding can leave
+ * the total a cent or two short; that difference is added to the service fee so the customer
+ * is charged exactly the amount they asked for.
+ * @param chargeTotal What the customer wants to pay, in minor units of the charge currency
+ * @returns The breakdown, or undefined if the amount does not even cover the fees
+ */
+export function calculateFeesForTotal(chargeTotal: number, options: FeeOptions = {}): FeeBreakdown | undefined {
+  // The base amount can be no more than the whole payment converted to USD
+  const maxBaseCents = Math.ceil(fromMinorUnits(chargeTotal, options.fx?.currency || 'usd') * (options.fx?.usdPerUnit ?? 1) * 100);
+  let bestBaseCents = 0;
+  let lowerCents = 1;
+
+  // The total only grows with the base amount within a tier, so search each tier's band separately
+  for (const tier of schedule.tiers) {
+    const upperCents = Math.min(tier.upToCents ?? maxBaseCents, maxBaseCents);
+    let low = lowerCents;
+    let high = upperCents;
+
+    while (low <= high) {
+      const mid = Math.floor((low + high) / 2);
+
+      if (calculateFees(mid, options).charge.total <= chargeTotal) {
+        bestBaseCents = Math.max(bestBaseCents, mid);
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (tier.upToCents === undefined || tier.upToCents >= maxBaseCents) {
+      break;
+    }
+
+    lowerCents = tier.upToCents + 1;
+  }
+
+  if (bestBaseCents === 0) {
+    return undefined;
+  }
+
+  const fees = calculateFees(bestBaseCents, options);
+  const roundingAdjustmentCents = chargeTotal - fees.charge.total;
+  const roundingAdjustmentUsdCents = toUsdCents(roundingAdjustmentCents, options.fx);
+
+  return {
+    ...fees,
+    mode: 'pay',
+    serviceFeeCents: fees.serviceFeeCents + roundingAdjustmentUsdCents,
+    roundingAdjustmentCents,
+    totalAmountCents: fees.totalAmountCents + roundingAdjustmentUsdCents,
+    charge: {
+      ...fees.charge,
+      serviceFee: fees.charge.serviceFee + roundingAdjustmentCents,
+      total: chargeTotal
+    }
+  };
+}
+
+/**
+ * Describe how the service fee was worked out, for the checkout line item
+ */
+export function describeServiceFee(fees: FeeBreakdown): string {
+  let description = fees.minimumFeeApplied
+    ? 'Minimum service fee'
+    : fees.serviceFeeFlatCents > 0
+      ? `${fees.serviceFeePercent}% + $${(fees.serviceFeeFlatCents / 100).toFixed(2)} service fee`
+      : `${fees.serviceFeePercent}% service fee`;
+
+  if (fees.promoCode) {
+    description += ` (promo ${fees.promoCode}: -$${(fees.discountCents / 100).toFixed(2)})`;
+  }
+
+  return description;
+}
+
+/**
+ * Describe how the processing fee was worked out, for the checkout line item
+ */
+export function describeProcessingFee(fees: FeeBreakdown): string {
+  const parts: string[] = [];
+
+  if (fees.stripeFeePercent > 0) {
+    parts.push(`${fees.stripeFeePercent}%`);
+  }
+
+  if (fees.stripeFeeFixedCents > 0 || parts.length === 0) {
+    parts.push(`$${(fees.stripeFeeFixedCents / 100).toFixed(2)}`);
+  }
+
+  const capCents = schedule.processingFees[fees.paymentMethod]?.capCents;
+  const cap = capCents !== undefined ? `, capped at $${(capCents / 100).toFixed(2)}` : '';
+
+  return `Payment processing fee (${parts.join(' + ')}${cap})`;
+}
+
+/**
+ * The breakdown in dollars (the charge in whole units of its currency), as returned to the frontend
+ */
+export function toBreakdownResponse(fees: FeeBreakdown) {
+  return {
+    mode: fees.mode,
+    baseAmount: fees.baseAmountCents / 100,
+    serviceFee: fees.serviceFeeCents / 100,
+    discount: fees.discountCents / 100,
+    promoCode: fees.promoCode,
+    networkFee: fees.networkFeeCents / 100,
+    fxFee: fees.fxFeeCents / 100,
+    stripeFee: fees.stripeFeeCents / 100,
+    paymentMethod: fees.paymentMethod,
+    totalAmount: fees.totalAmountCents / 100,
+    fx: fees.fx && {
+      currency: fees.fx.currency,
+      usdPerUnit: fees.fx.usdPerUnit,
+      spreadPercent: fees.fx.spreadPercent
+    },
+    charge: {
+      currency: fees.charge.currency,
+      baseAmount: fromMinorUnits(fees.charge.baseAmount, fees.charge.currency),
+      serviceFee: fromMinorUnits(fees.charge.serviceFee, fees.charge.currency),
+      networkFee: fromMinorUnits(fees.charge.networkFee, fees.charge.currency),
+      fxFee: fromMinorUnits(fees.charge.fxFee, fees.charge.currency),
+      processingFee: fromMinorUnits(fees.charge.processingFee, fees.charge.currency),
+      totalAmount: fromMinorUnits(fees.charge.total, fees.charge.currency)
+    }
+  };
+}
+
+/**
+ * Use up one of a promo code's uses for a checkout that is about to be created
+ * @returns The redemption, or undefined if the code has no uses left
+ */
+export async function redeemPromoCode(code: string): Promise<PromoRedemption | undefined> {
+  const promo = findPromoCode(code);
+  const now = new Date();
+
+  return repository.tryRedeem(
+    {
+      id: `promo_${crypto.randomUUID()}`,
+      code: code.toUpperCase(),
+      status: 'active',
+      createdAt: now,
+      updatedAt: now
+    },
+    promo?.maxUses
+  );
+}
+
+/**
+ * Link a promo redemption to the Stripe session created for it
+ */
+export async function attachPromoRedemptionToSession(
+  redemptionId: string,
+  sessionId: string
+): Promise<PromoRedemption | undefined> {
+  return repository.update(redemptionId, { stripeSessionId: sessionId });
+}
+
+/**
+ * Give a promo code use back
+ */
+export async function releasePromoRedemption(redemptionId: string): Promise<PromoRedemption | undefined> {
+  return repository.update(redemptionId, { status: 'released' });
+}
+
+/**
+ * Give back the promo code use of a Stripe session that expired or was cancelled
+ */
+export async function releaseSessionPromoRedemption(sessionId: string): Promise<PromoRedemption | undefined> {
+  const redemption = await repository.findBySessionId(sessionId);
+  return redemption && redemption.status === 'active' ? releasePromoRedemption(redemption.id) : redemption;
+}
@@ -0,0 +1,60 @@
+import Stripe from 'stripe';
+import config from '../config/config';
+import { RiskAssessment } from '../repositories/transactionRepository';
+
+// 3D Secure results that shift liability for fraud to the card issuer
+const AUTHENTICATED_3DS_RESULTS = ['authenticated', 'attempt_acknowledged'];
+
+/**
+ * Evaluate a charge's Radar outcome, 3D Secure result and card country against the fraud rules
+ * Any blocking rule blocks the payout; otherwise any holding rule holds it for review.
+ */
+export function screenCharge(charge: Stripe.Charge): RiskAssessment {
+  const card = charge.payment_method_details?.card;
+  const riskLevel = charge.outcome?.risk_level;
+  const riskScore = charge.outcome?.risk_score;
+  const threeDSecure = card?.three_d_secure?.result || undefined;
+  const cardCountry = card?.country?.toUpperCase() || undefined;
+
+  const blockReasons: string[] = [];
+  const holdReasons: string[] = [];
+
+  if (riskLevel && config.fraudBlockRiskLevels.includes(riskLevel)) {
+    blockReasons.push(`Radar risk level ${riskLevel}`);
+  } else if (riskLevel && config.fraudHoldRiskLevels.includes(riskLevel)) {
+    holdReasons.push(`Radar risk level ${riskLevel}`);
+  }
+
+  if (riskScore !== undefined) {
+    if (config.fraudBlockRiskScore > 0 && riskScore >= config.fraudBlockRiskScore) {
+      blockReasons.push(`Radar risk score ${riskScore}`);
+    } else if (config.fraudHoldRiskScore > 0 && riskScore >= config.fraudHoldRiskScore) {
+      holdReasons.push(`Radar risk score ${riskScore}`);
+    }
+  }
+
+  if (card) {
+    if (threeDSecure === 'failed') {
+      holdReasons.push('3D Secure authentication failed');
+    } else if (config.fraudRequire3ds && !AUTHENTICATED_3DS_RESULTS.includes(threeDSecure || '')) {
+      holdReasons.push(`Card not authenticated with 3D Secure (${threeDSecure || 'not attempted'})`);
+    }
+  }
+
+  if (cardCountry && config.fraudBlockCardCountries.includes(cardCountry)) {
+    blockReasons.push(`Card issued in ${cardCountry}`);
+  } else if (cardCountry && config.fraudHoldCardCountries.includes(cardCountry)) {
+    holdReasons.push(`Card issued in ${cardCountry}`);
+  }
+
+  const decision = blockReasons.length > 0 ? 'block' : holdReasons.length > 0 ? 'hold' : 'release';
+
+  return {
+    decision,
+    reasons: [...blockReasons, ...holdReasons],
+    riskLevel,
+    riskScore,
+    threeDSecure,
+    cardCountry
+  };
+}
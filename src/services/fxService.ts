@@ -0,0 +1,202 @@
+import axios from 'axios';
+import config from '../config/config';
+
+// Currencies Stripe charges in whole units, without a minor unit
+const ZERO_DECIMAL_CURRENCIES = [
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'
+];
+
+// An exchange rate locked in for one checkout
+export interface FxRate {
+  // Lowercase ISO code, as Stripe uses
+  currency: string;
+  // USD for one unit of the currency, at the provider's rate
+  usdPerUnit: number;
+  // Our margin on the conversion, charged as a fee line
+  spreadPercent: number;
+  provider: string;
+  // ISO time the rate was fetched
+  fetchedAt: string;
+}
+
+/**
+ * Source of exchange rates
+ */
+export interface FxRateProvider {
+  name: string;
+  /**
+   * USD for one unit of each currency the provider knows, keyed by lowercase currency code
+   */
+  getRates(): Promise<Record<string, number>>;
+}
+
+/**
+ * Fixed rates, for tests and local development
+ */
+export class StaticFxRateProvider implements FxRateProvider {
+  readonly name = 'static';
+
+  constructor(private readonly rates: Record<string, number>) {}
+
+  /**
+   * Parse rates written as `eur:1.08,gbp:1.27`
+   */
+  static parse(value: string): StaticFxRateProvider {
+    const rates: Record<string, number> = {};
+
+    for (const entry of value.split(',').map(v => v.trim()).filter(Boolean)) {
+      const [currency, rate] = entry.split(':').map(v => v.trim());
+
+      if (!currency || !(parseFloat(rate) > 0)) {
+        throw new Error(`Invalid static exchange rate '${entry}'`);
+      }
+
+      rates[currency.toLowerCase()] = parseFloat(rate);
+    }
+
+    return new StaticFxRateProvider(rates);
+  }
+
+  async getRates(): Promise<Record<string, number>> {
+    return { ...this.rates };
+  }
+}
+
+// Response of an open.er-api.com style rates API, as far as we read it
+interface HttpFxRatesResponse {
+  rates?: Record<string, unknown>;
+}
+
+/**
+ * Rates from an HTTP API answering like open.er-api.com: `{ rates: { EUR: 0.92, ... } }`,
+ * in units of each currency per USD
+ */
+export class HttpFxRateProvider implements FxRateProvider {
+  readonly name = 'http';
+
+  constructor(private readonly url: string, private readonly timeoutMs: number) {}
+
+  async getRates(): Promise<Record<string, number>> {
+    const response = await axios.get<HttpFxRatesResponse | null>(this.url, { timeout: this.timeoutMs });
+    const data = response.data;
+
+    if (!data?.rates || typeof data.rates !== 'object') {
+      throw new Error(`Unexpected exchange rate response: ${JSON.stringify(data)}`);
+    }
+
+    const rates: Record<string, number> = {};
+
+    for (const [currency, perUsd] of Object.entries(data.rates)) {
+      if (typeof perUsd === 'number' && perUsd > 0) {
+        rates[currency.toLowerCase()] = 1 / perUsd;
+      }
+    }
+
+    return rates;
+  }
+}
+
+/**
+ * Create the provider selected by the FX_PROVIDER setting
+ */
+export function createFxRateProvider(): FxRateProvider {
+  if (config.fxProvider === 'static') {
+    return StaticFxRateProvider.parse(config.fxStaticRates);
+  }
+
+  return new HttpFxRateProvider(config.fxRatesUrl, config.fxTimeoutMs);
+}
+
+// Provider in use (swappable for tests) and the rates it last returned
+let provider: FxRateProvider = createFxRateProvider();
+let cachedRates: { rates: Record<string, number>; fetchedAt: Date } | undefined;
+
+/**
+ * Replace the exchange rate provider
+ * Used by tests to run against fixed rates
+ */
+export function setFxRateProvider(fxRateProvider: FxRateProvider): void {
+  provider = fxRateProvider;
+  cachedRates = undefined;
+}
+
+/**
+ * Whether customers may pay in a currency
+ */
+export function isSupportedCurrency(currency: string): boolean {
+  return config.supportedCurrencies.includes(currency.toLowerCase());
+}
+
+/**
+ * Get the rate to charge a checkout in a currency at
+ * Rates are reused for FX_RATE_CACHE_SECONDS. Throws if the provider fails or has no rate.
+ * @returns undefined for USD, which needs no conversion
+ */
+export async function getFxRate(currency: string): Promise<FxRate | undefined> {
+  const code = currency.toLowerCase();
+
+  if (code === 'usd') {
+    return undefined;
+  }
+
+  if (!cachedRates || Date.now() - cachedRates.fetchedAt.getTime() > config.fxRateCacheSeconds * 1000) {
+    cachedRates = { rates: await provider.getRates(), fetchedAt: new Date() };
+    console.log(`💱 Fetched exchange rates from ${provider.name} provider`);
+  }
+
+  const usdPerUnit = cachedRates.rates[code];
+
+  if (!usdPerUnit) {
+    throw new Error(`No exchange rate for ${code.toUpperCase()}`);
+  }
+
+  return {
+    currency: code,
+    usdPerUnit,
+    spreadPercent: config.fxSpreadPercent,
+    provider: provider.name,
+    fetchedAt: cachedRates.fetchedAt.toISOString()
+  };
+}
+
+/**
+ * Digits after the decimal point in a currency's amounts
+ */
+export function currencyDecimals(currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase()) ? 0 : 2;
+}
+
+/**
+ * Convert an amount in whole units (e.g. 12.5 EUR) to minor units (1250), as Stripe takes them
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyDecimals(currency));
+}
+
+/**
+ * Convert an amount in minor units back to whole units
+ */
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / 10 ** currencyDecimals(currency);
+}
+
+/**
+ * Convert USD cents to minor units of the rate's currency, or leave them as they are without a rate
+ */
+export function convertUsdCents(usdCents: number, fx?: FxRate): number {
+  return fx ? toMinorUnits(usdCents / 100 / fx.usdPerUnit, fx.currency) : usdCents;
+}
+
+/**
+ * Convert minor units of the rate's currency to USD cents, or leave them as they are without a rate
+ */
+export function toUsdCents(amount: number, fx?: FxRate): number {
+  return fx ? Math.round(fromMinorUnits(amount, fx.currency) * fx.usdPerUnit * 100) : amount;
+}
+
+/**
+ * Format minor units for display, e.g. `100.00 EUR`
+ */
+export function formatMinorUnits(amount: number, currency: string): string {
+  return `${fromMinorUnits(amount, currency).toFixed(currencyDecimals(currency))} ${currency.toUpperCase()}`;
+}
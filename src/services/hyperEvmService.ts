@@ -0,0 +1,150 @@
+import { ethers } from 'ethers';
+import config from '../config/config';
+import { getSigner } from './signerService';
+
+// The parts of the ERC-20 interface we use
+const ERC20_ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)'
+];
+
+// A USDC transfer on HyperEVM that made it into a block
+export interface HyperEvmTransferReceipt {
+  from: string;
+  destination: string;
+  amount: number;
+  txHash: string;
+}
+
+// USDC decimals, read from the contract once
+let usdcDecimals: number | undefined;
+
+function getProvider(): ethers.providers.StaticJsonRpcProvider {
+  return new ethers.providers.StaticJsonRpcProvider(config.hyperEvmRpcUrl, config.hyperEvmChainId);
+}
+
+function getUsdcContract(provider: ethers.providers.Provider): ethers.Contract {
+  if (!config.hyperEvmUsdcAddress) {
+    throw new Error('HyperEVM USDC address not configured');
+  }
+
+  return new ethers.Contract(config.hyperEvmUsdcAddress, ERC20_ABI, provider);
+}
+
+async function getUsdcDecimals(usdc: ethers.Contract): Promise<number> {
+  if (usdcDecimals === undefined) {
+    usdcDecimals = Number(await usdc.decimals());
+  }
+
+  return usdcDecimals;
+}
+
+/**
+ * Get the hot wallet's USDC balance on HyperEVM
+ */
+export async function getHyperEvmUsdcBalance(): Promise<number> {
+  const usdc = getUsdcContract(getProvider());
+  const balance = await usdc.balanceOf(getSigner().address);
+
+  return parseFloat(ethers.utils.formatUnits(balance, await getUsdcDecimals(usdc)));
+}
+
+/**
+ * Wait for a broadcast transfer to be mined
+ * Throws if it is not mined in time (the caller retries with the same signed transaction)
+ * or if it reverted.
+ */
+async function waitForTransfer(
+  provider: ethers.providers.Provider,
+  txHash: string
+): Promise<ethers.providers.TransactionReceipt> {
+  const receipt = await provider.waitForTransaction(
+    txHash,
+    config.hyperEvmConfirmations,
+    config.hyperEvmTxTimeoutSeconds * 1000
+  ).catch(error => {
+    if (error?.code === ethers.errors.TIMEOUT) {
+      return undefined;
+    }
+
+    throw error;
+  });
+
+  if (!receipt) {
+    throw new Error(`HyperEVM transfer ${txHash} not mined yet`);
+  }
+
+  if (receipt.status === 0) {
+    throw new Error(`HyperEVM transfer ${txHash} reverted`);
+  }
+
+  return receipt;
+}
+
+/**
+ * Send USDC from the hot wallet to a user's address on HyperEVM and wait for it to be mined
+ * The signed transaction is handed to `savePreparedTx` before it is broadcast. A retry passes it
+ * back as `preparedTx` and it is rebroadcast as is: with the same account nonce it can only ever
+ * be mined once.
+ */
+export async function sendHyperEvmUsdc(
+  destinationAddress: string,
+  amount: number,
+  preparedTx?: string,
+  savePreparedTx?: (rawTx: string) => Promise<void>
+): Promise<HyperEvmTransferReceipt> {
+  try {
+    if (!ethers.utils.isAddress(destinationAddress)) {
+      throw new Error('Invalid destination address');
+    }
+
+    const provider = getProvider();
+    const signer = getSigner();
+    let rawTx = preparedTx;
+
+    if (!rawTx) {
+      const usdc = getUsdcContract(provider);
+      const units = ethers.utils.parseUnits(amount.toFixed(6), await getUsdcDecimals(usdc));
+      const balance = await usdc.balanceOf(signer.address);
+
+      if (balance.lt(units)) {
+        throw new Error(`Insufficient balance. Required: ${amount} USDC, Available: ${ethers.utils.formatUnits(balance, await getUsdcDecimals(usdc))} USDC on HyperEVM`);
+      }
+
+      // Fill in the account nonce, gas and chain ID for the signer to sign
+      const tx = await new ethers.VoidSigner(signer.address, provider).populateTransaction({
+        to: usdc.address,
+        data: usdc.interface.encodeFunctionData('transfer', [destinationAddress, units])
+      });
+
+      rawTx = await signer.signTransaction(tx);
+      await savePreparedTx?.(rawTx);
+    }
+
+    const txHash = ethers.utils.keccak256(rawTx);
+    console.log(`Sending ${amount} USDC to ${destinationAddress} on HyperEVM (${txHash})`);
+
+    // A rebroadcast of a transaction the node already has, or has mined, is not an error
+    if (!await provider.getTransactionReceipt(txHash)) {
+      await provider.sendTransaction(rawTx).catch(error => {
+        if (!/already known|nonce too low|nonce has already been used/i.test(String(error?.message))) {
+          throw error;
+        }
+      });
+    }
+
+    const receipt = await waitForTransfer(provider, txHash);
+    console.log(`✅ HyperEVM transfer mined in block ${receipt.blockNumber}`);
+
+    return {
+      from: signer.address,
+      destination: destinationAddress,
+      amount,
+      txHash
+    };
+  } catch (error) {
+    console.error('Error sending USDC on HyperEVM:', error);
+    throw error;
+  }
+}
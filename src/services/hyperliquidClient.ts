@@ -0,0 +1,505 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { toHexChainId } from '../config/networks';
+import { Signer } from './signerService';
+
+// How a call to the Hyperliquid API failed
+// 'http' carries the status code; 'action' means /exchange answered but refused the action
+export type HyperliquidErrorKind = 'timeout' | 'network' | 'http' | 'action' | 'response';
+
+/**
+ * A failed call to the Hyperliquid API
+ */
+export class HyperliquidApiError extends Error {
+  constructor(
+    message: string,
+    readonly kind: HyperliquidErrorKind,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'HyperliquidApiError';
+  }
+
+  /**
+   * Whether the same call may succeed if made again
+   * Client errors (4xx other than 429) will not; refused actions are retried like any unknown
+   * failure, since most (nonce, balance) clear up on their own.
+   */
+  get retryable(): boolean {
+    if (this.kind === 'http') {
+      return this.status === undefined || this.status >= 500 || this.status === 429;
+    }
+
+    return true;
+  }
+}
+
+// Account state of a user's perp balance, from clearinghouseState
+export interface ClearinghouseState {
+  marginSummary: {
+    accountValue: string;
+    totalNtlPos: string;
+    totalRawUsd: string;
+    totalMarginUsed: string;
+  };
+  // USDC that can be sent or withdrawn
+  withdrawable: string;
+  assetPositions: unknown[];
+  time: number;
+}
+
+// A user's spot balances, from spotClearinghouseState
+export interface SpotClearinghouseState {
+  balances: {
+    coin: string;
+    token: number;
+    total: string;
+    // Amount tied up in open orders
+    hold: string;
+  }[];
+}
+
+// An entry from Hyperliquid's userNonFundingLedgerUpdates
+export interface LedgerUpdate {
+  time: number;
+  hash: string;
+  delta: {
+    type: string;
+    [key: string]: any;
+  };
+}
+
+// A token listed on Hyperliquid spot, from spotMeta
+export interface SpotToken {
+  name: string;
+  index: number;
+  tokenId: string;
+  // Digits allowed in order sizes
+  szDecimals: number;
+  weiDecimals: number;
+}
+
+// A spot market from spotMeta; `name` is what /info calls the coin (e.g. `@107` or `PURR/USDC`)
+export interface SpotMarket {
+  name: string;
+  index: number;
+  // Token indexes of the base and quote token
+  tokens: [number, number];
+}
+
+// Spot tokens and markets, from spotMeta
+export interface SpotMeta {
+  tokens: SpotToken[];
+  universe: SpotMarket[];
+}
+
+// One price level of an L2 book, as /info sends it
+export interface L2Level {
+  px: string;
+  sz: string;
+  // Number of orders at the level
+  n: number;
+}
+
+// An L2 book: bids from the best down, then asks from the best up
+export interface L2Book {
+  coin: string;
+  time: number;
+  levels: [L2Level[], L2Level[]];
+}
+
+// An order as /exchange takes it; key order matters, since the action is hashed as encoded
+export interface OrderWire {
+  a: number;
+  b: boolean;
+  p: string;
+  s: string;
+  r: boolean;
+  t: { limit: { tif: 'Gtc' | 'Ioc' | 'Alo' } };
+}
+
+// What became of one order
+export interface OrderStatus {
+  filled?: { totalSz: string; avgPx: string; oid: number };
+  resting?: { oid: number };
+  error?: string;
+}
+
+// Field of a user-signed action, as it appears in its EIP-712 type
+export interface TypedField {
+  name: string;
+  type: string;
+}
+
+// Fields of transfers signed with a destination, amount and time
+const TRANSFER_FIELDS: TypedField[] = [
+  { name: 'destination', type: 'string' },
+  { name: 'amount', type: 'string' },
+  { name: 'time', type: 'uint64' }
+];
+
+/**
+ * EIP-712 types of the user-signed actions we send, by action type
+ * Fields are signed in this order, after hyperliquidChain.
+ */
+export const USER_SIGNED_ACTION_TYPES: Record<string, { primaryType: string; fields: TypedField[] }> = {
+  usdSend: { primaryType: 'UsdSend', fields: TRANSFER_FIELDS },
+  withdraw3: { primaryType: 'Withdraw', fields: TRANSFER_FIELDS },
+  spotSend: {
+    primaryType: 'SpotSend',
+    fields: [
+      { name: 'destination', type: 'string' },
+      { name: 'token', type: 'string' },
+      { name: 'amount', type: 'string' },
+      { name: 'time', type: 'uint64' }
+    ]
+  },
+  usdClassTransfer: {
+    primaryType: 'UsdClassTransfer',
+    fields: [
+      { name: 'amount', type: 'string' },
+      { name: 'toPerp', type: 'bool' },
+      { name: 'nonce', type: 'uint64' }
+    ]
+  }
+};
+
+// Domain user-signed actions are signed in, with the chain ID the action names as its signatureChainId
+export const USER_SIGNED_DOMAIN = {
+  name: 'HyperliquidSignTransaction',
+  version: '1',
+  verifyingContract: '0x0000000000000000000000000000000000000000'
+};
+
+// Domain and type of the phantom agent L1 actions are signed through
+export const L1_DOMAIN = {
+  name: 'Exchange',
+  version: '1',
+  chainId: 1337,
+  verifyingContract: '0x0000000000000000000000000000000000000000'
+};
+
+export const AGENT_TYPES = {
+  Agent: [
+    { name: 'source', type: 'string' },
+    { name: 'connectionId', type: 'bytes32' }
+  ]
+};
+
+/**
+ * Encode a value with MessagePack, as Hyperliquid hashes L1 actions
+ * Covers what actions are made of: maps (in key order), arrays, strings, booleans, null and non-negative integers.
+ */
+function encodeMsgpack(value: unknown): Buffer {
+  if (value === null || value === undefined) {
+    return Buffer.from([0xc0]);
+  }
+
+  if (typeof value === 'boolean') {
+    return Buffer.from([value ? 0xc3 : 0xc2]);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Cannot encode ${value} in an action; send it as a string`);
+    }
+
+    if (value < 0x80) return Buffer.from([value]);
+    if (value < 0x100) return Buffer.from([0xcc, value]);
+
+    if (value < 0x10000) {
+      const buffer = Buffer.alloc(3);
+      buffer[0] = 0xcd;
+      buffer.writeUInt16BE(value, 1);
+      return buffer;
+    }
+
+    if (value < 0x100000000) {
+      const buffer = Buffer.alloc(5);
+      buffer[0] = 0xce;
+      buffer.writeUInt32BE(value, 1);
+      return buffer;
+    }
+
+    const buffer = Buffer.alloc(9);
+    buffer[0] = 0xcf;
+    buffer.writeBigUInt64BE(BigInt(value), 1);
+    return buffer;
+  }
+
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+
+    if (bytes.length < 32) return Buffer.concat([Buffer.from([0xa0 | bytes.length]), bytes]);
+    if (bytes.length < 0x100) return Buffer.concat([Buffer.from([0xd9, bytes.length]), bytes]);
+
+    const header = Buffer.alloc(3);
+    header[0] = 0xda;
+    header.writeUInt16BE(bytes.length, 1);
+    return Buffer.concat([header, bytes]);
+  }
+
+  const withLength = (count: number, fix: number, sixteen: number): Buffer => {
+    if (count < 16) return Buffer.from([fix | count]);
+
+    const header = Buffer.alloc(3);
+    header[0] = sixteen;
+    header.writeUInt16BE(count, 1);
+    return header;
+  };
+
+  if (Array.isArray(value)) {
+    return Buffer.concat([withLength(value.length, 0x90, 0xdc), ...value.map(encodeMsgpack)]);
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  return Buffer.concat([
+    withLength(entries.length, 0x80, 0xde),
+    ...entries.flatMap(([key, entry]) => [encodeMsgpack(key), encodeMsgpack(entry)])
+  ]);
+}
+
+/**
+ * Hash an L1 action into the connection ID of the phantom agent that signs it
+ * The hash covers the MessagePack-encoded action, the nonce and a zero byte saying it is not for a vault.
+ */
+export function l1ActionHash(action: Record<string, unknown>, nonce: number): string {
+  const nonceBytes = Buffer.alloc(8);
+  nonceBytes.writeBigUInt64BE(BigInt(nonce));
+
+  return ethers.utils.keccak256(Buffer.concat([encodeMsgpack(action), nonceBytes, Buffer.from([0])]));
+}
+
+// Settings of a client
+export interface HyperliquidClientOptions {
+  baseUrl: string;
+  // 'Mainnet' or 'Testnet', signed into every action
+  chain: string;
+  // Chain ID user-signed actions are signed for (Arbitrum One on mainnet, Arbitrum Sepolia on testnet)
+  signatureChainId: number;
+  // How long to wait for an answer before giving up on a call
+  timeoutMs: number;
+}
+
+/**
+ * Typed client for Hyperliquid's /info and /exchange endpoints
+ * Failed calls throw a HyperliquidApiError saying whether they are worth retrying.
+ */
+export class HyperliquidClient {
+  constructor(private readonly options: HyperliquidClientOptions) {}
+
+  get baseUrl(): string {
+    return this.options.baseUrl;
+  }
+
+  get chain(): string {
+    return this.options.chain;
+  }
+
+  /**
+   * POST to an endpoint and return the answer, turning every failure into a HyperliquidApiError
+   */
+  private async post(path: '/info' | '/exchange', body: unknown): Promise<any> {
+    try {
+      const response = await axios.post(`${this.options.baseUrl}${path}`, body, { timeout: this.options.timeoutMs });
+      return response.data;
+    } catch (error: any) {
+      if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+        throw new HyperliquidApiError(`Hyperliquid ${path} timed out after ${this.options.timeoutMs}ms`, 'timeout');
+      }
+
+      if (error?.response) {
+        throw new HyperliquidApiError(
+          `Hyperliquid ${path} answered ${error.response.status}: ${JSON.stringify(error.response.data)}`,
+          'http',
+          error.response.status
+        );
+      }
+
+      throw new HyperliquidApiError(`Hyperliquid ${path} unreachable: ${error?.message || error}`, 'network');
+    }
+  }
+
+  /**
+   * Ask /info and check the answer has the expected shape
+   */
+  private async info<T>(request: Record<string, unknown>, isValid: (data: any) => boolean): Promise<T> {
+    const data = await this.post('/info', request);
+
+    if (!isValid(data)) {
+      throw new HyperliquidApiError(`Unexpected ${request.type} response: ${JSON.stringify(data)}`, 'response');
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Get the perp account state of a user
+   */
+  getClearinghouseState(user: string): Promise<ClearinghouseState> {
+    return this.info({ type: 'clearinghouseState', user }, data => !!data && typeof data === 'object' && 'withdrawable' in data);
+  }
+
+  /**
+   * Get the spot balances of a user
+   */
+  getSpotClearinghouseState(user: string): Promise<SpotClearinghouseState> {
+    return this.info({ type: 'spotClearinghouseState', user }, data => Array.isArray(data?.balances));
+  }
+
+  /**
+   * Get the non-funding ledger updates (deposits, transfers, withdrawals) of a user
+   * @param startTime Start of the window in milliseconds
+   * @param endTime End of the window in milliseconds (defaults to now)
+   */
+  getLedgerUpdates(user: string, startTime: number, endTime?: number): Promise<LedgerUpdate[]> {
+    return this.info({
+      type: 'userNonFundingLedgerUpdates',
+      user,
+      startTime,
+      ...(endTime !== undefined ? { endTime } : {})
+    }, data => Array.isArray(data));
+  }
+
+  /**
+   * Get the spot tokens and markets
+   */
+  getSpotMeta(): Promise<SpotMeta> {
+    return this.info({ type: 'spotMeta' }, data => Array.isArray(data?.tokens) && Array.isArray(data?.universe));
+  }
+
+  /**
+   * Get the L2 order book of a market
+   * @param coin The market's name in /info (e.g. `@107`)
+   */
+  getL2Book(coin: string): Promise<L2Book> {
+    return this.info({ type: 'l2Book', coin }, data => Array.isArray(data?.levels) && data.levels.length === 2);
+  }
+
+  /**
+   * Sign a user-signed action with EIP-712 and submit it to /exchange
+   * Throws unless Hyperliquid answers with status ok.
+   * @param nonce The action's own `time` or `nonce` field, sent again as the request nonce
+   */
+  private async submitUserSignedAction(
+    signer: Signer,
+    actionType: string,
+    fields: Record<string, string | number | boolean>,
+    nonce: number
+  ): Promise<void> {
+    const { primaryType, fields: fieldTypes } = USER_SIGNED_ACTION_TYPES[actionType];
+    const types = {
+      [`HyperliquidTransaction:${primaryType}`]: [{ name: 'hyperliquidChain', type: 'string' }, ...fieldTypes]
+    };
+
+    const signature = ethers.utils.splitSignature(
+      await signer.signTypedData(
+        { ...USER_SIGNED_DOMAIN, chainId: this.options.signatureChainId },
+        types,
+        { hyperliquidChain: this.options.chain, ...fields }
+      )
+    );
+
+    const data = await this.post('/exchange', {
+      action: {
+        type: actionType,
+        hyperliquidChain: this.options.chain,
+        signatureChainId: toHexChainId(this.options.signatureChainId),
+        ...fields
+      },
+      nonce,
+      signature: { r: signature.r, s: signature.s, v: signature.v }
+    });
+
+    if (!data || typeof data !== 'object' || data.status !== 'ok') {
+      throw new HyperliquidApiError(`Failed to ${actionType}: ${JSON.stringify(data)}`, 'action');
+    }
+  }
+
+  /**
+   * Send USDC from the wallet's perp balance to another Hyperliquid address
+   */
+  usdSend(signer: Signer, transfer: { destination: string; amount: string; time: number }): Promise<void> {
+    return this.submitUserSignedAction(signer, 'usdSend', transfer, transfer.time);
+  }
+
+  /**
+   * Withdraw USDC from the wallet's perp balance to an address on Arbitrum
+   */
+  withdraw3(signer: Signer, transfer: { destination: string; amount: string; time: number }): Promise<void> {
+    return this.submitUserSignedAction(signer, 'withdraw3', transfer, transfer.time);
+  }
+
+  /**
+   * Send a spot token (named `NAME:tokenId`) to another Hyperliquid address
+   */
+  spotSend(
+    signer: Signer,
+    transfer: { destination: string; token: string; amount: string; time: number }
+  ): Promise<void> {
+    return this.submitUserSignedAction(signer, 'spotSend', transfer, transfer.time);
+  }
+
+  /**
+   * Move USDC between the wallet's perp and spot balances
+   */
+  usdClassTransfer(signer: Signer, transfer: { amount: string; toPerp: boolean; nonce: number }): Promise<void> {
+    return this.submitUserSignedAction(signer, 'usdClassTransfer', transfer, transfer.nonce);
+  }
+
+  /**
+   * Sign an L1 action through a phantom agent and submit it
+   * @returns The /exchange response, once it says ok
+   */
+  private async submitL1Action(signer: Signer, action: Record<string, unknown>, nonce: number): Promise<any> {
+    const signature = ethers.utils.splitSignature(await signer.signTypedData(L1_DOMAIN, AGENT_TYPES, {
+      source: this.options.chain === 'Mainnet' ? 'a' : 'b',
+      connectionId: l1ActionHash(action, nonce)
+    }));
+
+    const data = await this.post('/exchange', {
+      action,
+      nonce,
+      signature: { r: signature.r, s: signature.s, v: signature.v },
+      vaultAddress: null
+    });
+
+    if (!data || data.status !== 'ok') {
+      throw new HyperliquidApiError(`Failed to ${action.type}: ${JSON.stringify(data)}`, 'action');
+    }
+
+    return data;
+  }
+
+  /**
+   * Place orders
+   * @returns The status of each order, in order
+   */
+  async order(signer: Signer, orders: OrderWire[], nonce: number): Promise<OrderStatus[]> {
+    const data = await this.submitL1Action(signer, { type: 'order', orders, grouping: 'na' }, nonce);
+
+    if (!Array.isArray(data.response?.data?.statuses)) {
+      throw new HyperliquidApiError(`Unexpected order response: ${JSON.stringify(data)}`, 'response');
+    }
+
+    return data.response.data.statuses;
+  }
+
+  /**
+   * Move USDC between the wallet's perp balance and one of its sub-accounts
+   * @param transfer `usd` is in millionths of a USDC; `isDeposit` moves it into the sub-account,
+   *                 otherwise out of it into the wallet
+   */
+  async subAccountTransfer(
+    signer: Signer,
+    transfer: { subAccountUser: string; isDeposit: boolean; usd: number },
+    nonce: number
+  ): Promise<void> {
+    await this.submitL1Action(signer, {
+      type: 'subAccountTransfer',
+      subAccountUser: transfer.subAccountUser,
+      isDeposit: transfer.isDeposit,
+      usd: transfer.usd
+    }, nonce);
+  }
+}
@@ -1,9 +1,76 @@
 import { ethers } from 'ethers';
 import config from '../config/config';
-import axios from 'axios';
+import { HyperliquidClient, L2Level, LedgerUpdate, SpotMarket, SpotToken } from './hyperliquidClient';
+import { Signer, getOrderSigner, getSigner } from './signerService';
 
-// Hyperliquid API base URL from config
-const API_BASE_URL = config.hyperliquidApiUrl;
+/**
+ * Create a client for the Hyperliquid API at HYPERLIQUID_API_URL, signing for the configured network
+ */
+export function createHyperliquidClient(): HyperliquidClient {
+  return new HyperliquidClient({
+    baseUrl: config.hyperliquidApiUrl,
+    chain: config.hyperliquidChain,
+    signatureChainId: config.network.signatureChainId,
+    timeoutMs: config.hyperliquidTimeoutMs
+  });
+}
+
+// Client in use (swappable for tests, e.g. to point at the mock server)
+let client: HyperliquidClient = createHyperliquidClient();
+
+/**
+ * Replace the Hyperliquid API client
+ * Used by tests to run against the mock Hyperliquid server
+ */
+export function setHyperliquidClient(hyperliquidClient: HyperliquidClient): void {
+  client = hyperliquidClient;
+}
+
+// What we know about a usdSend accepted by /exchange
+export interface UsdSendReceipt {
+  from: string;
+  destination: string;
+  amount: number;
+  // The signed `time` field, which Hyperliquid also uses as the nonce
+  nonce: number;
+}
+
+// One price level of an L2 book
+export interface BookLevel {
+  px: number;
+  sz: number;
+}
+
+// A spot token balance of a user
+export interface SpotBalance {
+  coin: string;
+  total: number;
+  // Amount tied up in open orders
+  hold: number;
+}
+
+// What an IOC order managed to fill
+export interface OrderFill {
+  filledSize: number;
+  averagePrice: number;
+}
+
+/**
+ * Get the address of our hot wallet
+ */
+export function getHotWalletAddress(): string {
+  return getSigner().address;
+}
+
+/**
+ * Get the non-funding ledger updates (deposits, transfers, withdrawals) of a user
+ * @param user The address whose ledger to read
+ * @param startTime Start of the window in milliseconds
+ * @param endTime End of the window in milliseconds (defaults to now)
+ */
+export async function getLedgerUpdates(user: string, startTime: number, endTime?: number): Promise<LedgerUpdate[]> {
+  return client.getLedgerUpdates(user, startTime, endTime);
+}
 
 /**
  * Get the USDC balance of the wallet on Hyperliquid
@@ -13,32 +80,17 @@ export async function getHyperliquidBalance(): Promise<{
   formattedBalance: string;
 }> {
   try {
-    if (!config.walletPrivateKey) {
-      throw new Error('Wallet private key not configured');
-    }
-    
-    const wallet = new ethers.Wallet(config.walletPrivateKey);
-    const walletAddress = wallet.address;
+    const walletAddress = getHotWalletAddress();
     
     // Get user's account state from Hyperliquid API
-    const response = await axios.post(`${API_BASE_URL}/info`, {
-      type: 'clearinghouseState',
-      user: walletAddress
-    });
+    const state = await client.getClearinghouseState(walletAddress);
     
-    // Check if response data exists and has the expected structure
-    if (response.data && 
-        typeof response.data === 'object' && 
-        'withdrawable' in response.data) {
-      // The withdrawable amount is the USDC balance available for transfers
-      const usdBalance = parseFloat(response.data.withdrawable as string);
-      return {
-        usdBalance,
-        formattedBalance: usdBalance.toFixed(2)
-      };
-    }
-    
-    throw new Error('Failed to get balance from Hyperliquid API');
+    // The withdrawable amount is the USDC balance available for transfers
+    const usdBalance = parseFloat(state.withdrawable);
+    return {
+      usdBalance,
+      formattedBalance: usdBalance.toFixed(2)
+    };
   } catch (error) {
     console.error('Error getting Hyperliquid balance:', error);
     throw error;
@@ -49,26 +101,21 @@ export async function getHyperliquidBalance(): Promise<{
  * Send USDC from our wallet to a user's address on Hyperliquid
  * @param destinationAddress The user's Hyperliquid address
  * @param amount The amount of USDC to send
+ * @param nonce Nonce (millisecond timestamp) to sign with; reusing the nonce of an earlier
+ *              attempt makes a retry idempotent, since Hyperliquid rejects a nonce it has already seen
  */
-export async function depositUsdcToHyperliquid(destinationAddress: string, amount: number): Promise<string> {
-  console.log('🌊 depositUsdcToHyperliquid called - THIS SHOULD NOT HAPPEN IF TEST ERROR IS WORKING');
-  
+export async function depositUsdcToHyperliquid(destinationAddress: string, amount: number, nonce?: number): Promise<UsdSendReceipt> {
   try {
     // Validate inputs
     if (!ethers.utils.isAddress(destinationAddress)) {
       throw new Error('Invalid destination address');
     }
     
-    if (amount < 5) {
-      throw new Error('Minimum deposit amount is 5 USDC');
+    if (amount < config.network.minPayoutUsdc) {
+      throw new Error(`Minimum deposit amount is ${config.network.minPayoutUsdc} USDC`);
     }
     
-    if (!config.walletPrivateKey) {
-      throw new Error('Wallet private key not configured');
-    }
-    
-    // Create wallet from private key
-    const wallet = new ethers.Wallet(config.walletPrivateKey);
+    const signer = getSigner();
     
     // Check our balance first
     const { usdBalance } = await getHyperliquidBalance();
@@ -79,71 +126,227 @@ export async function depositUsdcToHyperliquid(destinationAddress: string, amoun
     
     console.log(`Sending ${amount} USDC to ${destinationAddress} on Hyperliquid`);
     
-    // Current timestamp in milliseconds
-    const timestamp = Date.now();
+    // Current timestamp in milliseconds, unless we are retrying with an earlier nonce
+    const timestamp = nonce ?? Date.now();
     
-    // Create the message to sign
-    const domain = {
-      name: 'HyperliquidSignTransaction',
-      version: '1',
-      chainId: 42161, // Arbitrum chainId
-      verifyingContract: '0x0000000000000000000000000000000000000000'
-    };
+    await client.usdSend(signer, {
+      destination: destinationAddress,
+      amount: amount.toString(),
+      time: timestamp
+    });
     
-    const types = {
-      'HyperliquidTransaction:UsdSend': [
-        { name: 'hyperliquidChain', type: 'string' },
-        { name: 'destination', type: 'string' },
-        { name: 'amount', type: 'string' },
-        { name: 'time', type: 'uint64' }
-      ]
+    console.log('✅ USDC transfer accepted, awaiting ledger confirmation');
+    // The ledger hash is only known once the send shows up in the ledger (see confirmationService)
+    return {
+      from: signer.address,
+      destination: destinationAddress,
+      amount,
+      nonce: timestamp
     };
+  } catch (error) {
+    console.error('Error sending USDC on Hyperliquid:', error);
+    throw error;
+  }
+} 
+/**
+ * Withdraw USDC from our Hyperliquid account to a user's address on Arbitrum
+ * Hyperliquid takes its withdrawal fee out of the amount withdrawn, so `fee` is added on top
+ * for the user to receive exactly `amount`.
+ * @param nonce Nonce (millisecond timestamp) to sign with; reused on retries, as for usdSend
+ */
+export async function withdrawUsdcToArbitrum(
+  destinationAddress: string,
+  amount: number,
+  fee: number,
+  nonce?: number
+): Promise<UsdSendReceipt> {
+  try {
+    if (!ethers.utils.isAddress(destinationAddress)) {
+      throw new Error('Invalid destination address');
+    }
+    
+    const signer = getSigner();
+    const grossAmount = Math.round((amount + fee) * 1e6) / 1e6;
+    const { usdBalance } = await getHyperliquidBalance();
+    
+    if (usdBalance < grossAmount) {
+      throw new Error(`Insufficient balance. Required: ${grossAmount} USDC, Available: ${usdBalance} USDC`);
+    }
+    
+    console.log(`Withdrawing ${grossAmount} USDC to ${destinationAddress} on Arbitrum`);
+    
+    const timestamp = nonce ?? Date.now();
     
-    const message = {
-      hyperliquidChain: config.hyperliquidChain,
+    await client.withdraw3(signer, {
       destination: destinationAddress,
-      amount: amount.toString(),
+      amount: grossAmount.toString(),
       time: timestamp
+    });
+    
+    console.log('✅ Withdrawal accepted, awaiting ledger confirmation');
+    return {
+      from: signer.address,
+      destination: destinationAddress,
+      amount,
+      nonce: timestamp
     };
+  } catch (error) {
+    console.error('Error withdrawing USDC to Arbitrum:', error);
+    throw error;
+  }
+}
+
+/**
+ * Pull USDC from one of our hot wallet's sub-accounts into the hot wallet
+ * @param nonce Nonce (millisecond timestamp) to sign with
+ */
+export async function withdrawFromSubAccount(subAccountAddress: string, amount: number, nonce?: number): Promise<UsdSendReceipt> {
+  const signer = getSigner();
+  const timestamp = nonce ?? Date.now();
+  
+  console.log(`Moving ${amount} USDC from sub-account ${subAccountAddress} to the hot wallet`);
+  
+  await client.subAccountTransfer(signer, {
+    subAccountUser: subAccountAddress,
+    isDeposit: false,
+    usd: Math.round(amount * 1e6)
+  }, timestamp);
+  
+  return { from: subAccountAddress, destination: signer.address, amount, nonce: timestamp };
+}
+
+/**
+ * Send USDC to our hot wallet from another wallet we can sign for
+ * @param nonce Nonce (millisecond timestamp) to sign with
+ */
+export async function usdSendToHotWallet(signer: Signer, amount: number, nonce?: number): Promise<UsdSendReceipt> {
+  const destination = getHotWalletAddress();
+  const timestamp = nonce ?? Date.now();
+  
+  console.log(`Sending ${amount} USDC from ${signer.address} to the hot wallet`);
+  
+  await client.usdSend(signer, {
+    destination,
+    amount: amount.toString(),
+    time: timestamp
+  });
+  
+  return { from: signer.address, destination, amount, nonce: timestamp };
+}
+
+/**
+ * Get the spot tokens and markets listed on Hyperliquid
+ */
+export async function getSpotMeta(): Promise<{ tokens: SpotToken[]; universe: SpotMarket[] }> {
+  return client.getSpotMeta();
+}
+
+/**
+ * Get the L2 order book of a market
+ * @param coin The market's name in /info (e.g. `@107`)
+ * @returns Bids from the best down and asks from the best up
+ */
+export async function getL2Book(coin: string): Promise<{ bids: BookLevel[]; asks: BookLevel[] }> {
+  const { levels } = await client.getL2Book(coin);
+  const toLevels = (side: L2Level[]): BookLevel[] =>
+    side.map(level => ({ px: parseFloat(level.px), sz: parseFloat(level.sz) }));
+  
+  return { bids: toLevels(levels[0]), asks: toLevels(levels[1]) };
+}
+
+/**
+ * Get the spot balances of a user (our hot wallet by default)
+ */
+export async function getSpotBalances(user: string = getHotWalletAddress()): Promise<SpotBalance[]> {
+  const { balances } = await client.getSpotClearinghouseState(user);
+  
+  return balances.map(balance => ({
+    coin: balance.coin,
+    total: parseFloat(balance.total),
+    hold: parseFloat(balance.hold)
+  }));
+}
+
+/**
+ * Move USDC from our perp balance to our spot balance, where spot orders are paid from
+ */
+export async function transferUsdcToSpot(amount: number, nonce?: number): Promise<void> {
+  const signer = getSigner();
+  const timestamp = nonce ?? Date.now();
+  
+  console.log(`Moving ${amount} USDC from perp to spot balance`);
+  
+  await client.usdClassTransfer(signer, {
+    amount: amount.toString(),
+    toPerp: false,
+    nonce: timestamp
+  });
+}
+
+/**
+ * Send a spot token from our wallet to a user's address on Hyperliquid
+ * @param token The token as spotSend names it, `NAME:tokenId`
+ * @param nonce Nonce (millisecond timestamp) to sign with; reused on retries, as for usdSend
+ */
+export async function spotSendToken(
+  destinationAddress: string,
+  token: string,
+  amount: string,
+  nonce?: number
+): Promise<{ from: string; destination: string; nonce: number }> {
+  try {
+    if (!ethers.utils.isAddress(destinationAddress)) {
+      throw new Error('Invalid destination address');
+    }
+    
+    const signer = getSigner();
+    const timestamp = nonce ?? Date.now();
     
-    // Sign the message using EIP-712
-    const signature = await wallet._signTypedData(domain, types, message);
-    
-    // Extract r, s, v from signature
-    const sig = ethers.utils.splitSignature(signature);
-    
-    // Make the API request to send USDC
-    const response = await axios.post(`${API_BASE_URL}/exchange`, {
-      action: {
-        type: 'usdSend',
-        hyperliquidChain: config.hyperliquidChain,
-        signatureChainId: '0xa4b1', // Arbitrum in hex
-        destination: destinationAddress,
-        amount: amount.toString(),
-        time: timestamp
-      },
-      nonce: timestamp,
-      signature: {
-        r: sig.r,
-        s: sig.s,
-        v: sig.v
-      }
+    console.log(`Sending ${amount} ${token} to ${destinationAddress} on Hyperliquid spot`);
+    
+    await client.spotSend(signer, {
+      destination: destinationAddress,
+      token,
+      amount,
+      time: timestamp
     });
     
-    // Check if response was successful
-    if (response.data && 
-        typeof response.data === 'object' && 
-        'status' in response.data && 
-        response.data.status === 'ok') {
-      console.log('✅ USDC transfer successful');
-      // Generate a transaction hash-like identifier for tracking
-      const txHash = ethers.utils.id(`${wallet.address}-${destinationAddress}-${amount}-${timestamp}`);
-      return txHash;
-    } else {
-      throw new Error(`Failed to send USDC: ${JSON.stringify(response.data)}`);
-    }
+    console.log('✅ Spot transfer accepted, awaiting ledger confirmation');
+    return { from: signer.address, destination: destinationAddress, nonce: timestamp };
   } catch (error) {
-    console.error('Error sending USDC on Hyperliquid:', error);
+    console.error('Error sending spot token on Hyperliquid:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Buy on a spot market with an immediate-or-cancel limit order
+ * Whatever cannot be filled at or below the limit price right away is cancelled, so the order
+ * may fill only in part or not at all.
+ * @param asset The market's asset ID for orders (10000 + its spotMeta index)
+ * @param price Limit price, already rounded to what the market accepts
+ * @param size Size in the base token, already rounded to its size decimals
+ */
+export async function placeIocBuyOrder(asset: number, price: string, size: string): Promise<OrderFill> {
+  const signer = getOrderSigner();
+  
+  console.log(`Buying ${size} of spot asset ${asset} at up to ${price} (IOC)`);
+  
+  const [status] = await client.order(signer, [
+    { a: asset, b: true, p: price, s: size, r: false, t: { limit: { tif: 'Ioc' } } }
+  ], Date.now());
+  
+  if (status?.filled) {
+    return {
+      filledSize: parseFloat(status.filled.totalSz),
+      averagePrice: parseFloat(status.filled.avgPx)
+    };
+  }
+  
+  // An IOC order that matched nothing is cancelled with an error status
+  if (status?.error && /could not immediately match/i.test(status.error)) {
+    return { filledSize: 0, averagePrice: 0 };
+  }
+  
+  throw new Error(`Failed to place order: ${JSON.stringify(status)}`);
+}
@@ -0,0 +1,413 @@
+import Stripe from 'stripe';
+import {
+  LedgerAccount,
+  LedgerEntry,
+  LedgerEntryFilter,
+  LedgerEntryKind,
+  LedgerLine,
+  LedgerRepository,
+  ledgerRepository
+} from '../repositories/ledgerRepository';
+import { PendingTransaction, TransactionState } from '../repositories/transactionRepository';
+import { TopUp } from '../repositories/topUpRepository';
+
+// Accounts whose balance grows with debits; the others grow with credits
+const DEBIT_NORMAL_ACCOUNTS: LedgerAccount[] = [
+  'stripe_balance',
+  'hot_wallet',
+  'treasury',
+  'stripe_fee_expense',
+  'network_fee_expense',
+  'refund_loss_expense'
+];
+
+// Every account, in the order they are reported
+const ACCOUNTS: LedgerAccount[] = [
+  'stripe_balance',
+  'hot_wallet',
+  'treasury',
+  'customer_payable',
+  'service_fee_revenue',
+  'fx_fee_revenue',
+  'network_fee_revenue',
+  'processing_fee_revenue',
+  'stripe_fee_expense',
+  'network_fee_expense',
+  'refund_loss_expense'
+];
+
+// Transaction states in which nothing is owed to the customer any more
+const SETTLED_STATES: TransactionState[] = ['completed', 'confirmed', 'refunded'];
+
+// Revenue and costs over a period, in USD
+export interface RevenueStats {
+  // Paid by customers, and given back to them
+  charged: number;
+  refunded: number;
+  // USDC sent to customers
+  disbursed: number;
+  revenue: {
+    serviceFees: number;
+    fxFees: number;
+    networkFees: number;
+    processingFees: number;
+    total: number;
+  };
+  expenses: {
+    stripeFees: number;
+    networkFees: number;
+    refundLosses: number;
+    total: number;
+  };
+  netRevenue: number;
+  counts: Record<'charges' | 'refunds' | 'disbursements', number>;
+}
+
+// Result of checking the ledger for consistency
+export interface LedgerCheck {
+  balanced: boolean;
+  entries: number;
+  totalDebitsCents: number;
+  totalCreditsCents: number;
+  // Balance of every account in USD, positive on its normal side
+  accounts: Record<LedgerAccount, number>;
+  problems: string[];
+}
+
+// Repository holding the ledger (swappable for tests)
+let repository: LedgerRepository = ledgerRepository;
+
+/**
+ * Replace the ledger repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setLedgerRepository(repo: LedgerRepository): void {
+  repository = repo;
+}
+
+function toCents(usd: number): number {
+  return Math.round(usd * 100);
+}
+
+function parseCents(value: string | undefined): number {
+  return parseInt(value || '0', 10) || 0;
+}
+
+/**
+ * Build the line for an amount on one side of an account
+ * A negative amount goes on the other side; nothing is booked for zero.
+ */
+function line(account: LedgerAccount, side: LedgerLine['side'], amountCents: number): LedgerLine[] {
+  if (amountCents === 0) {
+    return [];
+  }
+
+  const otherSide = side === 'debit' ? 'credit' : 'debit';
+  return [{ account, side: amountCents > 0 ? side : otherSide, amountCents: Math.abs(amountCents) }];
+}
+
+function sumSide(lines: LedgerLine[], side: LedgerLine['side'], account?: LedgerAccount): number {
+  return lines
+    .filter(l => l.side === side && (!account || l.account === account))
+    .reduce((total, l) => total + l.amountCents, 0);
+}
+
+/**
+ * Balance of an account over some entries, in cents on its normal side
+ */
+function accountBalance(entries: LedgerEntry[], account: LedgerAccount): number {
+  const lines = entries.flatMap(entry => entry.lines);
+  const debits = sumSide(lines, 'debit', account);
+  const credits = sumSide(lines, 'credit', account);
+
+  return DEBIT_NORMAL_ACCOUNTS.includes(account) ? debits - credits : credits - debits;
+}
+
+/**
+ * Record a journal entry unless it is already in the ledger
+ * Throws if the entry does not balance.
+ * @returns The entry, or undefined if it was recorded before
+ */
+async function record(
+  id: string,
+  kind: LedgerEntryKind,
+  lines: LedgerLine[],
+  details: { stripeSessionId?: string; reference?: string; occurredAt?: Date }
+): Promise<LedgerEntry | undefined> {
+  const debits = sumSide(lines, 'debit');
+  const credits = sumSide(lines, 'credit');
+
+  if (debits !== credits) {
+    throw new Error(`Ledger entry ${id} does not balance: ${debits} debited, ${credits} credited`);
+  }
+
+  if (debits === 0) {
+    return undefined;
+  }
+
+  const entry: LedgerEntry = {
+    id,
+    kind,
+    ...(details.stripeSessionId ? { stripeSessionId: details.stripeSessionId } : {}),
+    ...(details.reference ? { reference: details.reference } : {}),
+    lines,
+    occurredAt: details.occurredAt || new Date(),
+    recordedAt: new Date()
+  };
+
+  if (!await repository.recordIfNew(entry)) {
+    return undefined;
+  }
+
+  console.log(`📒 Recorded ${kind} of ${(debits / 100).toFixed(2)} USD${details.stripeSessionId ? ` for session ${details.stripeSessionId}` : ''}`);
+  return entry;
+}
+
+/**
+ * Record the payment for a checkout session: the total charged, split into the USDC owed to
+ * the customer and each fee we charged on top
+ * Amounts come from the session metadata written at checkout. The service fee takes whatever the other
+ * lines leave, which is where fee rounding goes.
+ */
+export async function recordCharge(session: Stripe.Checkout.Session, charge?: Stripe.Charge): Promise<LedgerEntry | undefined> {
+  const totalCents = parseCents(session.metadata?.totalAmountCents);
+  const payableCents = toCents(parseFloat(session.metadata?.baseAmount || '0'));
+
+  if (!totalCents || !payableCents) {
+    console.warn(`⚠️ Session ${session.id} has no amounts in its metadata, not recording its charge`);
+    return undefined;
+  }
+
+  const networkFeeCents = parseCents(session.metadata?.networkFeeCents);
+  const fxFeeCents = parseCents(session.metadata?.fxFeeCents);
+  const processingFeeCents = parseCents(session.metadata?.stripeFeeCents);
+  const serviceFeeCents = totalCents - payableCents - networkFeeCents - fxFeeCents - processingFeeCents;
+
+  return record(`charge:${session.id}`, 'charge', [
+    ...line('stripe_balance', 'debit', totalCents),
+    ...line('customer_payable', 'credit', payableCents),
+    ...line('service_fee_revenue', 'credit', serviceFeeCents),
+    ...line('fx_fee_revenue', 'credit', fxFeeCents),
+    ...line('network_fee_revenue', 'credit', networkFeeCents),
+    ...line('processing_fee_revenue', 'credit', processingFeeCents)
+  ], {
+    stripeSessionId: session.id,
+    reference: charge?.id,
+    occurredAt: new Date((charge?.created || session.created) * 1000)
+  });
+}
+
+/**
+ * Record the processing fee Stripe actually took for a session's charge, from its balance transaction
+ * Only USD balance transactions are recorded, as the ledger is kept in USD.
+ */
+export async function recordStripeFee(
+  stripeSessionId: string,
+  balanceTransaction: Stripe.BalanceTransaction
+): Promise<LedgerEntry | undefined> {
+  if (balanceTransaction.currency !== 'usd') {
+    console.warn(`⚠️ Balance transaction ${balanceTransaction.id} is in ${balanceTransaction.currency}, not recording its fee`);
+    return undefined;
+  }
+
+  return record(`stripe_fee:${stripeSessionId}`, 'stripe_fee', [
+    ...line('stripe_fee_expense', 'debit', balanceTransaction.fee),
+    ...line('stripe_balance', 'credit', balanceTransaction.fee)
+  ], {
+    stripeSessionId,
+    reference: balanceTransaction.id,
+    occurredAt: new Date(balanceTransaction.created * 1000)
+  });
+}
+
+/**
+ * Record the USDC sent to a customer, and the rail's network fee paid from the hot wallet with it
+ * @param reference Hash of the send, if the rail returned one
+ */
+export async function recordDisbursement(
+  tx: PendingTransaction,
+  networkFee: number,
+  reference?: string
+): Promise<LedgerEntry | undefined> {
+  const payableCents = toCents(tx.amount);
+  const networkFeeCents = toCents(networkFee);
+
+  return record(`disbursement:${tx.stripeSessionId}`, 'disbursement', [
+    ...line('customer_payable', 'debit', payableCents),
+    ...line('network_fee_expense', 'debit', networkFeeCents),
+    ...line('hot_wallet', 'credit', payableCents + networkFeeCents)
+  ], {
+    stripeSessionId: tx.stripeSessionId,
+    reference: reference || tx.id
+  });
+}
+
+/**
+ * Record a full refund of a session's payment by reversing its charge
+ * Stripe keeps its processing fee, so that stays booked. If the USDC was already sent, what the customer
+ * was owed is a loss rather than a debt settled.
+ */
+export async function recordRefund(stripeSessionId: string, refundId?: string): Promise<LedgerEntry | undefined> {
+  const charge = await repository.find(`charge:${stripeSessionId}`);
+
+  if (!charge) {
+    console.warn(`⚠️ No charge recorded for session ${stripeSessionId}, not recording its refund`);
+    return undefined;
+  }
+
+  const disbursed = await repository.find(`disbursement:${stripeSessionId}`);
+
+  return record(`refund:${stripeSessionId}`, 'refund', charge.lines.map(l => ({
+    account: disbursed && l.account === 'customer_payable' ? 'refund_loss_expense' : l.account,
+    side: l.side === 'debit' ? 'credit' : 'debit',
+    amountCents: l.amountCents
+  })), { stripeSessionId, reference: refundId });
+}
+
+/**
+ * Record USDC moved from the treasury into the hot wallet
+ */
+export async function recordTopUp(topUp: TopUp): Promise<LedgerEntry | undefined> {
+  const amountCents = toCents(topUp.amount);
+
+  return record(`top_up:${topUp.id}`, 'top_up', [
+    ...line('hot_wallet', 'debit', amountCents),
+    ...line('treasury', 'credit', amountCents)
+  ], { reference: topUp.id, occurredAt: topUp.updatedAt });
+}
+
+/**
+ * List ledger entries, oldest first
+ * @param limit Most to return, counting from the newest
+ */
+export async function listLedgerEntries(filter: LedgerEntryFilter = {}, limit?: number): Promise<LedgerEntry[]> {
+  const entries = await repository.list(filter);
+  return limit ? entries.slice(-limit) : entries;
+}
+
+/**
+ * Get the USDC sent to customers since the ledger started
+ */
+export async function getTotalDisbursed(): Promise<number> {
+  const entries = await repository.list();
+  const disbursedCents = sumSide(
+    entries.filter(entry => entry.kind === 'disbursement').flatMap(entry => entry.lines),
+    'debit',
+    'customer_payable'
+  );
+
+  return disbursedCents / 100;
+}
+
+/**
+ * Work out revenue and costs from the entries that occurred in a period
+ */
+export async function getRevenueStats(from?: Date, to?: Date): Promise<RevenueStats> {
+  const entries = await repository.list({ from, to });
+  const linesOf = (kind: LedgerEntryKind) => entries.filter(entry => entry.kind === kind).flatMap(entry => entry.lines);
+  const countOf = (kind: LedgerEntryKind) => entries.filter(entry => entry.kind === kind).length;
+  const cents = (account: LedgerAccount) => accountBalance(entries, account);
+
+  const revenueCents = {
+    serviceFees: cents('service_fee_revenue'),
+    fxFees: cents('fx_fee_revenue'),
+    networkFees: cents('network_fee_revenue'),
+    processingFees: cents('processing_fee_revenue')
+  };
+  const expenseCents = {
+    stripeFees: cents('stripe_fee_expense'),
+    networkFees: cents('network_fee_expense'),
+    refundLosses: cents('refund_loss_expense')
+  };
+  const totalRevenueCents = Object.values(revenueCents).reduce((total, value) => total + value, 0);
+  const totalExpenseCents = Object.values(expenseCents).reduce((total, value) => total + value, 0);
+
+  return {
+    charged: sumSide(linesOf('charge'), 'debit', 'stripe_balance') / 100,
+    refunded: sumSide(linesOf('refund'), 'credit', 'stripe_balance') / 100,
+    disbursed: sumSide(linesOf('disbursement'), 'debit', 'customer_payable') / 100,
+    revenue: {
+      serviceFees: revenueCents.serviceFees / 100,
+      fxFees: revenueCents.fxFees / 100,
+      networkFees: revenueCents.networkFees / 100,
+      processingFees: revenueCents.processingFees / 100,
+      total: totalRevenueCents / 100
+    },
+    expenses: {
+      stripeFees: expenseCents.stripeFees / 100,
+      networkFees: expenseCents.networkFees / 100,
+      refundLosses: expenseCents.refundLosses / 100,
+      total: totalExpenseCents / 100
+    },
+    netRevenue: (totalRevenueCents - totalExpenseCents) / 100,
+    counts: {
+      charges: countOf('charge'),
+      refunds: countOf('refund'),
+      disbursements: countOf('disbursement')
+    }
+  };
+}
+
+/**
+ * Check that the ledger is consistent
+ * Every entry and the ledger as a whole must balance, no session may have been paid out more than it
+ * was charged, and a session whose transaction is settled (sent or refunded) must owe nothing.
+ * @param transactions Stored transactions to check what is owed against
+ */
+export async function checkLedger(transactions: PendingTransaction[]): Promise<LedgerCheck> {
+  const entries = await repository.list();
+  const lines = entries.flatMap(entry => entry.lines);
+  const problems: string[] = [];
+
+  for (const entry of entries) {
+    const debits = sumSide(entry.lines, 'debit');
+    const credits = sumSide(entry.lines, 'credit');
+
+    if (debits !== credits) {
+      problems.push(`Entry ${entry.id} does not balance: ${debits} debited, ${credits} credited`);
+    }
+
+    if (entry.lines.some(l => !Number.isInteger(l.amountCents) || l.amountCents <= 0)) {
+      problems.push(`Entry ${entry.id} has a line that is not a positive number of cents`);
+    }
+  }
+
+  const totalDebitsCents = sumSide(lines, 'debit');
+  const totalCreditsCents = sumSide(lines, 'credit');
+
+  if (totalDebitsCents !== totalCreditsCents) {
+    problems.push(`Ledger does not balance: ${totalDebitsCents} debited, ${totalCreditsCents} credited`);
+  }
+
+  const sessions = new Map<string, LedgerEntry[]>();
+
+  for (const entry of entries) {
+    if (entry.stripeSessionId) {
+      sessions.set(entry.stripeSessionId, [...(sessions.get(entry.stripeSessionId) || []), entry]);
+    }
+  }
+
+  for (const [sessionId, sessionEntries] of sessions) {
+    const owedCents = accountBalance(sessionEntries, 'customer_payable');
+    const tx = transactions.find(t => t.stripeSessionId === sessionId);
+
+    if (owedCents < 0) {
+      problems.push(`Session ${sessionId} was paid out ${(-owedCents / 100).toFixed(2)} USD more than it was charged`);
+    } else if (owedCents > 0 && tx && SETTLED_STATES.includes(tx.status)) {
+      problems.push(`Session ${sessionId} still owes ${(owedCents / 100).toFixed(2)} USD though its transaction is ${tx.status}`);
+    }
+  }
+
+  const accounts = Object.fromEntries(
+    ACCOUNTS.map(account => [account, accountBalance(entries, account) / 100])
+  ) as Record<LedgerAccount, number>;
+
+  return {
+    balanced: problems.length === 0,
+    entries: entries.length,
+    totalDebitsCents,
+    totalCreditsCents,
+    accounts,
+    problems
+  };
+}
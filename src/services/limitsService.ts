@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import config from '../config/config';
+import {
+  LimitUsage,
+  LimitUsageRepository,
+  limitUsageRepository
+} from '../repositories/limitUsageRepository';
+
+// Repository holding the checkout usage records (swappable for tests)
+let repository: LimitUsageRepository = limitUsageRepository;
+
+/**
+ * Replace the limit usage repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setLimitUsageRepository(repo: LimitUsageRepository): void {
+  repository = repo;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// What a limit is counted against
+export type LimitSubject = 'wallet' | 'email' | 'card';
+
+export type LimitWindow = 'hourly' | 'daily' | 'weekly' | 'monthly';
+
+// The identities a checkout is counted against; email and card may only be known
+// once the customer has paid
+export interface LimitSubjects {
+  walletAddress?: string;
+  email?: string;
+  cardFingerprint?: string;
+}
+
+// A limit a checkout would break
+export interface LimitViolation {
+  code: 'amount_limit_exceeded' | 'velocity_limit_exceeded';
+  // 400 for amount caps (a smaller amount may still go through), 429 for velocity
+  httpStatus: 400 | 429;
+  subject: LimitSubject;
+  window: LimitWindow;
+  // USD for amount caps, checkouts for velocity
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the velocity limit lets the next checkout through
+  retryAfterSeconds?: number;
+  message: string;
+}
+
+// What is left under one of the rolling amount caps
+export interface LimitAllowance {
+  window: LimitWindow;
+  limit: number;
+  remaining: number;
+}
+
+const SUBJECT_LABELS: Record<LimitSubject, string> = {
+  wallet: 'wallet',
+  email: 'email address',
+  card: 'card'
+};
+
+/**
+ * The rolling amount caps that are enabled
+ */
+function getAmountCaps(): Array<{ window: LimitWindow; ms: number; limit: number }> {
+  return [
+    { window: 'daily' as const, ms: DAY_MS, limit: config.dailyLimitUsd },
+    { window: 'weekly' as const, ms: 7 * DAY_MS, limit: config.weeklyLimitUsd },
+    { window: 'monthly' as const, ms: 30 * DAY_MS, limit: config.monthlyLimitUsd }
+  ].filter(cap => cap.limit > 0);
+}
+
+/**
+ * Normalize the subjects so lookups are case-insensitive
+ */
+function normalizeSubjects(subjects: LimitSubjects): LimitSubjects {
+  return {
+    walletAddress: subjects.walletAddress?.toLowerCase() || undefined,
+    email: subjects.email?.trim().toLowerCase() || undefined,
+    cardFingerprint: subjects.cardFingerprint || undefined
+  };
+}
+
+/**
+ * The subjects that are known, as [subject, value] pairs
+ */
+function knownSubjects(subjects: LimitSubjects): Array<[LimitSubject, string]> {
+  const known: Array<[LimitSubject, string]> = [];
+
+  if (subjects.walletAddress) {
+    known.push(['wallet', subjects.walletAddress]);
+  }
+
+  if (subjects.email) {
+    known.push(['email', subjects.email]);
+  }
+
+  if (subjects.cardFingerprint) {
+    known.push(['card', subjects.cardFingerprint]);
+  }
+
+  return known;
+}
+
+function matchesSubject(usage: LimitUsage, subject: LimitSubject, value: string): boolean {
+  switch (subject) {
+    case 'wallet':
+      return usage.walletAddress === value;
+    case 'email':
+      return usage.email === value;
+    case 'card':
+      return usage.cardFingerprint === value;
+  }
+}
+
+/**
+ * Whether a record counts towards the amount caps
+ */
+function countsTowardsCaps(usage: LimitUsage): boolean {
+  return usage.status === 'open' || usage.status === 'paid';
+}
+
+/**
+ * Check the rolling amount caps for a checkout of `amount` against the existing records
+ */
+function checkAmountCaps(
+  records: LimitUsage[],
+  subjects: LimitSubjects,
+  amount: number,
+  now: Date
+): LimitViolation | undefined {
+  for (const [subject, value] of knownSubjects(subjects)) {
+    for (const cap of getAmountCaps()) {
+      const used = records
+        .filter(usage => countsTowardsCaps(usage) && matchesSubject(usage, subject, value))
+        .filter(usage => usage.createdAt.getTime() > now.getTime() - cap.ms)
+        .reduce((total, usage) => total + usage.amount, 0);
+
+      if (used + amount > cap.limit) {
+        const remaining = Math.max(0, cap.limit - used);
+        const windowName = cap.window.charAt(0).toUpperCase() + cap.window.slice(1);
+
+        return {
+          code: 'amount_limit_exceeded',
+          httpStatus: 400,
+          subject,
+          window: cap.window,
+          limit: cap.limit,
+          used,
+          remaining,
+          message: `${windowName} limit of $${cap.limit} for this ${SUBJECT_LABELS[subject]} would be exceeded. Remaining: $${remaining.toFixed(2)}`
+        };
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check how many checkouts the subjects started in the last hour
+ * Every checkout counts, including ones that were never paid
+ */
+function checkVelocity(records: LimitUsage[], subjects: LimitSubjects, now: Date): LimitViolation | undefined {
+  const maxPerHour = config.maxCheckoutsPerHour;
+
+  if (maxPerHour <= 0) {
+    return undefined;
+  }
+
+  for (const [subject, value] of knownSubjects(subjects)) {
+    const recent = records
+      .filter(usage => matchesSubject(usage, subject, value))
+      .filter(usage => usage.createdAt.getTime() > now.getTime() - HOUR_MS)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    if (recent.length >= maxPerHour) {
+      // The next checkout is allowed once enough of the oldest ones leave the window
+      const freedAt = recent[recent.length - maxPerHour].createdAt.getTime() + HOUR_MS;
+      const retryAfterSeconds = Math.max(1, Math.ceil((freedAt - now.getTime()) / 1000));
+
+      return {
+        code: 'velocity_limit_exceeded',
+        httpStatus: 429,
+        subject,
+        window: 'hourly',
+        limit: maxPerHour,
+        used: recent.length,
+        remaining: 0,
+        retryAfterSeconds,
+        message: `Too many checkouts for this ${SUBJECT_LABELS[subject]}: at most ${maxPerHour} per hour. Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes`
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Record a new checkout if it stays within the velocity rule and the amount caps
+ * @returns The usage record, or the limit the checkout would break
+ */
+export async function recordCheckout(
+  subjects: LimitSubjects,
+  amount: number
+): Promise<{ usage?: LimitUsage; violation?: LimitViolation }> {
+  const normalized = normalizeSubjects(subjects);
+  const now = new Date();
+
+  const { usage, rejection } = await repository.tryRecord(
+    {
+      id: `lim_${crypto.randomUUID()}`,
+      walletAddress: normalized.walletAddress!,
+      email: normalized.email,
+      amount,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now
+    },
+    others => checkVelocity(others, normalized, now) || checkAmountCaps(others, normalized, amount, now)
+  );
+
+  return { usage, violation: rejection };
+}
+
+/**
+ * Link a usage record to the Stripe session created for it
+ */
+export async function attachUsageToSession(usageId: string, sessionId: string): Promise<LimitUsage | undefined> {
+  return repository.update(usageId, { stripeSessionId: sessionId });
+}
+
+/**
+ * Stop counting a checkout towards the amount caps (it expired, was cancelled or never paid)
+ * It keeps counting towards velocity.
+ */
+export async function voidUsage(usageId: string): Promise<LimitUsage | undefined> {
+  const usage = await repository.findById(usageId);
+
+  if (!usage || usage.status !== 'open') {
+    return usage;
+  }
+
+  return repository.update(usageId, { status: 'void' });
+}
+
+/**
+ * Void the usage record of a Stripe session, if it is still open
+ */
+export async function voidSessionUsage(sessionId: string): Promise<LimitUsage | undefined> {
+  const usage = await repository.findBySessionId(sessionId);
+  return usage ? voidUsage(usage.id) : undefined;
+}
+
+/**
+ * Record the email and card a session was paid with and check their amount caps
+ * The wallet was already checked at checkout; the email and card may only be known now.
+ * The outcome is decided once per session: later calls return the stored record as is.
+ * @param fallback Wallet and amount to record if the session has no usage record yet
+ * @returns The record, with status 'rejected' and a rejectionReason if the payment breaks a limit
+ */
+export async function recordPayment(
+  sessionId: string,
+  details: { email?: string; cardFingerprint?: string },
+  fallback: { walletAddress: string; amount: number }
+): Promise<LimitUsage> {
+  const existing = await repository.findBySessionId(sessionId);
+
+  if (existing && (existing.status === 'paid' || existing.status === 'rejected')) {
+    return existing;
+  }
+
+  const now = new Date();
+  const normalized = normalizeSubjects({
+    walletAddress: existing?.walletAddress || fallback.walletAddress,
+    email: details.email || existing?.email,
+    cardFingerprint: details.cardFingerprint
+  });
+
+  const base: LimitUsage = existing || {
+    id: `lim_${crypto.randomUUID()}`,
+    stripeSessionId: sessionId,
+    walletAddress: normalized.walletAddress!,
+    amount: fallback.amount,
+    status: 'open',
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const paid: LimitUsage = {
+    ...base,
+    email: normalized.email,
+    cardFingerprint: normalized.cardFingerprint,
+    status: 'paid',
+    updatedAt: now
+  };
+
+  // A checkout recorded before its wallet was checked gets the wallet checked now as well
+  const checked: LimitSubjects = existing
+    ? { email: normalized.email, cardFingerprint: normalized.cardFingerprint }
+    : normalized;
+
+  const { usage, rejection } = await repository.tryRecord(paid, others =>
+    checkAmountCaps(others, checked, paid.amount, now)
+  );
+
+  if (usage) {
+    return usage;
+  }
+
+  console.log(`🚫 Payment for session ${sessionId} breaks a limit: ${rejection!.message}`);
+
+  const rejected = await repository.tryRecord(
+    { ...paid, status: 'rejected', rejectionReason: rejection!.message },
+    () => undefined
+  );
+
+  return rejected.usage!;
+}
+
+/**
+ * What is left under each rolling amount cap for a wallet (and optionally an email)
+ */
+export async function getRemainingAllowance(subjects: LimitSubjects): Promise<LimitAllowance[]> {
+  const normalized = normalizeSubjects(subjects);
+  const records = await repository.list();
+  const now = new Date();
+
+  return getAmountCaps().map(cap => {
+    const remaining = Math.min(
+      ...knownSubjects(normalized).map(([subject, value]) => {
+        const used = records
+          .filter(usage => countsTowardsCaps(usage) && matchesSubject(usage, subject, value))
+          .filter(usage => usage.createdAt.getTime() > now.getTime() - cap.ms)
+          .reduce((total, usage) => total + usage.amount, 0);
+
+        return Math.max(0, cap.limit - used);
+      })
+    );
+
+    return { window: cap.window, limit: cap.limit, remaining };
+  });
+}
+
+/**
+ * Delete usage records older than the longest window
+ * @returns The number of records deleted
+ */
+export async function pruneLimitUsage(): Promise<number> {
+  return repository.deleteCreatedBefore(new Date(Date.now() - 31 * DAY_MS));
+}
+
+/**
+ * Start pruning old usage records on a schedule
+ * @returns A function that stops the pruner
+ */
+export function startLimitUsagePruner(): () => void {
+  const timer = setInterval(() => {
+    pruneLimitUsage().catch(error => console.error('❌ Limit usage pruner error:', error));
+  }, HOUR_MS);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,146 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from '../config/config';
+
+// How urgent an alert is; 'info' is used for all-clear messages
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Something operators should know about
+export interface Alert {
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  // Figures behind the alert, shown as a list
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * A channel alerts are sent through
+ */
+export interface Notifier {
+  name: string;
+  notify(alert: Alert): Promise<void>;
+}
+
+/**
+ * Write a one-line summary of an alert
+ */
+function summarize(alert: Alert): string {
+  return `[${alert.severity.toUpperCase()}] ${alert.title}: ${alert.message}`;
+}
+
+/**
+ * Write the details of an alert one per line
+ */
+function formatDetails(alert: Alert, newline = '\n'): string {
+  return Object.entries(alert.details || {}).map(([key, value]) => `${key}: ${value}`).join(newline);
+}
+
+/**
+ * Logs alerts to the console
+ */
+export class LogNotifier implements Notifier {
+  readonly name = 'log';
+
+  async notify(alert: Alert): Promise<void> {
+    const log = alert.severity === 'info' ? console.log : console.warn;
+    log(`🔔 ${summarize(alert)}`);
+  }
+}
+
+/**
+ * POSTs alerts as JSON to a URL
+ * The body has a `text` field so Slack (and Slack-compatible) incoming webhooks take it as is.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+
+  constructor(private readonly url: string) {}
+
+  async notify(alert: Alert): Promise<void> {
+    const details = formatDetails(alert);
+
+    await axios.post(this.url, {
+      text: details ? `${summarize(alert)}\n${details}` : summarize(alert),
+      alert: { ...alert, createdAt: alert.createdAt.toISOString() }
+    }, { timeout: 10000 });
+  }
+}
+
+/**
+ * Writes alerts as RFC 5322 messages to an outbox directory, standing in for an SMTP server
+ * Whatever relays mail picks the `.eml` files up from there.
+ */
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+
+  constructor(private readonly outboxDir: string, private readonly from: string, private readonly to: string[]) {}
+
+  async notify(alert: Alert): Promise<void> {
+    const message = [
+      `From: ${this.from}`,
+      `To: ${this.to.join(', ')}`,
+      `Subject: [${alert.severity.toUpperCase()}] ${alert.title}`,
+      `Date: ${alert.createdAt.toUTCString()}`,
+      `Message-ID: <${crypto.randomUUID()}@hyperramp>`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      alert.message,
+      '',
+      formatDetails(alert, '\r\n'),
+      ''
+    ].join('\r\n');
+
+    const fileName = `${alert.createdAt.toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+
+    await fs.promises.mkdir(this.outboxDir, { recursive: true });
+    await fs.promises.writeFile(path.join(this.outboxDir, fileName), message);
+  }
+}
+
+/**
+ * Create the notifiers selected by the ALERT_NOTIFIERS setting
+ */
+export function createNotifiers(): Notifier[] {
+  return config.alertNotifiers.map(name => {
+    if (name === 'webhook') {
+      return new WebhookNotifier(config.alertWebhookUrl);
+    }
+
+    if (name === 'email') {
+      const outboxDir = config.alertEmailOutboxDir || path.join(config.dataDir, 'outbox');
+      return new EmailNotifier(outboxDir, config.alertEmailFrom, config.alertEmailTo);
+    }
+
+    return new LogNotifier();
+  });
+}
+
+// Notifiers in use (swappable for tests)
+let notifiers: Notifier[] = createNotifiers();
+
+/**
+ * Replace the notifiers alerts are sent through
+ * Used by tests to capture alerts
+ */
+export function setNotifiers(alertNotifiers: Notifier[]): void {
+  notifiers = alertNotifiers;
+}
+
+/**
+ * Send an alert through every notifier
+ * A notifier that fails is reported but does not stop the others.
+ */
+export async function sendAlert(alert: Alert): Promise<void> {
+  const results = await Promise.allSettled(notifiers.map(notifier => notifier.notify(alert)));
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      const reason = result.reason instanceof Error ? result.reason.message : result.reason;
+      console.error(`❌ Could not send alert through ${notifiers[index].name}:`, reason);
+    }
+  });
+}
@@ -1,93 +1,114 @@
 import { ethers } from 'ethers';
 import config from '../config/config';
-import { depositUsdcToHyperliquid, getHyperliquidBalance } from './hyperliquidService';
-
-// Interface for pending transaction
-interface PendingTransaction {
-  id: string;
-  walletAddress: string;
-  amount: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  createdAt: Date;
-  updatedAt: Date;
-  stripeSessionId: string;
-  txHash?: string;
-  error?: string;
-}
+import { classifyPayoutError, isNonceError } from './payoutErrors';
+import { getFundingSourceBalance, getPayoutRail } from './payoutRailService';
+import { recordScreeningHit, screenWalletAddress } from './screeningService';
+import { deliverSpotToken } from './spotService';
+import { recordDisbursement } from './ledgerService';
+import {
+  PayoutRailId,
+  PendingTransaction,
+  SpotDelivery,
+  TransactionRepository,
+  TransactionState,
+  isStalledPayout,
+  transactionRepository
+} from '../repositories/transactionRepository';
+import { WalletFlag, walletFlagRepository } from '../repositories/walletFlagRepository';
+import { FundingSource, reservationRepository, sumActiveReservations } from '../repositories/reservationRepository';
 
 // Transaction status for API responses
 export interface TransactionStatus {
   sessionId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: TransactionState;
   walletAddress: string;
   amount: number;
+  payoutRail: PayoutRailId;
+  spotDelivery?: SpotDelivery;
   txHash?: string;
   error?: string;
+  confirmedAt?: string;
+  needsReview?: boolean;
+  refund?: {
+    id?: string;
+    reason?: string;
+    error?: string;
+    refundedAt?: string;
+  };
   createdAt: string;
   updatedAt: string;
 }
 
-// In-memory store for pending transactions
-// In a production environment, this would be a database
-const pendingTransactions: Map<string, PendingTransaction> = new Map();
+// Repository holding all transactions (swappable for tests)
+let repository: TransactionRepository = transactionRepository;
 
-// Track total amount onramped (initialized at 39 USDC as requested)
-let totalOnrampedAmount = 39;
+/**
+ * Replace the transaction repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setTransactionRepository(repo: TransactionRepository): void {
+  repository = repo;
+}
 
-// Cache for the last fetched wallet balance
-let lastBalanceCheck = {
-  timestamp: 0,
-  balance: 0,
-  decimals: 6
+// Cache for the last fetched balance of each funding source
+const lastBalanceChecks: Record<FundingSource, { timestamp: number; balance: number; decimals: number }> = {
+  core: { timestamp: 0, balance: 0, decimals: 6 },
+  evm: { timestamp: 0, balance: 0, decimals: 6 }
 };
 
 /**
  * Get the current USDC balance of the wallet
  * Caches the result for 30 seconds to avoid excessive API calls
+ * @param source The balance to read: the Hyperliquid account by default, or the hot wallet's USDC on HyperEVM
  */
-export async function getWalletBalance(): Promise<{
+export async function getWalletBalance(source: FundingSource = 'core'): Promise<{
   balance: number;
   formattedBalance: string;
   availableForOnramp: number;
   pendingAmount: number;
+  reservedAmount: number;
 }> {
   try {
     const now = Date.now();
     const cacheExpiry = 30 * 1000; // 30 seconds
+    const lastBalanceCheck = lastBalanceChecks[source];
     
     // If we have a recent balance check, use the cached value
     if (now - lastBalanceCheck.timestamp < cacheExpiry && lastBalanceCheck.balance > 0) {
-      const pendingAmount = calculatePendingAmount();
+      const reservedAmount = await calculateReservedAmount(source);
+      const pendingAmount = await calculatePendingAmount(source) + reservedAmount;
       const availableForOnramp = Math.max(0, lastBalanceCheck.balance - pendingAmount);
       
       return {
         balance: lastBalanceCheck.balance,
         formattedBalance: lastBalanceCheck.balance.toFixed(2),
         availableForOnramp,
-        pendingAmount
+        pendingAmount,
+        reservedAmount
       };
     }
     
-    // Get balance from Hyperliquid
-    const { usdBalance } = await getHyperliquidBalance();
-    const balanceNumber = usdBalance;
+    // Get balance from Hyperliquid (or HyperEVM)
+    const balanceNumber = await getFundingSourceBalance(source);
     
     // Update the cache
-    lastBalanceCheck = {
+    lastBalanceChecks[source] = {
       timestamp: now,
       balance: balanceNumber,
       decimals: 6
     };
     
-    // Calculate pending amount
-    const pendingAmount = calculatePendingAmount();
+    // Calculate pending amount, including capacity reserved for open checkouts
+    const reservedAmount = await calculateReservedAmount(source);
+    const pendingAmount = await calculatePendingAmount(source) + reservedAmount;
     const availableForOnramp = Math.max(0, balanceNumber - pendingAmount);
     
     return {
       balance: balanceNumber,
       formattedBalance: balanceNumber.toFixed(2),
       availableForOnramp,
-      pendingAmount
+      pendingAmount,
+      reservedAmount
     };
   } catch (error) {
     console.error('Error getting wallet balance:', error);
@@ -96,15 +117,27 @@ export async function getWalletBalance(): Promise<{
 }
 
 /**
- * Calculate the total amount of pending transactions
+ * Calculate the total amount of pending transactions paid from a funding source
+ * Includes the network fee of each payout's rail, which is paid from the same balance
  */
-function calculatePendingAmount(): number {
+async function calculatePendingAmount(source: FundingSource): Promise<number> {
   let total = 0;
   
-  for (const tx of pendingTransactions.values()) {
-    // Only count transactions that are not completed or failed
-    if (tx.status === 'pending' || tx.status === 'processing') {
-      total += tx.amount;
+  for (const tx of await repository.list()) {
+    const rail = getPayoutRail(tx.payoutRail);
+    
+    // Only count transactions we still have to pay out, including delayed payments that may still settle,
+    // payments held for review that may still be released and sends we could not verify
+    if (
+      rail.source === source && (
+        tx.status === 'pending' ||
+        tx.status === 'processing' ||
+        tx.status === 'awaiting_payment' ||
+        tx.status === 'held' ||
+        tx.status === 'unverified'
+      )
+    ) {
+      total += tx.amount + rail.networkFee;
     }
   }
   
@@ -112,291 +145,408 @@ function calculatePendingAmount(): number {
 }
 
 /**
- * Create a new pending transaction
+ * Calculate the total amount held by active checkout reservations on a funding source
+ */
+async function calculateReservedAmount(source: FundingSource): Promise<number> {
+  return sumActiveReservations(await reservationRepository.list(), new Date(), source);
+}
+
+/**
+ * Create the transaction of a Stripe session
+ * Returns the session's existing transaction instead if it already has one
+ * @param status Status of a new transaction, e.g. 'awaiting_payment' for a delayed payment
  */
-export function createPendingTransaction(
+export async function createPendingTransaction(
   stripeSessionId: string,
   walletAddress: string,
-  amount: number
-): PendingTransaction {
+  amount: number,
+  payoutRail?: PayoutRailId,
+  spotDelivery?: SpotDelivery,
+  status: TransactionState = 'pending'
+): Promise<PendingTransaction> {
   const now = new Date();
   const transaction: PendingTransaction = {
     id: `tx_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
     walletAddress,
     amount,
-    status: 'pending',
+    payoutRail,
+    spotDelivery,
+    status,
     createdAt: now,
     updatedAt: now,
     stripeSessionId
   };
   
-  pendingTransactions.set(transaction.id, transaction);
-  return transaction;
+  return repository.createForSession(transaction);
 }
 
 /**
  * Get a pending transaction by Stripe session ID
  */
-export function getPendingTransactionBySessionId(sessionId: string): PendingTransaction | undefined {
-  for (const tx of pendingTransactions.values()) {
-    if (tx.stripeSessionId === sessionId) {
-      return tx;
-    }
-  }
-  return undefined;
+export async function getPendingTransactionBySessionId(sessionId: string): Promise<PendingTransaction | undefined> {
+  return repository.findBySessionId(sessionId);
+}
+
+/**
+ * Get the freeze on a wallet, if it is frozen
+ */
+export async function getWalletFreeze(walletAddress: string): Promise<WalletFlag | undefined> {
+  return walletFlagRepository.find(walletAddress);
+}
+
+/**
+ * Whether a transaction is somewhere in the refund lifecycle
+ */
+export function isRefundState(status: TransactionState): boolean {
+  return status === 'refund_pending' || status === 'refunded' || status === 'refund_failed';
+}
+
+/**
+ * Get a transaction by the Stripe payment intent that paid for it
+ */
+export async function getPendingTransactionByPaymentIntentId(paymentIntentId: string): Promise<PendingTransaction | undefined> {
+  return (await repository.list()).find(tx => tx.paymentIntentId === paymentIntentId);
+}
+
+/**
+ * Get a transaction by the ID of its Stripe refund
+ */
+export async function getPendingTransactionByRefundId(refundId: string): Promise<PendingTransaction | undefined> {
+  return (await repository.list()).find(tx => tx.refundId === refundId);
 }
 
 /**
  * Get transaction status by Stripe session ID
  * This is used by the frontend to check the status of a transaction
  */
-export function getTransactionStatus(sessionId: string): TransactionStatus | null {
-  const tx = getPendingTransactionBySessionId(sessionId);
+export async function getTransactionStatus(sessionId: string): Promise<TransactionStatus | null> {
+  const tx = await getPendingTransactionBySessionId(sessionId);
   
   if (!tx) {
     return null;
   }
   
-  return {
-    sessionId: tx.stripeSessionId,
-    status: tx.status,
-    walletAddress: tx.walletAddress,
-    amount: tx.amount,
-    txHash: tx.txHash,
-    error: tx.error,
-    createdAt: tx.createdAt.toISOString(),
-    updatedAt: tx.updatedAt.toISOString()
-  };
+  return toTransactionStatus(tx);
 }
 
 /**
  * Get all transaction statuses
  * This is used by the frontend to display a list of recent transactions
  */
-export function getAllTransactionStatuses(): TransactionStatus[] {
-  return Array.from(pendingTransactions.values()).map(tx => ({
+export async function getAllTransactionStatuses(): Promise<TransactionStatus[]> {
+  return (await repository.list()).map(toTransactionStatus);
+}
+
+/**
+ * Convert a stored transaction into its API representation
+ */
+function toTransactionStatus(tx: PendingTransaction): TransactionStatus {
+  return {
     sessionId: tx.stripeSessionId,
     status: tx.status,
     walletAddress: tx.walletAddress,
     amount: tx.amount,
+    payoutRail: tx.payoutRail || 'hyperliquid',
+    spotDelivery: tx.spotDelivery,
     txHash: tx.txHash,
     error: tx.error,
+    confirmedAt: tx.confirmedAt?.toISOString(),
+    needsReview: tx.needsReview,
+    refund: isRefundState(tx.status)
+      ? {
+          id: tx.refundId,
+          reason: tx.refundReason,
+          error: tx.refundError,
+          refundedAt: tx.refundedAt?.toISOString()
+        }
+      : undefined,
     createdAt: tx.createdAt.toISOString(),
     updatedAt: tx.updatedAt.toISOString()
-  }));
+  };
 }
 
 /**
  * Update a pending transaction
  */
-export function updatePendingTransaction(
+export async function updatePendingTransaction(
   id: string,
   updates: Partial<PendingTransaction>
-): PendingTransaction | undefined {
-  const transaction = pendingTransactions.get(id);
-  
-  if (!transaction) {
-    return undefined;
+): Promise<PendingTransaction | undefined> {
+  return repository.update(id, updates);
+}
+
+// Result of a deposit attempt
+export interface DepositResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+  pendingTxId?: string;
+  // True when the attempt failed but may succeed if tried again later
+  retryable?: boolean;
+  // True when another delivery already owns (or finished) the payout for this session
+  duplicate?: boolean;
+  // True when that other payout is still in flight
+  inProgress?: boolean;
+  // True when the send may have gone out and has to be looked up in the ledger (see verifyStartedPayout)
+  unverified?: boolean;
+}
+
+/**
+ * Build the result for a session whose payout is owned by someone else
+ */
+function existingOutcome(tx: PendingTransaction): DepositResult {
+  if (tx.status === 'completed' || tx.status === 'confirmed') {
+    return { success: true, txHash: tx.txHash, pendingTxId: tx.id, duplicate: true };
   }
-  
-  const updatedTransaction = {
-    ...transaction,
-    ...updates,
-    updatedAt: new Date()
+
+  if (
+    tx.status === 'failed' ||
+    tx.status === 'resolved' ||
+    tx.status === 'held' ||
+    tx.status === 'unverified' ||
+    isRefundState(tx.status)
+  ) {
+    return { success: false, error: tx.error || 'Transaction failed', pendingTxId: tx.id, duplicate: true };
+  }
+
+  return {
+    success: false,
+    error: 'Payout already in progress for this session',
+    pendingTxId: tx.id,
+    duplicate: true,
+    inProgress: true
   };
+}
+
+/**
+ * Record a failed attempt on a claimed transaction and release the claim
+ * Retryable failures put the transaction back to pending so the next attempt can claim it;
+ * terminal failures mark it failed. A payout nonce stays on the transaction, so any retry signs the same one.
+ */
+async function releaseFailedAttempt(pendingTxId: string, error: unknown): Promise<DepositResult> {
+  const message = error instanceof Error ? error.message : String(error);
+  const retryable = classifyPayoutError(error) === 'retryable';
   
-  pendingTransactions.set(id, updatedTransaction);
-  return updatedTransaction;
+  await updatePendingTransaction(pendingTxId, {
+    status: retryable ? 'pending' : 'failed',
+    error: message,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined,
+    payoutStartedAt: undefined
+  });
+  
+  return { success: false, error: message, pendingTxId, retryable };
 }
 
 /**
- * Delete a pending transaction
- * Note: We now only use this for cleanup, not immediately after completion/failure
+ * Release the claim on a send whose outcome we do not know
+ * The transaction is parked as unverified with its nonce, for the caller to look the send up in the ledger.
  */
-export function deletePendingTransaction(id: string): boolean {
-  return pendingTransactions.delete(id);
+async function releaseUnverifiedSend(pendingTxId: string, error: unknown): Promise<DepositResult> {
+  const message = error instanceof Error ? error.message : String(error);
+  
+  await updatePendingTransaction(pendingTxId, {
+    status: 'unverified',
+    error: message,
+    needsReview: true,
+    reviewReason: `Send may have gone out: ${message}`,
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  });
+  
+  return { success: false, error: message, pendingTxId, unverified: true };
 }
 
 /**
  * Process a deposit
- * This checks available balance, creates a pending transaction,
- * and calls the hyperliquidService to perform the deposit
+ * Claims the Stripe session so that only one payout can run per session,
+ * checks the available balance of the rail's funding source and sends the payout on the rail,
+ * or delivers the spot token the customer bought instead of USDC.
+ * Concurrent calls for the same session return the existing outcome without sending again.
+ * Failed attempts are classified as retryable or terminal; retrying is up to the caller (see payoutQueueService).
  */
 export async function processDeposit(
   stripeSessionId: string,
   destinationAddress: string,
-  amount: number
-): Promise<{ success: boolean; txHash?: string; error?: string; pendingTxId?: string }> {
+  amount: number,
+  paymentIntentId?: string,
+  payoutRail?: PayoutRailId,
+  spotDelivery?: SpotDelivery
+): Promise<DepositResult> {
+  let claimedTxId: string | undefined;
+  const rail = getPayoutRail(payoutRail);
+  
   try {
-    console.log(`🔍 Processing deposit for session ${stripeSessionId}, wallet ${destinationAddress}, amount ${amount}`);
+    console.log(`🔍 Processing deposit for session ${stripeSessionId}, wallet ${destinationAddress}, amount ${amount}, rail ${rail.id}`);
     
-    // Check if we already have a transaction for this session
-    const existingTx = getPendingTransactionBySessionId(stripeSessionId);
-    console.log(`🔍 Existing transaction found: ${existingTx ? 'YES' : 'NO'}`);
+    const now = new Date();
+    const leaseOwner = `worker_${process.pid}_${Math.random().toString(36).substring(2, 9)}`;
+    const { claimed, transaction } = await repository.claimSession(
+      {
+        id: `tx_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+        walletAddress: destinationAddress,
+        amount,
+        payoutRail: rail.id,
+        spotDelivery,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now,
+        stripeSessionId,
+        paymentIntentId
+      },
+      leaseOwner,
+      config.payoutLeaseSeconds * 1000
+    );
     
-    if (existingTx) {
-      // If the transaction is already completed or failed, return its status
-      if (existingTx.status === 'completed') {
-        return {
-          success: true,
-          txHash: existingTx.txHash,
-          pendingTxId: existingTx.id
-        };
-      } else if (existingTx.status === 'failed') {
-        return {
-          success: false,
-          error: existingTx.error || 'Transaction failed',
-          pendingTxId: existingTx.id
-        };
-      }
-      
-      // If it's still pending or processing, update it to processing and continue
-      updatePendingTransaction(existingTx.id, { status: 'processing' });
-      
-      // Use the existing transaction ID
-      const pendingTxId = existingTx.id;
-      
-      try {
-        // Process the deposit
-        const txHash = await depositUsdcToHyperliquid(destinationAddress, amount);
-        
-        // Update the transaction as completed
-        updatePendingTransaction(pendingTxId, {
-          status: 'completed',
-          txHash
-        });
-        
-        // Increment the total onramped amount
-        incrementTotalOnrampedAmount(amount);
-        
-        return {
-          success: true,
-          txHash,
-          pendingTxId
-        };
-      } catch (error) {
-        console.log('🚨 Caught error in processDeposit:', error);
-        // Update the transaction as failed
-        updatePendingTransaction(pendingTxId, {
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
-        });
-        
-        console.log('📝 Updated transaction status to failed');
-        
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          pendingTxId
-        };
-      }
+    if (!claimed) {
+      console.log(`🔒 Session ${stripeSessionId} already claimed (status: ${transaction.status}), not sending again`);
+      return existingOutcome(transaction);
+    }
+    
+    const pendingTxId = transaction.id;
+    claimedTxId = pendingTxId;
+    
+    // Every rail pays out to an EVM address; reject any other before a nonce is signed for it
+    if (!ethers.utils.isAddress(destinationAddress)) {
+      return releaseFailedAttempt(pendingTxId, new Error('Invalid destination address'));
     }
     
-    // Get current balance and available amount
-    const { availableForOnramp } = await getWalletBalance();
+    // Screen the address again: the lists may have changed since the checkout was created
+    const screeningMatch = screenWalletAddress(destinationAddress);
     
-    // Check if we have enough balance
-    if (availableForOnramp < amount) {
-      // Create a failed transaction record
-      const pendingTx = createPendingTransaction(stripeSessionId, destinationAddress, amount);
-      updatePendingTransaction(pendingTx.id, {
-        status: 'failed',
-        error: `Insufficient balance for onramp. Required: ${amount} USDC, Available: ${availableForOnramp} USDC`
+    if (screeningMatch) {
+      await recordScreeningHit(screeningMatch, 'payout', stripeSessionId);
+      await updatePendingTransaction(pendingTxId, {
+        needsReview: true,
+        reviewReason: `Wallet listed on ${screeningMatch.list}`
       });
-      
-      return {
-        success: false,
-        error: `Insufficient balance for onramp. Required: ${amount} USDC, Available: ${availableForOnramp} USDC`,
-        pendingTxId: pendingTx.id
-      };
+      return releaseFailedAttempt(pendingTxId, new Error(`Wallet is on a screening list (${screeningMatch.list})`));
+    }
+    
+    // A wallet can be frozen (e.g. by a dispute) after its checkout was created
+    const freeze = await getWalletFreeze(destinationAddress);
+    
+    if (freeze) {
+      return releaseFailedAttempt(pendingTxId, new Error(`Wallet is frozen: ${freeze.reason}`));
+    }
+    
+    // Transactions recorded before the payout was queued (e.g. awaiting a delayed payment) may lack the rail
+    if (transaction.payoutRail !== rail.id || (spotDelivery && !transaction.spotDelivery)) {
+      await updatePendingTransaction(pendingTxId, { payoutRail: rail.id, spotDelivery });
     }
     
-    // Create a pending transaction
-    const pendingTx = createPendingTransaction(stripeSessionId, destinationAddress, amount);
+    // Our own claimed transaction is already counted in the pending amount,
+    // so the balance only has to cover everything that is pending on the same funding source.
+    // Reservations for unpaid checkouts do not take priority over a payment we already received.
+    const cost = amount + rail.networkFee;
+    const { balance, pendingAmount, reservedAmount } = await getWalletBalance(rail.source);
+    const availableForThisDeposit = Math.max(0, balance - (pendingAmount - reservedAmount - cost));
     
-    // Update status to processing
-    updatePendingTransaction(pendingTx.id, { status: 'processing' });
+    if (availableForThisDeposit < cost) {
+      return releaseFailedAttempt(
+        pendingTxId,
+        new Error(`Insufficient balance for onramp. Required: ${cost} USDC, Available: ${availableForThisDeposit} USDC`)
+      );
+    }
+    
+    // From here on the claim can no longer be taken over, even if the lease lapses.
+    // Only the first attempt picks a nonce; every later one signs the same, so Hyperliquid accepts it once.
+    const payoutNonce = transaction.payoutNonce ?? Date.now();
+    await updatePendingTransaction(pendingTxId, { payoutStartedAt: new Date(), payoutNonce });
     
     try {
-      // Process the deposit
-      const txHash = await depositUsdcToHyperliquid(destinationAddress, amount);
+      // Process the deposit; spot tokens are bought with and paid for out of the same USDC balance
+      const receipt = spotDelivery
+        ? await deliverSpotToken(destinationAddress, spotDelivery, payoutNonce)
+        : await rail.send({
+            destination: destinationAddress,
+            amount,
+            nonce: payoutNonce,
+            preparedTx: transaction.payoutPreparedTx,
+            savePreparedTx: async rawTx => {
+              await updatePendingTransaction(pendingTxId, { payoutPreparedTx: rawTx });
+            }
+          });
       
-      // Update the transaction as completed
-      updatePendingTransaction(pendingTx.id, {
-        status: 'completed',
-        txHash
+      // Update the transaction as completed; confirmationService moves it to confirmed
+      // once the send shows up in the Hyperliquid ledger. Rails that wait for their
+      // transaction to be mined are confirmed right away.
+      await updatePendingTransaction(pendingTxId, {
+        status: receipt.txHash ? 'confirmed' : 'completed',
+        ...(receipt.txHash ? { txHash: receipt.txHash, confirmedAt: new Date() } : {}),
+        error: undefined,
+        leaseOwner: undefined,
+        leaseExpiresAt: undefined
       });
       
-      // Increment the total onramped amount
-      incrementTotalOnrampedAmount(amount);
+      // Book the payout; the USDC is sent either way, so a ledger failure is only reported
+      await recordDisbursement({ ...transaction, amount }, rail.networkFee, receipt.txHash)
+        .catch(error => console.error(`❌ Could not record the payout for session ${stripeSessionId} in the ledger:`, error));
       
       return {
         success: true,
-        txHash,
-        pendingTxId: pendingTx.id
+        pendingTxId
       };
     } catch (error) {
-      // Update the transaction as failed
-      updatePendingTransaction(pendingTx.id, {
-        status: 'failed',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      });
+      console.log('🚨 Caught error in processDeposit:', error);
       
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        pendingTxId: pendingTx.id
-      };
+      // Hyperliquid refusing the nonce means an earlier attempt with it may have gone through
+      if (isNonceError(error)) {
+        return releaseUnverifiedSend(pendingTxId, error);
+      }
+      
+      return releaseFailedAttempt(pendingTxId, error);
     }
   } catch (error) {
     console.error('Error processing deposit:', error);
     
+    // Release a claim we still hold so the session does not stay stuck in processing
+    if (claimedTxId) {
+      return releaseFailedAttempt(claimedTxId, error);
+    }
+    
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: error instanceof Error ? error.message : 'Unknown error',
+      retryable: classifyPayoutError(error) === 'retryable'
     };
   }
 }
 
 /**
- * Get all pending transactions
+ * Mark a transaction as resolved by hand
+ * Any payout still queued for it will not send once the transaction is resolved
  */
-export function getAllPendingTransactions(): PendingTransaction[] {
-  return Array.from(pendingTransactions.values());
-}
+export async function resolveTransaction(
+  sessionId: string,
+  resolvedBy: string,
+  note: string
+): Promise<PendingTransaction | undefined> {
+  const tx = await getPendingTransactionBySessionId(sessionId);
 
-/**
- * Clean up old completed/failed transactions
- * This would typically be done by a scheduled job
- * We keep completed/failed transactions for 24 hours by default
- */
-export function cleanupOldTransactions(maxAgeHours = 24): void {
-  const now = Date.now();
-  const maxAgeMs = maxAgeHours * 60 * 60 * 1000;
-  
-  for (const [id, tx] of pendingTransactions.entries()) {
-    const txAge = now - tx.createdAt.getTime();
-    
-    // Remove old completed or failed transactions
-    if ((tx.status === 'completed' || tx.status === 'failed') && txAge > maxAgeMs) {
-      pendingTransactions.delete(id);
-    }
+  if (!tx) {
+    return undefined;
   }
-}
 
-/**
- * Increment the total onramped amount
- * @param amount The amount to add to the total
- */
-export function incrementTotalOnrampedAmount(amount: number): void {
-  totalOnrampedAmount += amount;
-  console.log(`💰 Total onramped amount increased by ${amount} USDC to ${totalOnrampedAmount} USDC`);
+  // A payout that stalled after its send started can be resolved once an operator has checked the ledger
+  if (tx.status === 'processing' && !isStalledPayout(tx, new Date())) {
+    throw new Error('Transaction is being processed and cannot be resolved right now');
+  }
+
+  return updatePendingTransaction(tx.id, {
+    status: 'resolved',
+    needsReview: false,
+    resolvedBy,
+    resolutionNote: note,
+    resolvedAt: new Date(),
+    leaseOwner: undefined,
+    leaseExpiresAt: undefined
+  });
 }
 
 /**
- * Get the total onramped amount
- * @returns The total amount onramped in USDC
+ * Get all pending transactions
  */
-export function getTotalOnrampedAmount(): number {
-  return totalOnrampedAmount;
-} 
\ No newline at end of file
+export async function getAllPendingTransactions(): Promise<PendingTransaction[]> {
+  return repository.list();
+}
@@ -0,0 +1,100 @@
+import config from '../config/config';
+import { getFeeSchedule } from './feeService';
+
+// A Stripe payment method type we accept
+export type PaymentMethodType = 'card' | 'us_bank_account' | 'sepa_debit';
+
+// How a payment method behaves at checkout
+interface PaymentMethodDefinition {
+  label: string;
+  // Currencies Stripe accepts the method in; any currency if unset
+  currencies?: string[];
+  // Bank debits settle days after checkout, so their payout waits for async_payment_succeeded
+  delayedSettlement: boolean;
+}
+
+const PAYMENT_METHOD_DEFINITIONS: Record<PaymentMethodType, PaymentMethodDefinition> = {
+  card: { label: 'Card', delayedSettlement: false },
+  us_bank_account: { label: 'ACH Direct Debit', currencies: ['usd'], delayedSettlement: true },
+  sepa_debit: { label: 'SEPA Direct Debit', currencies: ['eur'], delayedSettlement: true }
+};
+
+// A payment method offered to customers, with its per-checkout limits in USD cents
+export interface PaymentMethodInfo extends PaymentMethodDefinition {
+  type: PaymentMethodType;
+  minAmountUsdCents: number;
+  maxAmountUsdCents: number;
+  // Card wallets Stripe shows alongside the card form
+  wallets?: string[];
+}
+
+/**
+ * Parse PAYMENT_METHOD_LIMITS (`method:minCents:maxCents`, comma separated)
+ */
+function parsePaymentMethodLimits(value: string): Record<string, { min: number; max: number }> {
+  const limits: Record<string, { min: number; max: number }> = {};
+
+  for (const entry of value.split(',').map(v => v.trim()).filter(Boolean)) {
+    const [method, min, max] = entry.split(':').map(v => v.trim());
+
+    if (!(method in PAYMENT_METHOD_DEFINITIONS) || !(parseInt(min, 10) >= 0) || !(parseInt(max, 10) >= parseInt(min, 10))) {
+      throw new Error(`Invalid payment method limit '${entry}'`);
+    }
+
+    limits[method] = { min: parseInt(min, 10), max: parseInt(max, 10) };
+  }
+
+  return limits;
+}
+
+const methodLimits = parsePaymentMethodLimits(config.paymentMethodLimits);
+
+/**
+ * The payment methods enabled by PAYMENT_METHODS, in that order
+ * A method's limits are the global per-checkout limits, narrowed by PAYMENT_METHOD_LIMITS.
+ */
+export function getPaymentMethods(): PaymentMethodInfo[] {
+  return (config.paymentMethods as PaymentMethodType[]).map(type => ({
+    type,
+    ...PAYMENT_METHOD_DEFINITIONS[type],
+    minAmountUsdCents: Math.max(config.minAmountUsdCents, methodLimits[type]?.min ?? 0),
+    maxAmountUsdCents: Math.min(config.maxAmountUsdCents, methodLimits[type]?.max ?? Infinity),
+    ...(type === 'card' && config.cardWallets.length > 0 ? { wallets: config.cardWallets } : {})
+  }));
+}
+
+/**
+ * Get an enabled payment method
+ */
+export function getPaymentMethod(type: string): PaymentMethodInfo | undefined {
+  return getPaymentMethods().find(method => method.type === type);
+}
+
+/**
+ * Whether payments made with a method settle after checkout
+ */
+export function isDelayedSettlement(type: string): boolean {
+  return PAYMENT_METHOD_DEFINITIONS[type as PaymentMethodType]?.delayedSettlement ?? false;
+}
+
+/**
+ * Check that a payment method can be used to pay in a currency
+ * @returns Why it cannot, if it cannot
+ */
+export function checkPaymentMethod(type: string, currency: string): string | undefined {
+  const method = getPaymentMethod(type);
+
+  if (!method) {
+    return `Unsupported payment method: ${type}`;
+  }
+
+  if (method.currencies && !method.currencies.includes(currency)) {
+    return `${method.label} only accepts ${method.currencies.map(c => c.toUpperCase()).join(', ')}`;
+  }
+
+  if (!getFeeSchedule().processingFees[type]) {
+    return `${method.label} is not available right now`;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,62 @@
+import { HyperliquidApiError } from './hyperliquidClient';
+
+// Whether a failed payout is worth another attempt
+export type PayoutErrorKind = 'retryable' | 'terminal';
+
+// Errors that no amount of retrying will fix
+const TERMINAL_PATTERNS = [
+  /invalid destination address/i,
+  /invalid address/i,
+  /minimum deposit amount/i,
+  /private key not configured/i,
+  /signing is disabled/i,
+  /wallet is frozen/i,
+  /wallet is on a screening list/i,
+  /hyperevm transfer .* reverted/i,
+  /did not fill within the slippage limit/i
+];
+
+/**
+ * Classify a payout error as retryable or terminal
+ * Network failures and 5xx/429 responses are retryable; bad input is terminal.
+ * Anything unrecognised is retried, since the max-attempts policy bounds it anyway.
+ * Nonce rejections of a send are not retried at all (see isNonceError).
+ */
+export function classifyPayoutError(error: unknown): PayoutErrorKind {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (TERMINAL_PATTERNS.some(pattern => pattern.test(message))) {
+    return 'terminal';
+  }
+
+  // The Hyperliquid client knows whether its own failures are worth retrying
+  if (error instanceof HyperliquidApiError) {
+    return error.retryable ? 'retryable' : 'terminal';
+  }
+
+  // Axios errors carry the HTTP response, if there was one
+  const httpError = error as { isAxiosError?: boolean; response?: { status: number } };
+
+  if (httpError && httpError.isAxiosError) {
+    // No response at all means the request never completed
+    if (!httpError.response) {
+      return 'retryable';
+    }
+
+    const status = httpError.response.status;
+    return status >= 500 || status === 429 ? 'retryable' : 'terminal';
+  }
+
+  // Insufficient balance, timeouts and unknown errors
+  return 'retryable';
+}
+
+/**
+ * Whether Hyperliquid rejected the action because of its nonce
+ * On a retry the nonce is the one an earlier attempt signed, so a rejection ("duplicate nonce")
+ * usually means that attempt went through: the send has to be looked up, never signed again.
+ */
+export function isNonceError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /nonce/i.test(message);
+}
@@ -0,0 +1,393 @@
+import config from '../config/config';
+import { PayoutJob, PayoutJobRepository, payoutJobRepository } from '../repositories/payoutJobRepository';
+import {
+  PayoutRailId,
+  PendingTransaction,
+  SpotDelivery,
+  hasPayoutStarted,
+  isStalledPayout
+} from '../repositories/transactionRepository';
+import { verifyStartedPayout } from './confirmationService';
+import { getPendingTransactionBySessionId, processDeposit, updatePendingTransaction } from './onrampService';
+import { refundTransaction } from './refundService';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Repository holding the payout jobs (swappable for tests)
+let repository: PayoutJobRepository = payoutJobRepository;
+
+/**
+ * Replace the payout job repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setPayoutJobRepository(repo: PayoutJobRepository): void {
+  repository = repo;
+}
+
+// Whether a worker pass is currently running in this process
+let workerBusy = false;
+
+/**
+ * Queue a payout for a paid Stripe session
+ * Enqueuing the same session twice returns the existing job
+ */
+export async function enqueuePayout(params: {
+  stripeSessionId: string;
+  paymentIntentId?: string;
+  walletAddress: string;
+  amount: number;
+  payoutRail?: PayoutRailId;
+  spotDelivery?: SpotDelivery;
+}): Promise<PayoutJob> {
+  const now = new Date();
+  const job = await repository.enqueue({
+    id: `job_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+    ...params,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: config.payoutMaxAttempts,
+    nextRunAt: now,
+    createdAt: now,
+    updatedAt: now
+  });
+
+  console.log(`📥 Payout job ${job.id} queued for session ${params.stripeSessionId} (status: ${job.status})`);
+  return job;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts
+ * Exponential: base, 2x base, 4x base, ... capped at the configured maximum
+ */
+export function computeBackoffMs(attempts: number): number {
+  const baseMs = config.payoutBackoffBaseSeconds * 1000;
+  const maxMs = config.payoutBackoffMaxSeconds * 1000;
+  return Math.min(maxMs, baseMs * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Give up on a job and refund the customer
+ * This is the only place a failed payout leads to a refund. A job whose transaction already signed a send
+ * is settled from the ledger instead: an earlier attempt may have paid the customer before this one failed.
+ */
+async function deadLetter(job: PayoutJob, error: string, pendingTxId?: string): Promise<PayoutJob> {
+  const tx = await getPendingTransactionBySessionId(job.stripeSessionId);
+
+  if (tx && hasPayoutStarted(tx)) {
+    return settleUnverifiedJob(job, error);
+  }
+
+  console.error(`☠️ Payout job ${job.id} dead-lettered after ${job.attempts} attempt(s): ${error}`);
+
+  if (pendingTxId) {
+    await updatePendingTransaction(pendingTxId, { status: 'failed', error });
+  }
+
+  const deadJob = await repository.update(job.id, {
+    status: 'dead',
+    lastError: error,
+    lockedUntil: undefined
+  });
+
+  if (!job.paymentIntentId) {
+    console.error('❌ Cannot issue refund: No payment intent found for job', job.id);
+    return deadJob || job;
+  }
+
+  // Refund failures are recorded on the transaction (refund_failed) for an operator to retry
+  await refundTransaction(job.stripeSessionId, job.paymentIntentId, `Payout failed: ${error}`);
+
+  return deadJob || job;
+}
+
+/**
+ * Settle a job whose send may have gone out, from the Hyperliquid ledger
+ * A send found in the ledger completes the job; otherwise the job is parked for an operator.
+ * Either way it is never retried or refunded from here.
+ */
+async function settleUnverifiedJob(job: PayoutJob, error: string): Promise<PayoutJob> {
+  const tx = await getPendingTransactionBySessionId(job.stripeSessionId);
+  const settled = tx && await verifyStartedPayout(tx, error);
+
+  if (settled?.status === 'confirmed') {
+    console.log(`🚀 Payout job ${job.id} found its send in the ledger for session ${job.stripeSessionId}`);
+    return (await repository.update(job.id, {
+      status: 'succeeded',
+      lastError: undefined,
+      lockedUntil: undefined
+    })) || job;
+  }
+
+  console.error(`🅿️ Payout job ${job.id} parked: the send could not be verified (${error})`);
+  return (await repository.update(job.id, {
+    status: 'parked',
+    lastError: error,
+    lockedUntil: undefined
+  })) || job;
+}
+
+/**
+ * Put back a job whose session is held by another payout
+ * A payout that stalled after its send started is settled from the ledger instead; a job that keeps
+ * finding its session held is parked and its transaction flagged for an operator.
+ * @param attempts Attempts to leave on the job (finding the session held does not count as one)
+ */
+async function deferJob(job: PayoutJob, attempts: number): Promise<PayoutJob> {
+  const tx = await getPendingTransactionBySessionId(job.stripeSessionId);
+
+  if (tx && isStalledPayout(tx, new Date())) {
+    return settleUnverifiedJob(job, 'Payout stopped after its send was started');
+  }
+
+  const deferrals = (job.deferrals || 0) + 1;
+
+  if (deferrals > config.payoutMaxDeferrals) {
+    const error = `Session still held by another payout after ${config.payoutMaxDeferrals} retries`;
+    console.error(`🅿️ Payout job ${job.id} parked: ${error}`);
+
+    if (tx) {
+      await updatePendingTransaction(tx.id, { needsReview: true, reviewReason: error });
+    }
+
+    return (await repository.update(job.id, {
+      status: 'parked',
+      attempts,
+      lastError: error,
+      lockedUntil: undefined
+    })) || job;
+  }
+
+  // Look again once the other payout's lease may have lapsed
+  return (await repository.update(job.id, {
+    status: 'queued',
+    attempts,
+    deferrals,
+    nextRunAt: new Date(Date.now() + config.payoutLeaseSeconds * 1000),
+    lockedUntil: undefined
+  })) || job;
+}
+
+/**
+ * Run a single attempt of a claimed job
+ */
+export async function runPayoutJob(job: PayoutJob): Promise<PayoutJob> {
+  const attempts = job.attempts + 1;
+  const attemptJob = (await repository.update(job.id, { attempts })) || { ...job, attempts };
+
+  console.log(`🔄 Payout job ${job.id} attempt ${attempts}/${job.maxAttempts}`);
+  const result = await processDeposit(
+    job.stripeSessionId,
+    job.walletAddress,
+    job.amount,
+    job.paymentIntentId,
+    job.payoutRail,
+    job.spotDelivery
+  );
+
+  if (result.success) {
+    console.log(`🚀 Payout job ${job.id} succeeded for session ${job.stripeSessionId}`);
+    return (await repository.update(job.id, {
+      status: 'succeeded',
+      lastError: undefined,
+      lockedUntil: undefined
+    })) || attemptJob;
+  }
+
+  if (result.inProgress) {
+    return deferJob(attemptJob, job.attempts);
+  }
+
+  const error = result.error || 'Unknown error';
+
+  if (result.unverified) {
+    return settleUnverifiedJob(attemptJob, error);
+  }
+
+  if (result.duplicate) {
+    // The payout already failed terminally elsewhere and was handled there
+    return (await repository.update(job.id, { status: 'dead', lastError: error, lockedUntil: undefined })) || attemptJob;
+  }
+
+  if (!result.retryable) {
+    return deadLetter(attemptJob, error, result.pendingTxId);
+  }
+
+  if (attempts >= job.maxAttempts) {
+    return deadLetter(attemptJob, `Gave up after ${attempts} attempts: ${error}`, result.pendingTxId);
+  }
+
+  const delayMs = computeBackoffMs(attempts);
+  console.warn(`⏳ Payout job ${job.id} failed (retryable), retrying in ${Math.round(delayMs / 1000)}s: ${error}`);
+
+  return (await repository.update(job.id, {
+    status: 'queued',
+    lastError: error,
+    nextRunAt: new Date(Date.now() + delayMs),
+    lockedUntil: undefined
+  })) || attemptJob;
+}
+
+/**
+ * Run every job that is currently due
+ * @returns The number of jobs attempted
+ */
+export async function processDuePayoutJobs(): Promise<number> {
+  if (workerBusy) {
+    return 0;
+  }
+
+  workerBusy = true;
+  let processed = 0;
+
+  try {
+    let job = await repository.claimNext(new Date(), config.payoutLeaseSeconds * 1000);
+
+    while (job) {
+      try {
+        await runPayoutJob(job);
+      } catch (error) {
+        // Leave the job locked; it is picked up again once the lock lapses
+        console.error(`❌ Error running payout job ${job.id}:`, error);
+      }
+
+      processed++;
+      job = await repository.claimNext(new Date(), config.payoutLeaseSeconds * 1000);
+    }
+  } finally {
+    workerBusy = false;
+  }
+
+  return processed;
+}
+
+/**
+ * Start polling for due payout jobs
+ * @returns A function that stops the worker
+ */
+export function startPayoutWorker(): () => void {
+  const timer = setInterval(() => {
+    processDuePayoutJobs().catch(error => console.error('❌ Payout worker error:', error));
+  }, config.payoutWorkerIntervalSeconds * 1000);
+
+  console.log(`👷 Payout worker polling every ${config.payoutWorkerIntervalSeconds}s`);
+  return () => clearInterval(timer);
+}
+
+/**
+ * Delete succeeded and dead jobs older than the retention period
+ * Their transactions keep the outcome; parked jobs are kept until an operator settles them.
+ * @returns The number of jobs deleted
+ */
+export async function prunePayoutJobs(): Promise<number> {
+  const deleted = await repository.deleteFinishedBefore(
+    new Date(Date.now() - config.payoutJobRetentionDays * DAY_MS)
+  );
+
+  if (deleted > 0) {
+    console.log(`🧹 Pruned ${deleted} finished payout job(s)`);
+  }
+
+  return deleted;
+}
+
+/**
+ * Start pruning finished payout jobs on a schedule
+ * @returns A function that stops the pruner
+ */
+export function startPayoutJobPruner(): () => void {
+  const timer = setInterval(() => {
+    prunePayoutJobs().catch(error => console.error('❌ Payout job pruner error:', error));
+  }, HOUR_MS);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Queue a session's payout again with a fresh set of attempts
+ * Resets the session's job, or queues a new one from the transaction if there is none
+ */
+async function requeuePayout(sessionId: string, tx: PendingTransaction | undefined): Promise<PayoutJob> {
+  const job = await repository.findBySessionId(sessionId);
+  let requeued: PayoutJob | undefined;
+
+  if (job) {
+    requeued = await repository.update(job.id, {
+      status: 'queued',
+      attempts: 0,
+      deferrals: undefined,
+      nextRunAt: new Date(),
+      lastError: undefined,
+      lockedUntil: undefined
+    });
+  } else if (tx) {
+    requeued = await enqueuePayout({
+      stripeSessionId: sessionId,
+      paymentIntentId: tx.paymentIntentId,
+      walletAddress: tx.walletAddress,
+      amount: tx.amount,
+      payoutRail: tx.payoutRail,
+      spotDelivery: tx.spotDelivery
+    });
+  }
+
+  if (!requeued) {
+    throw new Error(`No payout job or transaction found for session ${sessionId}`);
+  }
+
+  processDuePayoutJobs().catch(error => console.error('❌ Payout worker error:', error));
+
+  return requeued;
+}
+
+/**
+ * Retry the payout of a failed transaction from scratch
+ * Only payouts that never started a send can be retried; anything else may already have paid the customer
+ * and has to be resolved by hand.
+ */
+export async function retryPayout(sessionId: string): Promise<PayoutJob> {
+  const tx = await getPendingTransactionBySessionId(sessionId);
+  const job = await repository.findBySessionId(sessionId);
+
+  if (tx && tx.status !== 'failed' && tx.status !== 'refund_failed') {
+    throw new Error(`Only failed payouts can be retried (transaction is ${tx.status})`);
+  }
+
+  if (tx && hasPayoutStarted(tx)) {
+    throw new Error('A send was already started for this payout, so it cannot be retried; resolve it by hand');
+  }
+
+  if (!tx && (!job || job.status !== 'dead')) {
+    throw new Error('No failed payout found for this session');
+  }
+
+  if (tx) {
+    await updatePendingTransaction(tx.id, { status: 'pending', error: undefined });
+  }
+
+  console.log(`🔁 Payout for session ${sessionId} queued for retry`);
+  return requeuePayout(sessionId, tx);
+}
+
+/**
+ * Release a payout held for review by fraud screening
+ */
+export async function releaseHeldPayout(sessionId: string): Promise<PayoutJob> {
+  const tx = await getPendingTransactionBySessionId(sessionId);
+
+  if (!tx || tx.status !== 'held') {
+    throw new Error('No held payout found for this session');
+  }
+
+  await updatePendingTransaction(tx.id, { status: 'pending', needsReview: false });
+
+  console.log(`✅ Held payout for session ${sessionId} released`);
+  return requeuePayout(sessionId, tx);
+}
+
+/**
+ * Get the payout job for a Stripe session
+ */
+export async function getPayoutJobBySessionId(sessionId: string): Promise<PayoutJob | undefined> {
+  return repository.findBySessionId(sessionId);
+}
@@ -0,0 +1,124 @@
+import config from '../config/config';
+import { FundingSource } from '../repositories/reservationRepository';
+import { PayoutRailId } from '../repositories/transactionRepository';
+import { depositUsdcToHyperliquid, getHyperliquidBalance, withdrawUsdcToArbitrum } from './hyperliquidService';
+import { getHyperEvmUsdcBalance, sendHyperEvmUsdc } from './hyperEvmService';
+
+// HyperCore system addresses (0x2000...); tokens sent to them are bridged, not delivered
+const SYSTEM_ADDRESS_PATTERN = /^0x20{2}/i;
+
+// One payout to send
+export interface PayoutRequest {
+  destination: string;
+  amount: number;
+  // Millisecond timestamp signed into Hyperliquid actions, reused on retries
+  nonce: number;
+  // Rail-specific signed transaction from an earlier attempt, to be sent again as is
+  preparedTx?: string;
+  // Persist a signed transaction before it is broadcast
+  savePreparedTx?: (rawTx: string) => Promise<void>;
+}
+
+// What a rail reports back about a payout it sent
+export interface PayoutReceipt {
+  from: string;
+  destination: string;
+  amount: number;
+  // Set when the payout is already final on chain; otherwise the ledger confirms it later
+  txHash?: string;
+}
+
+/**
+ * A way of delivering USDC to a customer
+ */
+export interface PayoutRail {
+  id: PayoutRailId;
+  label: string;
+  // The balance payouts on this rail are paid from
+  source: FundingSource;
+  // USDC the rail costs on top of the amount delivered, passed on to the customer
+  networkFee: number;
+  /**
+   * Check a destination address for this rail
+   * @returns Why it cannot be paid to, if it cannot
+   */
+  validateDestination(address: string): string | undefined;
+  send(request: PayoutRequest): Promise<PayoutReceipt>;
+}
+
+/**
+ * Every rail needs an EVM address that is not the zero address
+ */
+function validateEvmAddress(address: string): string | undefined {
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return 'Invalid wallet address format';
+  }
+
+  if (/^0x0{40}$/.test(address)) {
+    return 'Cannot pay out to the zero address';
+  }
+
+  return undefined;
+}
+
+const PAYOUT_RAILS: Record<PayoutRailId, PayoutRail> = {
+  hyperliquid: {
+    id: 'hyperliquid',
+    label: 'Hyperliquid',
+    source: 'core',
+    networkFee: 0,
+    validateDestination: validateEvmAddress,
+    send: ({ destination, amount, nonce }) => depositUsdcToHyperliquid(destination, amount, nonce)
+  },
+  arbitrum: {
+    id: 'arbitrum',
+    label: config.network.bridgeChainName,
+    source: 'core',
+    networkFee: config.arbitrumWithdrawFeeUsd,
+    validateDestination: validateEvmAddress,
+    send: ({ destination, amount, nonce }) => withdrawUsdcToArbitrum(destination, amount, config.arbitrumWithdrawFeeUsd, nonce)
+  },
+  hyperevm: {
+    id: 'hyperevm',
+    label: 'HyperEVM',
+    source: 'evm',
+    networkFee: 0,
+    validateDestination: address => validateEvmAddress(address)
+      || (SYSTEM_ADDRESS_PATTERN.test(address) ? 'Cannot pay out to a HyperCore system address' : undefined),
+    send: ({ destination, amount, preparedTx, savePreparedTx }) =>
+      sendHyperEvmUsdc(destination, amount, preparedTx, savePreparedTx)
+  }
+};
+
+/**
+ * The payout rails enabled by PAYOUT_RAILS, in that order
+ */
+export function getPayoutRails(): PayoutRail[] {
+  return (config.payoutRails as PayoutRailId[]).map(id => PAYOUT_RAILS[id]);
+}
+
+/**
+ * Get an enabled payout rail
+ */
+export function getEnabledPayoutRail(id: string): PayoutRail | undefined {
+  return getPayoutRails().find(rail => rail.id === id);
+}
+
+/**
+ * Get the rail a payout was booked on, enabled or not
+ * Payouts from before rails existed went to Hyperliquid.
+ */
+export function getPayoutRail(id?: PayoutRailId): PayoutRail {
+  return PAYOUT_RAILS[id || 'hyperliquid'];
+}
+
+/**
+ * Read the USDC balance of a funding source
+ */
+export async function getFundingSourceBalance(source: FundingSource): Promise<number> {
+  if (source === 'evm') {
+    return getHyperEvmUsdcBalance();
+  }
+
+  return (await getHyperliquidBalance()).usdBalance;
+}
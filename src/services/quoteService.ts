@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import config from '../config/config';
+import { PayoutRailId, SpotDelivery } from '../repositories/transactionRepository';
+import { FeeBreakdown } from './feeService';
+
+// Prefix of quote IDs
+const QUOTE_ID_PREFIX = 'qt_';
+
+// A price we promised a customer
+export interface Quote {
+  id: string;
+  // Set if the quote was requested for a specific wallet; it is then only valid for that wallet
+  walletAddress?: string;
+  // Where the USDC is delivered; its network fee is in the fees
+  payoutRail: PayoutRailId;
+  // Set if the customer is buying a spot token; the token amount is locked in with the fees
+  spotDelivery?: SpotDelivery;
+  fees: FeeBreakdown;
+  expiresAt: Date;
+}
+
+// Result of reading a quote ID
+export interface QuoteCheck {
+  quote?: Quote;
+  // Why the quote cannot be used
+  error?: string;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', config.quoteSigningSecret).update(payload).digest('base64url');
+}
+
+/**
+ * Issue a quote ID for a priced onramp
+ * The ID carries the whole quote and is signed, so nothing is stored and it cannot be altered.
+ */
+export function createQuote(
+  fees: FeeBreakdown,
+  payoutRail: PayoutRailId,
+  walletAddress?: string,
+  spotDelivery?: SpotDelivery
+): Quote {
+  const expiresAt = new Date(Date.now() + config.quoteTtlSeconds * 1000);
+
+  const payload = Buffer.from(JSON.stringify({
+    walletAddress: walletAddress?.toLowerCase(),
+    payoutRail,
+    spotDelivery,
+    fees,
+    expiresAt: expiresAt.getTime(),
+    nonce: crypto.randomBytes(8).toString('hex')
+  })).toString('base64url');
+
+  return {
+    id: `${QUOTE_ID_PREFIX}${payload}.${sign(payload)}`,
+    walletAddress: walletAddress?.toLowerCase(),
+    payoutRail,
+    spotDelivery,
+    fees,
+    expiresAt
+  };
+}
+
+/**
+ * Verify a quote ID and read the quote back
+ * @param walletAddress The wallet the checkout is for, checked against a wallet-bound quote
+ */
+export function readQuote(quoteId: string, walletAddress: string): QuoteCheck {
+  if (!quoteId.startsWith(QUOTE_ID_PREFIX)) {
+    return { error: 'Invalid quote ID' };
+  }
+
+  const [payload, signature] = quoteId.substring(QUOTE_ID_PREFIX.length).split('.');
+  const expected = payload ? sign(payload) : '';
+
+  if (
+    !signature ||
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return { error: 'Invalid quote ID' };
+  }
+
+  const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  const quote: Quote = {
+    id: quoteId,
+    walletAddress: data.walletAddress,
+    payoutRail: data.payoutRail || 'hyperliquid',
+    spotDelivery: data.spotDelivery,
+    fees: data.fees,
+    expiresAt: new Date(data.expiresAt)
+  };
+
+  if (quote.expiresAt.getTime() <= Date.now()) {
+    return { error: 'Quote has expired, please request a new one' };
+  }
+
+  if (quote.walletAddress && quote.walletAddress !== walletAddress.toLowerCase()) {
+    return { error: 'Quote was issued for a different wallet address' };
+  }
+
+  return { quote };
+}
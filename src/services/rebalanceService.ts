@@ -0,0 +1,188 @@
+import crypto from 'crypto';
+import config from '../config/config';
+import { TopUp, TopUpSource, topUpRepository } from '../repositories/topUpRepository';
+import { getHyperliquidBalance, usdSendToHotWallet, withdrawFromSubAccount } from './hyperliquidService';
+import { recordTopUp } from './ledgerService';
+import { sendAlert } from './notifierService';
+import { LocalKeySigner } from './signerService';
+
+// Window the daily top-up cap applies to
+const CAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Whether a rebalance is under way, so a slow one is not overlapped by the next tick
+let running = false;
+
+// When we last said the daily cap stopped a top-up
+let capAlertSentAt: number | undefined;
+
+function roundDownCents(value: number): number {
+  return Math.floor(value * 100 + 1e-9) / 100;
+}
+
+/**
+ * The address top-ups come from
+ */
+function getTreasuryAddress(source: TopUpSource): string {
+  return source === 'subaccount'
+    ? config.rebalanceSubAccountAddress
+    : new LocalKeySigner(config.rebalanceTreasuryPrivateKey).address;
+}
+
+/**
+ * Move USDC from the treasury source into the hot wallet
+ */
+async function transferFromTreasury(source: TopUpSource, amount: number, nonce: number): Promise<void> {
+  if (source === 'subaccount') {
+    await withdrawFromSubAccount(config.rebalanceSubAccountAddress, amount, nonce);
+  } else {
+    await usdSendToHotWallet(new LocalKeySigner(config.rebalanceTreasuryPrivateKey), amount, nonce);
+  }
+}
+
+/**
+ * Add up what was topped up within the cap window
+ * Pending top-ups count, since they may have gone through. In dry-run mode the dry runs count instead,
+ * so the log shows what the cap would have allowed.
+ */
+async function getToppedUpAmount(now: number): Promise<number> {
+  const counted = config.rebalanceDryRun ? ['dry_run'] : ['pending', 'completed'];
+  const topUps = await topUpRepository.list(new Date(now - CAP_WINDOW_MS));
+
+  return topUps
+    .filter(topUp => counted.includes(topUp.status))
+    .reduce((total, topUp) => total + topUp.amount, 0);
+}
+
+/**
+ * List recorded top-ups, newest first
+ * @param limit Most to return
+ */
+export async function listTopUps(limit?: number): Promise<TopUp[]> {
+  const topUps = await topUpRepository.list();
+  return limit ? topUps.slice(0, limit) : topUps;
+}
+
+/**
+ * Top the hot wallet up to REBALANCE_HIGH_WATER_USD if its Hyperliquid balance is below REBALANCE_LOW_WATER_USD
+ * The amount is limited by what is left of REBALANCE_DAILY_CAP_USD. Every top-up is recorded,
+ * including dry runs and failed transfers; a failed transfer is alerted on and tried again next time.
+ * @returns The top-up, if one was due
+ */
+export async function rebalanceHotWallet(): Promise<TopUp | undefined> {
+  const source = config.rebalanceSource as TopUpSource | '';
+
+  if (!source || running) {
+    return undefined;
+  }
+
+  running = true;
+
+  try {
+    const { usdBalance } = await getHyperliquidBalance();
+
+    if (usdBalance >= config.rebalanceLowWaterUsd) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const needed = config.rebalanceHighWaterUsd - usdBalance;
+    const capLeft = config.rebalanceDailyCapUsd - await getToppedUpAmount(now);
+    const amount = roundDownCents(Math.min(needed, capLeft));
+
+    if (amount <= 0) {
+      console.warn(`⚠️ Hot wallet at ${usdBalance} USDC but the daily top-up cap of ${config.rebalanceDailyCapUsd} USDC is used up`);
+
+      if (!capAlertSentAt || now - capAlertSentAt >= config.treasuryAlertRepeatMinutes * 60 * 1000) {
+        capAlertSentAt = now;
+        await sendAlert({
+          severity: 'warning',
+          title: 'Hot wallet top-up capped',
+          message: `The hot wallet is at ${usdBalance.toFixed(2)} USDC and the daily top-up cap is used up; move USDC by hand`,
+          details: { balance: `${usdBalance.toFixed(2)} USDC`, dailyCap: `${config.rebalanceDailyCapUsd} USDC` },
+          createdAt: new Date(now)
+        });
+      }
+
+      return undefined;
+    }
+
+    let topUp = await topUpRepository.create({
+      id: `topup_${crypto.randomUUID()}`,
+      source,
+      from: getTreasuryAddress(source),
+      amount,
+      status: config.rebalanceDryRun ? 'dry_run' : 'pending',
+      balanceBefore: usdBalance,
+      lowWaterMark: config.rebalanceLowWaterUsd,
+      highWaterMark: config.rebalanceHighWaterUsd,
+      nonce: now,
+      createdAt: new Date(now),
+      updatedAt: new Date(now)
+    });
+
+    if (config.rebalanceDryRun) {
+      console.log(`🧪 Dry run: would top up the hot wallet with ${amount} USDC from ${topUp.from} (balance ${usdBalance} USDC)`);
+      return topUp;
+    }
+
+    const details = {
+      from: topUp.from,
+      amount: `${amount.toFixed(2)} USDC`,
+      balanceBefore: `${usdBalance.toFixed(2)} USDC`,
+      ...(amount < roundDownCents(needed) ? { cappedFrom: `${roundDownCents(needed).toFixed(2)} USDC` } : {})
+    };
+
+    try {
+      await transferFromTreasury(source, amount, now);
+      topUp = await topUpRepository.update(topUp.id, { status: 'completed' }) || topUp;
+      console.log(`✅ Topped up the hot wallet with ${amount} USDC from ${topUp.from}`);
+
+      await recordTopUp(topUp)
+        .catch(error => console.error(`❌ Could not record top-up ${topUp.id} in the ledger:`, error));
+
+      await sendAlert({
+        severity: 'info',
+        title: 'Hot wallet topped up',
+        message: `Moved ${amount.toFixed(2)} USDC into the hot wallet`,
+        details,
+        createdAt: new Date()
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      topUp = await topUpRepository.update(topUp.id, { status: 'failed', error: message }) || topUp;
+      console.error('❌ Hot wallet top-up failed:', message);
+
+      await sendAlert({
+        severity: 'critical',
+        title: 'Hot wallet top-up failed',
+        message,
+        details,
+        createdAt: new Date()
+      });
+    }
+
+    return topUp;
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Start topping up the hot wallet on a schedule, if REBALANCE_SOURCE is set
+ * @returns A function that stops the rebalancer
+ */
+export function startRebalancer(): () => void {
+  if (!config.rebalanceSource) {
+    return () => {};
+  }
+
+  const timer = setInterval(() => {
+    rebalanceHotWallet().catch(error => console.error('❌ Rebalancer error:', error));
+  }, config.rebalanceIntervalSeconds * 1000);
+
+  console.log(
+    `⚖️ Rebalancer topping up below ${config.rebalanceLowWaterUsd} USDC from ${config.rebalanceSource}` +
+    `${config.rebalanceDryRun ? ' (dry run)' : ''}, checking every ${config.rebalanceIntervalSeconds}s`
+  );
+  return () => clearInterval(timer);
+}
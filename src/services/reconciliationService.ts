@@ -0,0 +1,559 @@
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+import config from '../config/config';
+import { LedgerEntry } from '../repositories/ledgerRepository';
+import { PendingTransaction } from '../repositories/transactionRepository';
+import { LedgerUpdate } from './hyperliquidClient';
+import { LedgerSend, findMatchingSend, toLedgerSend } from './confirmationService';
+import { getHotWalletAddress, getLedgerUpdates } from './hyperliquidService';
+import { listLedgerEntries } from './ledgerService';
+import { sendAlert } from './notifierService';
+import { getAllPendingTransactions, isRefundState } from './onrampService';
+import { stripe } from './stripeService';
+
+// Most entries Hyperliquid returns for one ledger request; a full page means there may be more
+const LEDGER_PAGE_SIZE = 2000;
+
+// Tolerance when comparing USDC (or spot token) amounts
+const AMOUNT_EPSILON = 0.000001;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Kinds of discrepancy the reconciliation reports
+export type ReconciliationCategory = 'paid_but_unsent' | 'sent_but_unpaid' | 'amount_mismatch' | 'orphaned_refund';
+
+// One discrepancy between Stripe, our records and the Hyperliquid ledger
+export interface ReconciliationIssue {
+  category: ReconciliationCategory;
+  stripeSessionId?: string;
+  paymentIntentId?: string;
+  refundId?: string;
+  walletAddress?: string;
+  // Hyperliquid ledger hash of the send
+  hash?: string;
+  // What our records say and what Stripe or Hyperliquid shows: USD for charges, USDC (or spot tokens) for sends
+  expected?: number;
+  actual?: number;
+  detail: string;
+}
+
+// Result of reconciling a date range
+export interface ReconciliationReport {
+  from: string;
+  to: string;
+  generatedAt: string;
+  hotWallet: string;
+  summary: {
+    // Checkout sessions created in the range and paid
+    paidSessions: number;
+    // Stripe charge and refund balance transactions in the range
+    charges: number;
+    refunds: number;
+    // Sends out of the hot wallet in the range, and paid sessions matched to a send
+    sends: number;
+    matched: number;
+    issues: Record<ReconciliationCategory, number>;
+  };
+  issues: ReconciliationIssue[];
+}
+
+// A transfer out of the hot wallet, with the token it moved and the ledger update it was read from
+interface OutgoingSend extends LedgerSend {
+  token: string;
+  update: LedgerUpdate;
+}
+
+// Columns of the CSV report, in order
+const CSV_COLUMNS: Array<keyof ReconciliationIssue> = [
+  'category',
+  'stripeSessionId',
+  'paymentIntentId',
+  'refundId',
+  'walletAddress',
+  'hash',
+  'expected',
+  'actual',
+  'detail'
+];
+
+function toUnixSeconds(date: Date): number {
+  return Math.floor(date.getTime() / 1000);
+}
+
+function toId(value: string | { id: string } | null | undefined): string | undefined {
+  return typeof value === 'string' ? value : value?.id;
+}
+
+/**
+ * List the checkout sessions created in a range that were paid
+ */
+async function listPaidSessions(from: Date, to: Date): Promise<Stripe.Checkout.Session[]> {
+  const sessions: Stripe.Checkout.Session[] = [];
+
+  for await (const session of stripe.checkout.sessions.list({
+    created: { gte: toUnixSeconds(from), lt: toUnixSeconds(to) },
+    limit: 100
+  })) {
+    if (session.payment_status === 'paid') {
+      sessions.push(session);
+    }
+  }
+
+  return sessions;
+}
+
+/**
+ * List the Stripe balance transactions created in a range, with the charge or refund behind each
+ */
+async function listBalanceTransactions(from: Date, to: Date): Promise<Stripe.BalanceTransaction[]> {
+  const transactions: Stripe.BalanceTransaction[] = [];
+
+  for await (const transaction of stripe.balanceTransactions.list({
+    created: { gte: toUnixSeconds(from), lt: toUnixSeconds(to) },
+    limit: 100,
+    expand: ['data.source']
+  })) {
+    transactions.push(transaction);
+  }
+
+  return transactions;
+}
+
+/**
+ * Read every ledger update of a user in a window, a page at a time
+ */
+async function listLedgerUpdates(user: string, startTime: number, endTime: number): Promise<LedgerUpdate[]> {
+  const updates = new Map<string, LedgerUpdate>();
+  let start = startTime;
+
+  for (;;) {
+    const page = await getLedgerUpdates(user, start, endTime);
+    const fresh = page.filter(update => !updates.has(`${update.hash}:${update.delta.type}`));
+
+    fresh.forEach(update => updates.set(`${update.hash}:${update.delta.type}`, update));
+
+    if (page.length < LEDGER_PAGE_SIZE || fresh.length === 0) {
+      break;
+    }
+
+    start = Math.max(...page.map(update => update.time));
+  }
+
+  return Array.from(updates.values()).sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Read a transfer out of the hot wallet from a ledger update, if it is one
+ * Withdrawals to Arbitrum have no destination on Hyperliquid.
+ */
+function toOutgoingSend(update: LedgerUpdate, hotWallet: string): OutgoingSend | undefined {
+  const delta = update.delta;
+
+  if (delta.type === 'withdraw') {
+    return {
+      hash: update.hash,
+      time: update.time,
+      from: hotWallet,
+      destination: '',
+      amount: parseFloat(delta.usdc),
+      nonce: typeof delta.nonce === 'number' ? delta.nonce : undefined,
+      token: 'USDC',
+      update
+    };
+  }
+
+  const token = delta.type === 'internalTransfer' ? 'USDC' : delta.token || 'USDC';
+  const send = toLedgerSend(update, token);
+
+  return send && send.from.toLowerCase() === hotWallet.toLowerCase() ? { ...send, token, update } : undefined;
+}
+
+/**
+ * Whether our records show a session's USDC as sent
+ */
+function isRecordedAsSent(tx: PendingTransaction | undefined, ledger: Map<string, LedgerEntry>, sessionId: string): boolean {
+  return tx?.status === 'completed' || tx?.status === 'confirmed' || ledger.has(`disbursement:${sessionId}`);
+}
+
+/**
+ * Whether our records show a session's payment as refunded (or being refunded)
+ */
+function isRecordedAsRefunded(tx: PendingTransaction | undefined, ledger: Map<string, LedgerEntry>, sessionId: string): boolean {
+  return (!!tx && isRefundState(tx.status)) || ledger.has(`refund:${sessionId}`);
+}
+
+/**
+ * Match the paid Stripe checkout sessions and the Stripe balance transactions created in a range against
+ * our stored transactions, our ledger and the hot wallet's Hyperliquid ledger
+ * Payouts are looked for up to RECONCILIATION_SETTLEMENT_HOURS after the range; sends are only reported
+ * as unpaid when they fall inside it.
+ * @param from Start of the range
+ * @param to End of the range (exclusive)
+ */
+export async function reconcile(from: Date, to: Date): Promise<ReconciliationReport> {
+  const hotWallet = getHotWalletAddress();
+  const issues: ReconciliationIssue[] = [];
+
+  const sessions = await listPaidSessions(from, to);
+  const balanceTransactions = await listBalanceTransactions(from, to);
+  const transactions = await getAllPendingTransactions();
+  const ledger = new Map((await listLedgerEntries()).map(entry => [entry.id, entry]));
+  const sendsUntil = Math.min(Date.now(), to.getTime() + config.reconciliationSettlementHours * 60 * 60 * 1000);
+  const sends = (await listLedgerUpdates(hotWallet, from.getTime(), sendsUntil))
+    .map(update => toOutgoingSend(update, hotWallet))
+    .filter((send): send is OutgoingSend => !!send);
+
+  const txBySession = new Map(transactions.map(tx => [tx.stripeSessionId, tx]));
+  const sessionByPaymentIntent = new Map<string, string>();
+
+  for (const tx of transactions) {
+    if (tx.paymentIntentId) {
+      sessionByPaymentIntent.set(tx.paymentIntentId, tx.stripeSessionId);
+    }
+  }
+
+  for (const session of sessions) {
+    const paymentIntentId = toId(session.payment_intent);
+
+    if (paymentIntentId) {
+      sessionByPaymentIntent.set(paymentIntentId, session.id);
+    }
+  }
+
+  /**
+   * Find the checkout session a payment intent belongs to, asking Stripe if our records do not know it
+   */
+  const findSessionId = async (paymentIntentId: string | undefined): Promise<string | undefined> => {
+    if (!paymentIntentId) {
+      return undefined;
+    }
+
+    if (!sessionByPaymentIntent.has(paymentIntentId)) {
+      const { data } = await stripe.checkout.sessions.list({ payment_intent: paymentIntentId, limit: 1 });
+
+      if (data[0]) {
+        sessionByPaymentIntent.set(paymentIntentId, data[0].id);
+      }
+    }
+
+    return sessionByPaymentIntent.get(paymentIntentId);
+  };
+
+  // Payment intents Stripe refunded within the range
+  const refundedPaymentIntents = new Set(
+    balanceTransactions
+      .filter(bt => bt.type === 'refund' || bt.type === 'payment_refund')
+      .map(bt => toId((bt.source as Stripe.Refund | null)?.payment_intent))
+      .filter((id): id is string => !!id)
+  );
+
+  const usedHashes = new Set<string>();
+  let matched = 0;
+
+  // Every paid session should have exactly one send of the amount it paid for, unless it was refunded
+  for (const session of sessions) {
+    const tx = txBySession.get(session.id);
+    const paymentIntentId = toId(session.payment_intent);
+    const walletAddress = session.metadata?.walletAddress || tx?.walletAddress || '';
+    const token = session.metadata?.spotToken || 'USDC';
+    const expected = token === 'USDC'
+      ? parseFloat(session.metadata?.baseAmount || '0')
+      : parseFloat(session.metadata?.spotAmount || '0');
+    const createdAt = session.created * 1000;
+    const unused = sends.filter(send => !usedHashes.has(send.hash));
+    const byHash = (hash: string | undefined) => hash ? unused.find(send => send.hash === hash) : undefined;
+
+    const ledgerMatch = tx && tx.payoutNonce !== undefined
+      ? findMatchingSend(tx, hotWallet, unused.map(send => send.update), new Set())
+      : undefined;
+    const toWallet = unused.filter(send =>
+      send.token === token && send.time >= createdAt && send.destination.toLowerCase() === walletAddress.toLowerCase()
+    );
+
+    const send = byHash(tx?.txHash)
+      || byHash(ledgerMatch?.hash)
+      || byHash(ledger.get(`disbursement:${session.id}`)?.reference)
+      || toWallet.find(candidate => Math.abs(candidate.amount - expected) < AMOUNT_EPSILON)
+      || toWallet[0];
+
+    if (send) {
+      usedHashes.add(send.hash);
+      matched++;
+
+      if (Math.abs(send.amount - expected) >= AMOUNT_EPSILON) {
+        issues.push({
+          category: 'amount_mismatch',
+          stripeSessionId: session.id,
+          paymentIntentId,
+          walletAddress,
+          hash: send.hash,
+          expected,
+          actual: send.amount,
+          detail: `Sent ${send.amount} ${send.token} for a checkout paid for ${expected} ${token}`
+        });
+      }
+
+      continue;
+    }
+
+    // HyperEVM payouts are not in the Hyperliquid ledger; their mined transaction hash is stored instead
+    if (tx?.payoutRail === 'hyperevm' && tx.status === 'confirmed' && tx.txHash) {
+      matched++;
+      continue;
+    }
+
+    if ((paymentIntentId && refundedPaymentIntents.has(paymentIntentId)) || isRecordedAsRefunded(tx, ledger, session.id)) {
+      continue;
+    }
+
+    issues.push({
+      category: 'paid_but_unsent',
+      stripeSessionId: session.id,
+      paymentIntentId,
+      walletAddress,
+      expected,
+      detail: tx
+        ? `Paid, no send found in the Hyperliquid ledger; transaction is ${tx.status}${tx.error ? ` (${tx.error})` : ''}`
+        : 'Paid, no transaction recorded and no send found in the Hyperliquid ledger'
+    });
+  }
+
+  // Sends in the range no paid session accounts for
+  const knownHashes = new Map<string, string>();
+
+  for (const tx of transactions) {
+    if (tx.txHash) {
+      knownHashes.set(tx.txHash, tx.stripeSessionId);
+    }
+  }
+
+  for (const entry of ledger.values()) {
+    if (entry.kind === 'disbursement' && entry.reference && entry.stripeSessionId) {
+      knownHashes.set(entry.reference, entry.stripeSessionId);
+    }
+  }
+
+  const sendsInRange = sends.filter(send => send.time < to.getTime());
+
+  for (const send of sendsInRange.filter(candidate => !usedHashes.has(candidate.hash))) {
+    const unconfirmed = transactions.find(tx =>
+      tx.status === 'completed' && !!findMatchingSend(tx, hotWallet, [send.update], new Set())
+    );
+    const sessionId = knownHashes.get(send.hash) || unconfirmed?.stripeSessionId;
+    const session = sessionId && !sessions.some(paid => paid.id === sessionId)
+      ? await stripe.checkout.sessions.retrieve(sessionId)
+      : undefined;
+
+    // Paid for by a session from before the range
+    if (session?.payment_status === 'paid') {
+      continue;
+    }
+
+    issues.push({
+      category: 'sent_but_unpaid',
+      stripeSessionId: sessionId,
+      walletAddress: send.destination || undefined,
+      hash: send.hash,
+      actual: send.amount,
+      detail: sessionId
+        ? `Sent ${send.amount} ${send.token} for session ${sessionId}, which ${session ? 'is not paid' : 'was already matched to another send'}`
+        : `Sent ${send.amount} ${send.token}${send.destination ? ` to ${send.destination}` : ' (withdrawal)'} with no paid checkout session behind it`
+    });
+  }
+
+  // Stripe charges against what we booked, and refunds we cannot account for
+  let charges = 0;
+  let refunds = 0;
+
+  for (const bt of balanceTransactions) {
+    if (bt.type === 'charge' || bt.type === 'payment') {
+      charges++;
+
+      const paymentIntentId = toId((bt.source as Stripe.Charge | null)?.payment_intent);
+      const sessionId = await findSessionId(paymentIntentId);
+      const booked = sessionId ? ledger.get(`charge:${sessionId}`) : undefined;
+      const bookedCents = booked?.lines
+        .filter(line => line.account === 'stripe_balance' && line.side === 'debit')
+        .reduce((total, line) => total + line.amountCents, 0);
+
+      if (bookedCents !== undefined && bt.currency === 'usd' && bt.amount !== bookedCents) {
+        issues.push({
+          category: 'amount_mismatch',
+          stripeSessionId: sessionId,
+          paymentIntentId,
+          expected: bookedCents / 100,
+          actual: bt.amount / 100,
+          detail: `Stripe charged ${(bt.amount / 100).toFixed(2)} USD, the ledger booked ${(bookedCents / 100).toFixed(2)} USD`
+        });
+      }
+
+      continue;
+    }
+
+    if (bt.type !== 'refund' && bt.type !== 'payment_refund') {
+      continue;
+    }
+
+    refunds++;
+
+    const refund = bt.source as Stripe.Refund | null;
+    const refundId = refund?.id || toId(bt.source);
+    const paymentIntentId = toId(refund?.payment_intent);
+    const sessionId = await findSessionId(paymentIntentId);
+    const tx = sessionId ? txBySession.get(sessionId) : undefined;
+    const amount = -bt.amount / 100;
+    let detail: string | undefined;
+
+    if (!sessionId) {
+      detail = 'Refund of a payment with no checkout session';
+    } else if (isRecordedAsSent(tx, ledger, sessionId) || sends.some(send => knownHashes.get(send.hash) === sessionId)) {
+      detail = 'Refunded though the USDC for it was sent';
+    } else if (!isRecordedAsRefunded(tx, ledger, sessionId)) {
+      detail = tx ? `Refund not recorded; transaction is ${tx.status}` : 'Refund not recorded and the session has no transaction';
+    }
+
+    if (detail) {
+      issues.push({
+        category: 'orphaned_refund',
+        stripeSessionId: sessionId,
+        paymentIntentId,
+        refundId,
+        actual: amount,
+        detail
+      });
+    }
+  }
+
+  const counts: Record<ReconciliationCategory, number> = {
+    paid_but_unsent: 0,
+    sent_but_unpaid: 0,
+    amount_mismatch: 0,
+    orphaned_refund: 0
+  };
+  issues.forEach(issue => counts[issue.category]++);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    generatedAt: new Date().toISOString(),
+    hotWallet,
+    summary: {
+      paidSessions: sessions.length,
+      charges,
+      refunds,
+      sends: sendsInRange.length,
+      matched,
+      issues: counts
+    },
+    issues
+  };
+}
+
+/**
+ * Write a report's issues as CSV, one row per issue
+ */
+export function toCsv(report: ReconciliationReport): string {
+  const escape = (value: unknown): string => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    CSV_COLUMNS.join(','),
+    ...report.issues.map(issue => CSV_COLUMNS.map(column => escape(issue[column])).join(','))
+  ].join('\n') + '\n';
+}
+
+/**
+ * Write a report as JSON and CSV
+ * @param dir Directory to write to (RECONCILIATION_REPORT_DIR, or DATA_DIR/reports, by default)
+ * @returns Paths of the two files
+ */
+export async function writeReconciliationReport(
+  report: ReconciliationReport,
+  dir: string = config.reconciliationReportDir || path.join(config.dataDir, 'reports')
+): Promise<{ jsonPath: string; csvPath: string }> {
+  const name = `reconciliation-${report.from.slice(0, 10)}_${report.to.slice(0, 10)}`;
+  const jsonPath = path.join(dir, `${name}.json`);
+  const csvPath = path.join(dir, `${name}.csv`);
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  await fs.promises.writeFile(jsonPath, JSON.stringify(report, null, 2));
+  await fs.promises.writeFile(csvPath, toCsv(report));
+
+  return { jsonPath, csvPath };
+}
+
+/**
+ * Get the start of a UTC day
+ */
+export function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Reconcile the previous UTC day, write the report and alert if anything does not match
+ */
+export async function runDailyReconciliation(now: Date = new Date()): Promise<ReconciliationReport> {
+  const to = startOfUtcDay(now);
+  const from = new Date(to.getTime() - DAY_MS);
+  const report = await reconcile(from, to);
+  const { jsonPath, csvPath } = await writeReconciliationReport(report);
+
+  if (report.issues.length === 0) {
+    console.log(`🧾 Reconciled ${report.from.slice(0, 10)}: ${report.summary.matched} payouts matched, no issues`);
+    return report;
+  }
+
+  console.warn(`⚠️ Reconciliation of ${report.from.slice(0, 10)} found ${report.issues.length} issues, see ${jsonPath}`);
+  await sendAlert({
+    severity: 'warning',
+    title: 'Reconciliation found discrepancies',
+    message: `${report.issues.length} discrepancies between Stripe, our records and Hyperliquid on ${report.from.slice(0, 10)}`,
+    details: {
+      paidButUnsent: report.summary.issues.paid_but_unsent,
+      sentButUnpaid: report.summary.issues.sent_but_unpaid,
+      amountMismatches: report.summary.issues.amount_mismatch,
+      orphanedRefunds: report.summary.issues.orphaned_refund,
+      report: jsonPath,
+      csv: csvPath
+    },
+    createdAt: new Date()
+  });
+
+  return report;
+}
+
+/**
+ * Reconcile the previous day every day at RECONCILIATION_HOUR_UTC, unless it is empty
+ * @returns A function that stops the schedule
+ */
+export function startReconciliationScheduler(): () => void {
+  if (!config.reconciliationHourUtc) {
+    return () => {};
+  }
+
+  const hour = parseInt(config.reconciliationHourUtc, 10);
+  let timer: NodeJS.Timeout | undefined;
+
+  const scheduleNext = () => {
+    const now = new Date();
+    let next = startOfUtcDay(now).getTime() + hour * 60 * 60 * 1000;
+
+    if (next <= now.getTime()) {
+      next += DAY_MS;
+    }
+
+    timer = setTimeout(() => {
+      runDailyReconciliation()
+        .catch(error => console.error('❌ Reconciliation error:', error))
+        .finally(scheduleNext);
+    }, next - now.getTime());
+  };
+
+  scheduleNext();
+
+  console.log(`🧾 Reconciling the previous day daily at ${String(hour).padStart(2, '0')}:00 UTC`);
+  return () => clearTimeout(timer);
+}
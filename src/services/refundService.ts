@@ -0,0 +1,158 @@
+import Stripe from 'stripe';
+import { PendingTransaction, TransactionState } from '../repositories/transactionRepository';
+import {
+  getPendingTransactionByPaymentIntentId,
+  getPendingTransactionByRefundId,
+  getPendingTransactionBySessionId,
+  updatePendingTransaction
+} from './onrampService';
+import { refundPaymentIntent } from './stripeService';
+import { recordRefund } from './ledgerService';
+
+/**
+ * Map a Stripe refund status onto our transaction states
+ */
+function stateForRefundStatus(status: string | null): TransactionState {
+  switch (status) {
+    case 'succeeded':
+      return 'refunded';
+    case 'failed':
+    case 'canceled':
+      return 'refund_failed';
+    default:
+      // 'pending' and 'requires_action'
+      return 'refund_pending';
+  }
+}
+
+/**
+ * Book a completed refund in the ledger
+ * The money has gone back either way, so a ledger failure is only reported.
+ */
+async function bookRefund(tx: PendingTransaction, refundId?: string): Promise<void> {
+  await recordRefund(tx.stripeSessionId, refundId)
+    .catch(error => console.error(`❌ Could not record the refund for session ${tx.stripeSessionId} in the ledger:`, error));
+}
+
+/**
+ * Apply a refund's current status to its transaction
+ */
+async function applyRefundStatus(tx: PendingTransaction, refund: Stripe.Refund): Promise<PendingTransaction | undefined> {
+  const status = stateForRefundStatus(refund.status);
+
+  if (status === 'refunded') {
+    await bookRefund(tx, refund.id);
+  }
+
+  return updatePendingTransaction(tx.id, {
+    status,
+    refundId: refund.id,
+    refundError: status === 'refund_failed' ? refund.failure_reason || `Refund ${refund.status}` : undefined,
+    refundedAt: status === 'refunded' ? new Date() : undefined
+  });
+}
+
+/**
+ * Refund the customer for a transaction's Stripe payment
+ * The transaction moves to refund_pending first, then follows the refund's status;
+ * a refund Stripe rejects leaves it in refund_failed with the error recorded.
+ * @param sessionId The Stripe checkout session of the transaction
+ * @param paymentIntentId The payment intent to refund
+ * @param reason Why we are refunding, stored on the transaction
+ */
+export async function refundTransaction(
+  sessionId: string,
+  paymentIntentId: string,
+  reason: string
+): Promise<PendingTransaction | undefined> {
+  const tx = await getPendingTransactionBySessionId(sessionId);
+
+  if (tx && (tx.status === 'refund_pending' || tx.status === 'refunded')) {
+    console.log(`ℹ️ Transaction ${tx.id} is already ${tx.status}, not refunding again`);
+    return tx;
+  }
+
+  if (tx) {
+    await updatePendingTransaction(tx.id, {
+      status: 'refund_pending',
+      paymentIntentId,
+      refundReason: reason,
+      refundError: undefined
+    });
+  }
+
+  try {
+    const refund = await refundPaymentIntent(paymentIntentId, {
+      stripeSessionId: sessionId,
+      ...(tx ? { transactionId: tx.id } : {})
+    });
+
+    return tx ? applyRefundStatus(tx, refund) : undefined;
+  } catch (error) {
+    console.error('❌ Error issuing refund:', error);
+
+    if (!tx) {
+      return undefined;
+    }
+
+    return updatePendingTransaction(tx.id, {
+      status: 'refund_failed',
+      refundError: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+/**
+ * Handle a refund.updated or refund.failed webhook event
+ */
+export async function handleRefundEvent(refund: Stripe.Refund): Promise<void> {
+  const paymentIntentId = typeof refund.payment_intent === 'string'
+    ? refund.payment_intent
+    : refund.payment_intent?.id;
+
+  const tx = (await getPendingTransactionByRefundId(refund.id)) ||
+    (paymentIntentId ? await getPendingTransactionByPaymentIntentId(paymentIntentId) : undefined);
+
+  if (!tx) {
+    console.log(`ℹ️ No transaction found for refund ${refund.id}`);
+    return;
+  }
+
+  const updated = await applyRefundStatus(tx, refund);
+  console.log(`💸 Refund ${refund.id} is ${refund.status}; transaction ${tx.id} now ${updated?.status}`);
+}
+
+/**
+ * Handle a charge.refunded webhook event
+ * Only a full refund settles the transaction; partial refunds are logged
+ */
+export async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    console.log(`ℹ️ Refunded charge ${charge.id} has no payment intent`);
+    return;
+  }
+
+  const tx = await getPendingTransactionByPaymentIntentId(paymentIntentId);
+
+  if (!tx) {
+    console.log(`ℹ️ No transaction found for refunded charge ${charge.id}`);
+    return;
+  }
+
+  if (!charge.refunded) {
+    console.log(`ℹ️ Charge ${charge.id} partially refunded (${charge.amount_refunded} of ${charge.amount})`);
+    return;
+  }
+
+  await updatePendingTransaction(tx.id, {
+    status: 'refunded',
+    refundError: undefined,
+    refundedAt: tx.refundedAt || new Date()
+  });
+  await bookRefund(tx, tx.refundId);
+  console.log(`💸 Charge ${charge.id} fully refunded; transaction ${tx.id} now refunded`);
+}
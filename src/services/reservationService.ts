@@ -0,0 +1,156 @@
+import config from '../config/config';
+import {
+  FundingSource,
+  Reservation,
+  ReservationRepository,
+  isReservationActive,
+  reservationRepository
+} from '../repositories/reservationRepository';
+import { getWalletBalance } from './onrampService';
+
+// Repository holding the reservations (swappable for tests)
+let repository: ReservationRepository = reservationRepository;
+
+/**
+ * Replace the reservation repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setReservationRepository(repo: ReservationRepository): void {
+  repository = repo;
+}
+
+// Result of trying to reserve capacity for a checkout
+export interface ReserveResult {
+  reservation?: Reservation;
+  // What was still available when the reservation was refused
+  availableForOnramp?: number;
+}
+
+/**
+ * Reserve hot-wallet capacity for a checkout that is about to be created
+ * Capacity is reserved on the funding source the payout will be paid from (the Hyperliquid account by default).
+ * The reservation lasts as long as the Stripe session (CHECKOUT_SESSION_TTL_MINUTES).
+ * If the balance cannot be read we still record the reservation, without a capacity limit,
+ * and rely on the check at payout time.
+ */
+export async function reserveCapacity(
+  walletAddress: string,
+  amount: number,
+  fundingSource: FundingSource = 'core'
+): Promise<ReserveResult> {
+  let capacity = Infinity;
+  let availableForOnramp: number | undefined;
+
+  try {
+    // Capacity left for reservations once all payouts we owe are covered
+    const balanceInfo = await getWalletBalance(fundingSource);
+    capacity = Math.max(0, balanceInfo.balance - (balanceInfo.pendingAmount - balanceInfo.reservedAmount));
+    availableForOnramp = balanceInfo.availableForOnramp;
+  } catch (error) {
+    console.error('Error checking wallet balance:', error);
+  }
+
+  // Two minutes of slack so the session's expires_at, taken from the reservation,
+  // still clears Stripe's 30 minute minimum by the time the session is created
+  const now = new Date();
+  const ttlMs = config.checkoutSessionTtlMinutes * 60 * 1000 + 2 * 60 * 1000;
+  const reservation = await repository.tryReserve(
+    {
+      id: `res_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      walletAddress,
+      amount,
+      fundingSource,
+      status: 'active',
+      expiresAt: new Date(now.getTime() + ttlMs),
+      createdAt: now,
+      updatedAt: now
+    },
+    capacity
+  );
+
+  if (!reservation) {
+    return { availableForOnramp };
+  }
+
+  console.log(`📌 Reserved ${amount} USDC for wallet ${walletAddress} (${reservation.id})`);
+  return { reservation };
+}
+
+/**
+ * Link a reservation to the Stripe session created for it
+ * @param expiresAt When the Stripe session expires; the reservation expires with it
+ */
+export async function attachReservationToSession(
+  reservationId: string,
+  sessionId: string,
+  expiresAt: Date
+): Promise<Reservation | undefined> {
+  return repository.update(reservationId, { stripeSessionId: sessionId, expiresAt });
+}
+
+/**
+ * Turn a session's reservation into a payout
+ * The capacity is from then on accounted for by the transaction itself
+ */
+export async function convertReservation(sessionId: string): Promise<Reservation | undefined> {
+  const reservation = await repository.findBySessionId(sessionId);
+
+  if (!reservation || reservation.status !== 'active') {
+    return reservation;
+  }
+
+  return repository.update(reservation.id, { status: 'converted' });
+}
+
+/**
+ * Give a reservation's capacity back
+ * @param reason Why it was released, e.g. 'expired' or 'cancelled'
+ */
+export async function releaseReservation(reservationId: string, reason: string): Promise<Reservation | undefined> {
+  const reservation = await repository.findById(reservationId);
+
+  if (!reservation || reservation.status !== 'active') {
+    return reservation;
+  }
+
+  console.log(`🔓 Released reservation ${reservationId} (${reason})`);
+  return repository.update(reservationId, { status: 'released', releaseReason: reason });
+}
+
+/**
+ * Release the reservation of a Stripe session, if it still holds capacity
+ */
+export async function releaseSessionReservation(sessionId: string, reason: string): Promise<Reservation | undefined> {
+  const reservation = await repository.findBySessionId(sessionId);
+  return reservation ? releaseReservation(reservation.id, reason) : undefined;
+}
+
+/**
+ * Mark reservations that outlived their session as released
+ * Expired reservations already stop counting on their own; this keeps the store tidy
+ * @returns The number of reservations released
+ */
+export async function releaseExpiredReservations(): Promise<number> {
+  const now = new Date();
+  const expired = (await repository.list()).filter(
+    reservation => reservation.status === 'active' && !isReservationActive(reservation, now)
+  );
+
+  for (const reservation of expired) {
+    await releaseReservation(reservation.id, 'expired');
+  }
+
+  return expired.length;
+}
+
+/**
+ * Start releasing expired reservations on a schedule
+ * @returns A function that stops the sweeper
+ */
+export function startReservationSweeper(): () => void {
+  const timer = setInterval(() => {
+    releaseExpiredReservations().catch(error => console.error('❌ Reservation sweeper error:', error));
+  }, 60 * 1000);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import config from '../config/config';
+import {
+  ScreeningHit,
+  ScreeningHitRepository,
+  screeningHitRepository
+} from '../repositories/screeningHitRepository';
+
+// Repository holding the screening hits (swappable for tests)
+let repository: ScreeningHitRepository = screeningHitRepository;
+
+/**
+ * Replace the screening hit repository
+ * Used by tests to run against the in-memory implementation
+ */
+export function setScreeningHitRepository(repo: ScreeningHitRepository): void {
+  repository = repo;
+}
+
+// An address on one of the screening lists
+export interface ScreeningMatch {
+  address: string;
+  list: string;
+  reason?: string;
+}
+
+// A loaded screening list
+export interface ScreeningListStatus {
+  name: string;
+  path: string;
+  addresses: number;
+  // Lines that were not EVM addresses (lists often cover other chains too)
+  skipped: number;
+  modifiedAt: Date;
+  loadedAt: Date;
+}
+
+// Every listed address, lowercased, and the lists as they were last loaded
+let denylist: Map<string, ScreeningMatch> = new Map();
+let lists: ScreeningListStatus[] = [];
+let loaded = false;
+
+/**
+ * Parse a list file: one address per line, optionally followed by a comma and a reason
+ * Blank lines and lines starting with # are ignored.
+ */
+function parseListFile(filePath: string): { status: ScreeningListStatus; matches: ScreeningMatch[] } {
+  const name = path.basename(filePath);
+  const content = fs.readFileSync(filePath, 'utf8');
+  const matches: ScreeningMatch[] = [];
+  let skipped = 0;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const separator = line.indexOf(',');
+    const address = (separator >= 0 ? line.substring(0, separator) : line).trim();
+    const reason = separator >= 0 ? line.substring(separator + 1).trim() || undefined : undefined;
+
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      skipped++;
+      continue;
+    }
+
+    matches.push({ address: address.toLowerCase(), list: name, reason });
+  }
+
+  return {
+    status: {
+      name,
+      path: filePath,
+      addresses: matches.length,
+      skipped,
+      modifiedAt: fs.statSync(filePath).mtime,
+      loadedAt: new Date()
+    },
+    matches
+  };
+}
+
+/**
+ * Load every configured screening list, replacing the ones in use
+ * Throws if a list cannot be read; the lists in use are then kept as they were.
+ */
+export function reloadScreeningLists(): ScreeningListStatus[] {
+  const nextDenylist: Map<string, ScreeningMatch> = new Map();
+  const nextLists: ScreeningListStatus[] = [];
+
+  for (const listPath of config.screeningListPaths) {
+    const { status, matches } = parseListFile(path.resolve(listPath));
+
+    for (const match of matches) {
+      if (!nextDenylist.has(match.address)) {
+        nextDenylist.set(match.address, match);
+      }
+    }
+
+    nextLists.push(status);
+  }
+
+  denylist = nextDenylist;
+  lists = nextLists;
+  loaded = true;
+
+  if (lists.length === 0) {
+    console.warn('⚠️ No screening lists configured (SCREENING_LIST_PATHS), wallet addresses are not screened');
+  } else {
+    console.log(`🛡️ Loaded ${denylist.size} screened addresses from ${lists.length} list(s)`);
+  }
+  return getScreeningListStatus();
+}
+
+/**
+ * The screening lists in use
+ */
+export function getScreeningListStatus(): ScreeningListStatus[] {
+  return lists.map(list => ({ ...list }));
+}
+
+/**
+ * Look a wallet address up on the screening lists
+ * The lists are loaded on first use; if they cannot be loaded this throws rather than let the address through.
+ */
+export function screenWalletAddress(address: string): ScreeningMatch | undefined {
+  if (!loaded) {
+    reloadScreeningLists();
+  }
+
+  const match = denylist.get(address.toLowerCase());
+  return match ? { ...match } : undefined;
+}
+
+/**
+ * Record a blocked address so operators can see it
+ */
+export async function recordScreeningHit(
+  match: ScreeningMatch,
+  stage: ScreeningHit['stage'],
+  stripeSessionId?: string
+): Promise<ScreeningHit> {
+  console.warn(`🚨 Wallet ${match.address} blocked at ${stage}: listed on ${match.list}${match.reason ? ` (${match.reason})` : ''}`);
+
+  return repository.append({
+    id: `hit_${crypto.randomUUID()}`,
+    address: match.address,
+    list: match.list,
+    reason: match.reason,
+    stage,
+    stripeSessionId,
+    createdAt: new Date()
+  });
+}
+
+/**
+ * List screening hits, newest first
+ */
+export async function listScreeningHits(limit?: number): Promise<ScreeningHit[]> {
+  return repository.list(limit);
+}
+
+/**
+ * Reload the screening lists whenever one of the files changes
+ * @returns A function that stops the reloader
+ */
+export function startScreeningListReloader(): () => void {
+  const timer = setInterval(() => {
+    try {
+      const changed = config.screeningListPaths.length !== lists.length || lists.some(list =>
+        fs.statSync(list.path).mtime.getTime() !== list.modifiedAt.getTime()
+      );
+
+      if (changed) {
+        reloadScreeningLists();
+      }
+    } catch (error) {
+      console.error('❌ Error reloading screening lists, keeping the lists in use:', error);
+    }
+  }, config.screeningReloadIntervalSeconds * 1000);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,242 @@
+import axios from 'axios';
+import fs from 'fs';
+import { ethers, TypedDataDomain, TypedDataField } from 'ethers';
+import config from '../config/config';
+
+// Where the hot wallet's key lives: in WALLET_PRIVATE_KEY, in an encrypted JSON keystore, behind a remote
+// signing service, or nowhere (read-only)
+export type SignerType = 'local' | 'keystore' | 'remote' | 'readonly';
+
+/**
+ * Signs for the hot wallet
+ */
+export interface Signer {
+  readonly type: SignerType;
+  // Address the signatures recover to
+  readonly address: string;
+  /**
+   * Sign EIP-712 typed data
+   * @returns The signature as a hex string
+   */
+  signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>): Promise<string>;
+  /**
+   * Sign a populated EVM transaction
+   * @returns The raw signed transaction
+   */
+  signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string>;
+}
+
+/**
+ * Thrown when something needs a signature the configured signer cannot make
+ */
+export class SigningDisabledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SigningDisabledError';
+  }
+}
+
+/**
+ * Signs with a private key held in memory
+ */
+export class LocalKeySigner implements Signer {
+  private readonly wallet: ethers.Wallet;
+
+  constructor(privateKey: string | ethers.Wallet, readonly type: 'local' | 'keystore' = 'local') {
+    this.wallet = typeof privateKey === 'string' ? new ethers.Wallet(privateKey) : privateKey;
+  }
+
+  /**
+   * Decrypt an encrypted JSON keystore (as written by geth or ethers)
+   */
+  static async fromKeystore(keystoreJson: string, password: string): Promise<LocalKeySigner> {
+    return new LocalKeySigner(await ethers.Wallet.fromEncryptedJson(keystoreJson, password), 'keystore');
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>): Promise<string> {
+    return this.wallet._signTypedData(domain, types, value);
+  }
+
+  signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string> {
+    return this.wallet.signTransaction(transaction);
+  }
+}
+
+// Answers of the signing service; nothing in them is trusted until the signature has been checked
+interface RemoteTypedDataResponse {
+  signature?: unknown;
+}
+
+interface RemoteTransactionResponse {
+  signedTransaction?: unknown;
+}
+
+/**
+ * Asks a signing service over HTTP, which holds the key
+ * The service answers `POST /sign/typed-data` ({ address, domain, types, value } → { signature }) and
+ * `POST /sign/transaction` ({ address, unsignedTransaction } → { signedTransaction }). Every signature
+ * is checked against the address before it is used. See src/mock/remoteSignerMockServer.ts.
+ */
+export class RemoteSigner implements Signer {
+  readonly type = 'remote';
+
+  constructor(
+    private readonly url: string,
+    readonly address: string,
+    private readonly token: string,
+    private readonly timeoutMs: number
+  ) {}
+
+  private async post<T>(path: string, body: Record<string, unknown>): Promise<T | null> {
+    const response = await axios.post<T | null>(`${this.url.replace(/\/+$/, '')}${path}`, { address: this.address, ...body }, {
+      timeout: this.timeoutMs,
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : {}
+    });
+
+    return response.data;
+  }
+
+  async signTypedData(domain: TypedDataDomain, types: Record<string, TypedDataField[]>, value: Record<string, unknown>): Promise<string> {
+    const data = await this.post<RemoteTypedDataResponse>('/sign/typed-data', { domain, types, value });
+    const signature = data?.signature;
+
+    if (
+      typeof signature !== 'string' ||
+      ethers.utils.verifyTypedData(domain, types, value, signature).toLowerCase() !== this.address.toLowerCase()
+    ) {
+      throw new Error(`Remote signer returned a signature that is not from ${this.address}`);
+    }
+
+    return signature;
+  }
+
+  async signTransaction(transaction: ethers.providers.TransactionRequest): Promise<string> {
+    const { from, ...unsigned } = transaction;
+    const unsignedTransaction = ethers.utils.serializeTransaction(unsigned as ethers.UnsignedTransaction);
+    const data = await this.post<RemoteTransactionResponse>('/sign/transaction', { unsignedTransaction });
+    const signedTransaction = data?.signedTransaction;
+
+    if (
+      typeof signedTransaction !== 'string' ||
+      ethers.utils.parseTransaction(signedTransaction).from?.toLowerCase() !== this.address.toLowerCase()
+    ) {
+      throw new Error(`Remote signer returned a transaction that is not signed by ${this.address}`);
+    }
+
+    return signedTransaction;
+  }
+}
+
+/**
+ * Knows the hot wallet's address but cannot sign; balances and the ledger can be read, nothing can be sent
+ */
+export class ReadOnlySigner implements Signer {
+  readonly type = 'readonly';
+
+  constructor(readonly address: string) {}
+
+  async signTypedData(): Promise<string> {
+    throw new SigningDisabledError('Signing is disabled: the service runs read-only (SIGNER_TYPE=readonly)');
+  }
+
+  async signTransaction(): Promise<string> {
+    throw new SigningDisabledError('Signing is disabled: the service runs read-only (SIGNER_TYPE=readonly)');
+  }
+}
+
+/**
+ * Create the signer selected by SIGNER_TYPE, for every type but keystore
+ */
+function createSigner(): Signer {
+  switch (config.signerType) {
+    case 'keystore':
+      // Decrypting a keystore is slow, so it is done once by unlockSigner()
+      throw new Error('The keystore signer is not unlocked yet');
+
+    case 'remote':
+      return new RemoteSigner(
+        config.remoteSignerUrl,
+        config.hotWalletAddress,
+        config.remoteSignerToken,
+        config.remoteSignerTimeoutMs
+      );
+
+    case 'readonly':
+      return new ReadOnlySigner(config.hotWalletAddress);
+
+    default:
+      if (!config.walletPrivateKey) {
+        throw new Error('Wallet private key not configured');
+      }
+
+      return new LocalKeySigner(config.walletPrivateKey);
+  }
+}
+
+// Signer in use, once created, and the API wallet that places orders if there is one
+let signer: Signer | undefined;
+let agentSigner: Signer | undefined = config.hyperliquidAgentPrivateKey
+  ? new LocalKeySigner(config.hyperliquidAgentPrivateKey)
+  : undefined;
+
+/**
+ * Create the signer, decrypting the keystore if there is one, and check it signs for HOT_WALLET_ADDRESS
+ * Called once at startup, before anything needs a signature.
+ */
+export async function unlockSigner(): Promise<Signer> {
+  const created = config.signerType === 'keystore'
+    ? await LocalKeySigner.fromKeystore(
+        await fs.promises.readFile(config.signerKeystorePath, 'utf8'),
+        config.signerKeystorePassword
+      )
+    : createSigner();
+
+  if (config.hotWalletAddress && created.address.toLowerCase() !== config.hotWalletAddress.toLowerCase()) {
+    throw new Error(`The ${created.type} signer is for ${created.address}, not HOT_WALLET_ADDRESS ${config.hotWalletAddress}`);
+  }
+
+  signer = created;
+  console.log(`🔑 Signing for ${signer.address} with a ${signer.type} signer${agentSigner ? ` (orders by API wallet ${agentSigner.address})` : ''}`);
+  return signer;
+}
+
+/**
+ * Get the hot wallet's signer
+ * Signers other than a keystore are created on first use, so scripts and tests need not unlock them.
+ */
+export function getSigner(): Signer {
+  if (!signer) {
+    signer = createSigner();
+  }
+
+  return signer;
+}
+
+/**
+ * Get the signer for Hyperliquid orders
+ * That is the API wallet from HYPERLIQUID_AGENT_PRIVATE_KEY if there is one: Hyperliquid lets an API
+ * wallet the hot wallet approved trade for it, but not transfer or withdraw its funds.
+ */
+export function getOrderSigner(): Signer {
+  return agentSigner || getSigner();
+}
+
+/**
+ * Replace the signers
+ * Used by tests to sign with a throwaway key or a remote signer mock
+ */
+export function setSigner(hotWalletSigner: Signer, hyperliquidAgentSigner?: Signer): void {
+  signer = hotWalletSigner;
+  agentSigner = hyperliquidAgentSigner;
+}
+
+/**
+ * Whether the hot wallet can sign payouts
+ */
+export function canSign(): boolean {
+  return getSigner().type !== 'readonly';
+}
@@ -0,0 +1,224 @@
+import config from '../config/config';
+import { SpotDelivery } from '../repositories/transactionRepository';
+import { SpotMarket, SpotToken } from './hyperliquidClient';
+import {
+  BookLevel,
+  getL2Book,
+  getSpotBalances,
+  getSpotMeta,
+  placeIocBuyOrder,
+  spotSendToken,
+  transferUsdcToSpot
+} from './hyperliquidService';
+import { PayoutReceipt } from './payoutRailService';
+
+// Hyperliquid rejects spot orders worth less than this, in USDC
+const MIN_ORDER_VALUE = 10;
+
+// How long the spot token list is reused before fetching it again
+const META_CACHE_MS = 5 * 60 * 1000;
+
+// USDC is token 0 on Hyperliquid; every market we buy on is quoted in it
+const USDC_TOKEN_INDEX = 0;
+
+// A spot token with the market it trades on against USDC
+interface SpotTokenMarket {
+  token: SpotToken;
+  market: SpotMarket;
+}
+
+// Result of pricing a spot token delivery
+export interface SpotPriceCheck {
+  delivery?: SpotDelivery;
+  // Why the token cannot be delivered for the amount
+  error?: string;
+}
+
+// Spot metadata as last fetched
+let cachedMeta: { meta: { tokens: SpotToken[]; universe: SpotMarket[] }; fetchedAt: number } | undefined;
+
+/**
+ * The spot tokens enabled by SPOT_TOKENS, in that order
+ */
+export function getSpotTokens(): string[] {
+  return config.spotTokens;
+}
+
+/**
+ * Get an enabled spot token by name, in any case
+ * @returns The name as configured
+ */
+export function findSpotToken(name: string): string | undefined {
+  return getSpotTokens().find(token => token.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Look up a token and its USDC market in Hyperliquid's spot metadata
+ */
+async function getSpotTokenMarket(name: string): Promise<SpotTokenMarket> {
+  if (!cachedMeta || Date.now() - cachedMeta.fetchedAt > META_CACHE_MS) {
+    cachedMeta = { meta: await getSpotMeta(), fetchedAt: Date.now() };
+  }
+
+  const { tokens, universe } = cachedMeta.meta;
+  const token = tokens.find(t => t.name.toLowerCase() === name.toLowerCase());
+  const market = token && universe.find(m => m.tokens[0] === token.index && m.tokens[1] === USDC_TOKEN_INDEX);
+
+  if (!token || !market) {
+    throw new Error(`No USDC spot market for ${name}`);
+  }
+
+  return { token, market };
+}
+
+function roundDown(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.floor(value * factor + 1e-9) / factor;
+}
+
+function roundUp(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.ceil(value * factor - 1e-9) / factor;
+}
+
+/**
+ * Write a number the way Hyperliquid takes it in actions: fixed decimals without trailing zeros
+ */
+function toWire(value: number, decimals: number): string {
+  const fixed = value.toFixed(decimals);
+  return fixed.includes('.') ? fixed.replace(/\.?0+$/, '') : fixed;
+}
+
+/**
+ * Write a limit price as spot orders take it: at most 5 significant figures and 8 - szDecimals
+ * decimals, rounded down so the order never pays more than the limit
+ */
+function toOrderPrice(price: number, szDecimals: number): string {
+  const integerDigits = Math.floor(Math.log10(price)) + 1;
+  const decimals = Math.max(0, Math.min(8 - szDecimals, 5 - integerDigits));
+  return toWire(roundDown(price, decimals), decimals);
+}
+
+/**
+ * Walk the asks to see how much of the token `usdcAmount` buys
+ * @returns The size, its average price and the price of the last level reached,
+ *          or undefined if the book is too thin
+ */
+function walkAsks(asks: BookLevel[], usdcAmount: number): { size: number; averagePrice: number; worstPrice: number } | undefined {
+  let remaining = usdcAmount;
+  let size = 0;
+
+  for (const level of asks) {
+    const levelValue = level.px * level.sz;
+
+    if (levelValue >= remaining) {
+      size += remaining / level.px;
+      return { size, averagePrice: usdcAmount / size, worstPrice: level.px };
+    }
+
+    size += level.sz;
+    remaining -= levelValue;
+  }
+
+  return undefined;
+}
+
+/**
+ * Price a delivery of a spot token worth `usdcAmount` USDC off the current L2 book
+ * The customer gets what the amount buys at the asks, less the taker fee, rounded down to the token's
+ * size decimals. The delivery may be bought at up to SPOT_MAX_SLIPPAGE_PERCENT over the worst ask used.
+ * Throws if Hyperliquid cannot be asked.
+ */
+export async function priceSpotDelivery(name: string, usdcAmount: number): Promise<SpotPriceCheck> {
+  if (usdcAmount < MIN_ORDER_VALUE) {
+    return { error: `Spot tokens can only be bought for at least $${MIN_ORDER_VALUE}` };
+  }
+
+  const { token, market } = await getSpotTokenMarket(name);
+  const { asks } = await getL2Book(market.name);
+  const fill = walkAsks(asks, usdcAmount);
+
+  if (!fill) {
+    return { error: `Not enough ${token.name} for sale to fill $${usdcAmount.toFixed(2)} right now` };
+  }
+
+  const amount = roundDown(fill.size * (1 - config.spotTakerFeePercent / 100), token.szDecimals);
+
+  if (amount <= 0) {
+    return { error: `$${usdcAmount.toFixed(2)} does not buy a whole unit of ${token.name}` };
+  }
+
+  return {
+    delivery: {
+      token: token.name,
+      amount,
+      quotedPrice: parseFloat(fill.averagePrice.toPrecision(8)),
+      // Kept as the order will carry it
+      maxPrice: parseFloat(toOrderPrice(fill.worstPrice * (1 + config.spotMaxSlippagePercent / 100), token.szDecimals))
+    }
+  };
+}
+
+/**
+ * Buy a spot token with an IOC order limited to the delivery's max price
+ * Tops up the spot USDC balance from the perp balance first if the order could cost more than it holds.
+ * @returns The tokens received, after the taker fee
+ */
+async function buySpotToken({ token, market }: SpotTokenMarket, delivery: SpotDelivery): Promise<number> {
+  const size = roundUp(delivery.amount / (1 - config.spotTakerFeePercent / 100), token.szDecimals);
+  const price = toOrderPrice(delivery.maxPrice, token.szDecimals);
+  const maxCost = size * parseFloat(price);
+
+  const usdc = (await getSpotBalances()).find(balance => balance.coin === 'USDC');
+  const spotUsdc = usdc ? usdc.total - usdc.hold : 0;
+
+  if (spotUsdc < maxCost) {
+    await transferUsdcToSpot(roundUp(maxCost - spotUsdc, 2));
+  }
+
+  const { filledSize, averagePrice } = await placeIocBuyOrder(10000 + market.index, price, toWire(size, token.szDecimals));
+  console.log(`🛒 Bought ${filledSize} ${token.name} at an average of ${averagePrice} USDC`);
+
+  return filledSize * (1 - config.spotTakerFeePercent / 100);
+}
+
+/**
+ * Deliver a spot token to a customer on Hyperliquid
+ * Sends from the hot wallet's spot inventory when it holds enough, otherwise buys the token first.
+ * An order that cannot fill within the slippage limit is not delivered short: the payout fails with
+ * a terminal error so the customer is refunded, and whatever did fill stays in inventory. A retry
+ * after a filled order finds the tokens in inventory and does not buy again.
+ * @param nonce Nonce signed into the spotSend, reused on retries
+ */
+export async function deliverSpotToken(
+  destinationAddress: string,
+  delivery: SpotDelivery,
+  nonce: number
+): Promise<PayoutReceipt> {
+  const tokenMarket = await getSpotTokenMarket(delivery.token);
+  const { token } = tokenMarket;
+
+  const held = (await getSpotBalances()).find(balance => balance.coin === token.name);
+  let available = held ? held.total - held.hold : 0;
+
+  if (available < delivery.amount) {
+    console.log(`📦 Spot inventory has ${available} ${token.name}, buying ${delivery.amount}`);
+    available += await buySpotToken(tokenMarket, delivery);
+
+    if (available < delivery.amount) {
+      throw new Error(
+        `Spot order for ${delivery.amount} ${token.name} did not fill within the slippage limit ` +
+        `(max price ${delivery.maxPrice} USDC); ${roundDown(available, token.szDecimals)} ${token.name} available`
+      );
+    }
+  }
+
+  const receipt = await spotSendToken(
+    destinationAddress,
+    `${token.name}:${token.tokenId}`,
+    toWire(delivery.amount, token.szDecimals),
+    nonce
+  );
+
+  return { from: receipt.from, destination: receipt.destination, amount: delivery.amount };
+}
@@ -0,0 +1,26 @@
+import Stripe from 'stripe';
+import config from '../config/config';
+
+// Initialize Stripe with the secret key
+export const stripe = new Stripe(config.stripeSecretKey);
+
+/**
+ * Refund the full amount of a payment intent
+ * @param paymentIntentId The payment intent to refund
+ * @param metadata Metadata attached to the refund so its webhook events can be traced back
+ */
+export async function refundPaymentIntent(
+  paymentIntentId: string,
+  metadata: Record<string, string> = {}
+): Promise<Stripe.Refund> {
+  console.log(`💸 Issuing refund for payment intent: ${paymentIntentId}`);
+
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    reason: 'requested_by_customer',
+    metadata,
+  });
+
+  console.log(`✅ Refund issued: ${refund.id} (${refund.status})`);
+  return refund;
+}
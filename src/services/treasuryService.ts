@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import config from '../config/config';
+import { BalanceSnapshot, balanceSnapshotRepository } from '../repositories/balanceSnapshotRepository';
+import { FundingSource } from '../repositories/reservationRepository';
+import { sendAlert } from './notifierService';
+import { getAllPendingTransactions, getWalletBalance } from './onrampService';
+import { getPayoutRail, getPayoutRails } from './payoutRailService';
+
+// How funding sources are named in alerts
+const SOURCE_LABELS: Record<FundingSource, string> = {
+  core: 'Hyperliquid',
+  evm: 'HyperEVM'
+};
+
+// How close a funding source is to running dry
+export type TreasuryLevel = 'ok' | 'warning' | 'critical';
+
+// A balance snapshot with what the monitor makes of it
+export interface TreasuryStatus {
+  snapshot: BalanceSnapshot;
+  level: TreasuryLevel;
+  // Why the level is not ok
+  reasons: string[];
+}
+
+// Last alert sent for each funding source, so a standing problem is not reported on every poll
+const lastAlerts: Partial<Record<FundingSource, { level: TreasuryLevel; sentAt: number }>> = {};
+
+/**
+ * The funding sources the enabled payout rails pay from
+ */
+function getMonitoredSources(): FundingSource[] {
+  return Array.from(new Set(getPayoutRails().map(rail => rail.source)));
+}
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Work out how much USDC a funding source pays out per hour
+ * Counts payouts that went out within TREASURY_BURN_WINDOW_HOURS, including rail network fees.
+ */
+export async function getBurnRate(source: FundingSource, now: Date = new Date()): Promise<number> {
+  const windowStart = now.getTime() - config.treasuryBurnWindowHours * 60 * 60 * 1000;
+  let paidOut = 0;
+
+  for (const tx of await getAllPendingTransactions()) {
+    const rail = getPayoutRail(tx.payoutRail);
+    const paidAt = (tx.payoutStartedAt || tx.updatedAt).getTime();
+
+    if (
+      rail.source === source &&
+      (tx.status === 'completed' || tx.status === 'confirmed') &&
+      paidAt >= windowStart &&
+      paidAt <= now.getTime()
+    ) {
+      paidOut += tx.amount + rail.networkFee;
+    }
+  }
+
+  return roundCents(paidOut / config.treasuryBurnWindowHours);
+}
+
+/**
+ * Read the balance of a funding source and work out its burn rate and runway
+ */
+async function takeSnapshot(source: FundingSource): Promise<BalanceSnapshot> {
+  const recordedAt = new Date();
+  const { balance, pendingAmount, reservedAmount, availableForOnramp } = await getWalletBalance(source);
+  const burnRatePerHour = await getBurnRate(source, recordedAt);
+
+  return {
+    id: `bal_${crypto.randomUUID()}`,
+    source,
+    balance,
+    pendingAmount,
+    reservedAmount,
+    availableForOnramp,
+    burnRatePerHour,
+    ...(burnRatePerHour > 0 ? { runwayHours: Math.round(availableForOnramp / burnRatePerHour * 10) / 10 } : {}),
+    recordedAt
+  };
+}
+
+/**
+ * Compare a snapshot against the treasury thresholds
+ */
+function assess(snapshot: BalanceSnapshot): TreasuryStatus {
+  const reasons: string[] = [];
+  let level: TreasuryLevel = 'ok';
+
+  if (snapshot.availableForOnramp < config.treasuryCriticalBalanceUsd) {
+    level = 'critical';
+    reasons.push(`Available balance is below ${config.treasuryCriticalBalanceUsd} USDC`);
+  } else if (snapshot.availableForOnramp < config.treasuryWarningBalanceUsd) {
+    level = 'warning';
+    reasons.push(`Available balance is below ${config.treasuryWarningBalanceUsd} USDC`);
+  }
+
+  if (snapshot.runwayHours !== undefined && snapshot.runwayHours < config.treasuryMinRunwayHours) {
+    level = level === 'ok' ? 'warning' : level;
+    reasons.push(`Runway is under ${config.treasuryMinRunwayHours} hours at the current burn rate`);
+  }
+
+  return { snapshot, level, reasons };
+}
+
+/**
+ * Alert on a funding source that got worse, is still short after TREASURY_ALERT_REPEAT_MINUTES,
+ * or has recovered
+ */
+async function alertIfNeeded({ snapshot, level, reasons }: TreasuryStatus): Promise<void> {
+  const label = SOURCE_LABELS[snapshot.source];
+  const previous = lastAlerts[snapshot.source];
+  const now = snapshot.recordedAt.getTime();
+  const details = {
+    balance: `${snapshot.balance.toFixed(2)} USDC`,
+    available: `${snapshot.availableForOnramp.toFixed(2)} USDC`,
+    pending: `${snapshot.pendingAmount.toFixed(2)} USDC`,
+    burnRate: `${snapshot.burnRatePerHour.toFixed(2)} USDC/hour`,
+    runway: snapshot.runwayHours !== undefined ? `${snapshot.runwayHours} hours` : 'no recent payouts'
+  };
+
+  if (level === 'ok') {
+    if (previous) {
+      delete lastAlerts[snapshot.source];
+      await sendAlert({
+        severity: 'info',
+        title: `${label} hot wallet recovered`,
+        message: `Available balance is back to ${snapshot.availableForOnramp.toFixed(2)} USDC`,
+        details,
+        createdAt: snapshot.recordedAt
+      });
+    }
+
+    return;
+  }
+
+  if (previous && previous.level === level && now - previous.sentAt < config.treasuryAlertRepeatMinutes * 60 * 1000) {
+    return;
+  }
+
+  lastAlerts[snapshot.source] = { level, sentAt: now };
+  await sendAlert({
+    severity: level,
+    title: `${label} hot wallet running low`,
+    message: reasons.join('; '),
+    details,
+    createdAt: snapshot.recordedAt
+  });
+}
+
+/**
+ * Get the current status of every monitored funding source, without recording or alerting
+ */
+export async function getTreasuryStatus(): Promise<TreasuryStatus[]> {
+  const statuses: TreasuryStatus[] = [];
+
+  for (const source of getMonitoredSources()) {
+    statuses.push(assess(await takeSnapshot(source)));
+  }
+
+  return statuses;
+}
+
+/**
+ * Get the recorded balances of the last `hours` hours, oldest first
+ */
+export async function getBalanceHistory(hours: number, source?: FundingSource): Promise<BalanceSnapshot[]> {
+  return balanceSnapshotRepository.list(new Date(Date.now() - hours * 60 * 60 * 1000), source);
+}
+
+/**
+ * Record the balance of every monitored funding source, alert on any running low
+ * and drop history older than TREASURY_HISTORY_DAYS
+ */
+export async function checkTreasury(): Promise<TreasuryStatus[]> {
+  const statuses: TreasuryStatus[] = [];
+
+  for (const source of getMonitoredSources()) {
+    try {
+      const status = assess(await takeSnapshot(source));
+      await balanceSnapshotRepository.append(status.snapshot);
+      await alertIfNeeded(status);
+      statuses.push(status);
+    } catch (error) {
+      console.error(`❌ Could not check the ${SOURCE_LABELS[source]} balance:`, error);
+    }
+  }
+
+  await balanceSnapshotRepository.deleteRecordedBefore(
+    new Date(Date.now() - config.treasuryHistoryDays * 24 * 60 * 60 * 1000)
+  );
+
+  return statuses;
+}
+
+/**
+ * Start recording balances and alerting on a schedule
+ * @returns A function that stops the monitor
+ */
+export function startTreasuryMonitor(): () => void {
+  const run = () => {
+    checkTreasury().catch(error => console.error('❌ Treasury monitor error:', error));
+  };
+
+  const timer = setInterval(run, config.treasuryPollIntervalSeconds * 1000);
+  run();
+
+  console.log(`💰 Treasury monitor polling every ${config.treasuryPollIntervalSeconds}s`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { refundTransactionManually } from '../src/controllers/adminController';
+import {
+  createPendingTransaction,
+  getPendingTransactionBySessionId,
+  setTransactionRepository,
+  updatePendingTransaction
+} from '../src/services/onrampService';
+import { setLedgerRepository } from '../src/services/ledgerService';
+import { auditLogRepository } from '../src/repositories/auditLogRepository';
+import { InMemoryTransactionRepository, PendingTransaction } from '../src/repositories/transactionRepository';
+import { InMemoryLedgerRepository } from '../src/repositories/ledgerRepository';
+import { randomAddress, stubStripeRefunds } from './helpers';
+
+// What the admin handlers answer with
+interface AdminAnswer {
+  success: boolean;
+  message?: string;
+  transaction?: PendingTransaction;
+}
+
+/**
+ * Call an admin handler as an authenticated admin
+ * @returns The status and JSON body it answered with
+ */
+async function callAdmin(
+  handler: (req: Request, res: Response) => Promise<unknown>,
+  params: Record<string, string>,
+  body: Record<string, unknown>
+): Promise<{ status: number; body: AdminAnswer }> {
+  const answer: { status: number; body: AdminAnswer } = { status: 0, body: { success: false } };
+  const req = { params, body, query: {}, ip: '127.0.0.1' } as unknown as Request;
+  const res = {
+    locals: { admin: { method: 'api_key', id: 'test' } },
+    status(code: number) {
+      answer.status = code;
+      return this;
+    },
+    json(json: AdminAnswer) {
+      answer.body = json;
+      return this;
+    }
+  } as unknown as Response;
+
+  await handler(req, res);
+  return answer;
+}
+
+/**
+ * A transaction whose payout sent USDC, paid with `pi_<sessionId>`
+ */
+async function sentPayout(sessionId: string) {
+  const tx = await createPendingTransaction(sessionId, randomAddress(), 10);
+  return (await updatePendingTransaction(tx.id, {
+    status: 'confirmed',
+    paymentIntentId: `pi_${sessionId}`,
+    payoutNonce: Date.now(),
+    txHash: '0xsent',
+    confirmedAt: new Date()
+  }))!;
+}
+
+describe('refundTransactionManually', () => {
+  let stripeRefunds: ReturnType<typeof stubStripeRefunds>;
+
+  beforeEach(() => {
+    setTransactionRepository(new InMemoryTransactionRepository());
+    setLedgerRepository(new InMemoryLedgerRepository());
+    stripeRefunds = stubStripeRefunds();
+  });
+
+  afterEach(() => {
+    stripeRefunds.restore();
+  });
+
+  it('refuses to refund a transaction whose payout already sent USDC', async () => {
+    await sentPayout('cs_sent');
+
+    const { status } = await callAdmin(refundTransactionManually, { sessionId: 'cs_sent' }, { reason: 'Customer asked' });
+
+    assert.equal(status, 409);
+    assert.deepEqual(stripeRefunds.refunded, []);
+    assert.equal((await getPendingTransactionBySessionId('cs_sent'))?.status, 'confirmed');
+
+    const [entry] = await auditLogRepository.list(1);
+    assert.equal(entry.outcome, 'failure');
+    assert.equal(entry.details?.error, 'Payout already started');
+  });
+
+  it('refunds it with force and records the override in the audit log', async () => {
+    await sentPayout('cs_forced');
+
+    const { status, body } = await callAdmin(
+      refundTransactionManually,
+      { sessionId: 'cs_forced' },
+      { reason: 'Sent to the wrong wallet, recovered by hand', force: true }
+    );
+
+    assert.equal(status, 200);
+    assert.equal(body.transaction?.status, 'refunded');
+    assert.deepEqual(stripeRefunds.refunded, ['pi_cs_forced']);
+
+    const [entry] = await auditLogRepository.list(1);
+    assert.equal(entry.outcome, 'success');
+    assert.equal(entry.details?.force, true);
+    assert.equal(entry.details?.previousStatus, 'confirmed');
+  });
+
+  it('refunds a transaction whose payout never started', async () => {
+    const tx = await createPendingTransaction('cs_failed', randomAddress(), 10);
+    await updatePendingTransaction(tx.id, { status: 'failed', paymentIntentId: 'pi_cs_failed' });
+
+    const { status } = await callAdmin(refundTransactionManually, { sessionId: 'cs_failed' }, { reason: 'Customer asked' });
+
+    assert.equal(status, 200);
+    assert.deepEqual(stripeRefunds.refunded, ['pi_cs_failed']);
+  });
+});
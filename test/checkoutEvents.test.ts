@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Stripe from 'stripe';
+import { handleCheckoutSessionCompleted } from '../src/services/checkoutEventService';
+import { getWalletBalance } from '../src/services/onrampService';
+import { attachReservationToSession, reserveCapacity } from '../src/services/reservationService';
+import { reservationRepository } from '../src/repositories/reservationRepository';
+import {
+  PayoutHarness,
+  perpBalance,
+  randomAddress,
+  startPayoutHarness,
+  stubStripeRefunds,
+  usdSendCalls,
+  waitFor
+} from './helpers';
+
+/**
+ * A completed checkout session paying out `amount` USDC to `walletAddress`
+ */
+function completedSession(
+  id: string,
+  walletAddress: string,
+  amount: number,
+  paymentStatus: Stripe.Checkout.Session.PaymentStatus
+): Stripe.Checkout.Session {
+  return {
+    id,
+    object: 'checkout.session',
+    created: Math.floor(Date.now() / 1000),
+    payment_status: paymentStatus,
+    payment_intent: null,
+    customer_details: null,
+    metadata: { walletAddress, baseAmount: String(amount) }
+  } as unknown as Stripe.Checkout.Session;
+}
+
+/**
+ * Reserve capacity for a checkout and link it to its session, as checkout creation does
+ */
+async function reserveForSession(sessionId: string, walletAddress: string, amount: number): Promise<string> {
+  const { reservation } = await reserveCapacity(walletAddress, amount);
+  assert.ok(reservation);
+  await attachReservationToSession(reservation.id, sessionId, reservation.expiresAt);
+  return reservation.id;
+}
+
+describe('checkout.session.completed', () => {
+  let harness: PayoutHarness;
+  let stripeRefunds: ReturnType<typeof stubStripeRefunds>;
+
+  beforeEach(async () => {
+    harness = await startPayoutHarness();
+    stripeRefunds = stubStripeRefunds();
+  });
+
+  afterEach(async () => {
+    stripeRefunds.restore();
+    await harness.close();
+  });
+
+  it('has the transaction counting a checkout\'s capacity before its reservation is converted', async () => {
+    const wallet = randomAddress();
+    const reservationId = await reserveForSession('cs_convert', wallet, 25);
+    const reservedBefore = (await getWalletBalance()).pendingAmount;
+    const pendingAtConversion: number[] = [];
+
+    // Read what is owed at the moment the reservation stops counting
+    const update = reservationRepository.update;
+    reservationRepository.update = async (id, updates) => {
+      if (updates.status === 'converted') {
+        const converted = await update.call(reservationRepository, id, updates);
+        pendingAtConversion.push((await getWalletBalance()).pendingAmount);
+        return converted;
+      }
+
+      return update.call(reservationRepository, id, updates);
+    };
+
+    try {
+      await handleCheckoutSessionCompleted(completedSession('cs_convert', wallet, 25, 'paid'));
+    } finally {
+      reservationRepository.update = update;
+    }
+
+    assert.deepEqual(pendingAtConversion, [reservedBefore]);
+    assert.equal((await reservationRepository.findById(reservationId))?.status, 'converted');
+    await waitFor(async () => (await harness.transactions.findBySessionId('cs_convert'))?.status === 'completed');
+  });
+
+  it('records a delayed payment as awaiting payment', async () => {
+    const wallet = randomAddress();
+    await reserveForSession('cs_delayed', wallet, 25);
+
+    await handleCheckoutSessionCompleted(completedSession('cs_delayed', wallet, 25, 'unpaid'));
+
+    assert.equal((await harness.transactions.findBySessionId('cs_delayed'))?.status, 'awaiting_payment');
+  });
+
+  it('pays out a redelivered event once, from a single transaction', async () => {
+    const wallet = randomAddress();
+    const reservationId = await reserveForSession('cs_redelivered', wallet, 10);
+    const session = completedSession('cs_redelivered', wallet, 10, 'paid');
+
+    await Promise.all([handleCheckoutSessionCompleted(session), handleCheckoutSessionCompleted(session)]);
+
+    const transactions = (await harness.transactions.list()).filter(tx => tx.stripeSessionId === 'cs_redelivered');
+    assert.equal(transactions.length, 1);
+    assert.equal((await reservationRepository.findById(reservationId))?.status, 'converted');
+
+    await waitFor(async () => (await harness.transactions.findBySessionId('cs_redelivered'))?.status === 'completed');
+    assert.equal(perpBalance(harness, wallet), 10);
+    assert.equal(usdSendCalls(harness).length, 1);
+  });
+
+  it('releases the reservation of a session it cannot pay out', async () => {
+    const wallet = randomAddress();
+    const reservationId = await reserveForSession('cs_no_metadata', wallet, 10);
+    const session = completedSession('cs_no_metadata', wallet, 10, 'paid');
+    session.metadata = {};
+
+    await handleCheckoutSessionCompleted(session);
+
+    assert.equal((await reservationRepository.findById(reservationId))?.status, 'released');
+    assert.equal(await harness.transactions.findBySessionId('cs_no_metadata'), undefined);
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FeeOptions,
+  calculateFees,
+  calculateFeesForTotal,
+  loadFeeSchedule,
+  setFeeSchedule
+} from '../src/services/feeService';
+import { FxRate } from '../src/services/fxService';
+
+const eur: FxRate = {
+  currency: 'eur',
+  usdPerUnit: 1.1,
+  spreadPercent: 1,
+  provider: 'static',
+  fetchedAt: new Date().toISOString()
+};
+
+/**
+ * Check that a 'pay' mode breakdown charges exactly `total` and delivers the most USDC that fits in it
+ */
+function assertExactInverse(total: number, options: FeeOptions = {}): void {
+  const fees = calculateFeesForTotal(total, options);
+  assert.ok(fees, `no breakdown for a total of ${total}`);
+
+  assert.equal(fees.mode, 'pay');
+  assert.equal(fees.charge.total, total);
+  assert.equal(
+    fees.charge.baseAmount + fees.charge.serviceFee + fees.charge.networkFee + fees.charge.fxFee + fees.charge.processingFee,
+    total
+  );
+  assert.ok(fees.roundingAdjustmentCents >= 0);
+  assert.ok(calculateFees(fees.baseAmountCents, options).charge.total <= total);
+  assert.ok(
+    calculateFees(fees.baseAmountCents + 1, options).charge.total > total,
+    `a base amount of ${fees.baseAmountCents + 1} would also fit in ${total}`
+  );
+}
+
+describe('fees', () => {
+  afterEach(() => {
+    setFeeSchedule(loadFeeSchedule());
+  });
+
+  describe('calculateFees', () => {
+    it('adds the service and card processing fees on top of the amount', () => {
+      const fees = calculateFees(10000);
+
+      assert.equal(fees.serviceFeeCents, 50);
+      assert.equal(fees.stripeFeeCents, 321);
+      assert.equal(fees.totalAmountCents, 10371);
+      assert.equal(fees.charge.total, 10371);
+    });
+
+    it('charges the processing fee on the network fee too, and caps it for bank debits', () => {
+      const fees = calculateFees(100000, { paymentMethod: 'us_bank_account', networkFeeCents: 100 });
+
+      assert.equal(fees.networkFeeCents, 100);
+      assert.equal(fees.stripeFeeCents, 500);
+      assert.equal(fees.totalAmountCents, 100000 + 500 + 100 + 500);
+    });
+
+    it('applies the minimum fee and then the promo discount', () => {
+      setFeeSchedule({
+        tiers: [{ percent: 1, flatCents: 0 }],
+        minimumFeeCents: 200,
+        processingFees: { card: { percent: 0, flatCents: 0 } },
+        promoCodes: [{ code: 'half', percentOff: 50 }]
+      });
+
+      const fees = calculateFees(1000, { promoCode: 'HALF' });
+
+      assert.equal(fees.minimumFeeApplied, true);
+      assert.equal(fees.discountCents, 100);
+      assert.equal(fees.serviceFeeCents, 100);
+      assert.equal(fees.promoCode, 'HALF');
+    });
+
+    it('adds the FX spread and converts every line to the charge currency', () => {
+      const fees = calculateFees(11000, { fx: eur });
+
+      assert.equal(fees.fxFeeCents, Math.round((11000 + 55) * 0.01));
+      assert.equal(fees.charge.currency, 'eur');
+      assert.equal(fees.charge.baseAmount, 10000);
+      assert.equal(
+        fees.charge.total,
+        fees.charge.baseAmount + fees.charge.serviceFee + fees.charge.fxFee + fees.charge.processingFee
+      );
+    });
+  });
+
+  describe('calculateFeesForTotal', () => {
+    it('charges exactly the total asked for, for the most USDC it covers', () => {
+      for (const total of [100, 101, 999, 1000, 2500, 10371, 10372, 123456]) {
+        assertExactInverse(total);
+      }
+    });
+
+    it('inverts bank debit, network fee and FX pricing', () => {
+      for (const total of [5000, 77777, 100000, 250000]) {
+        assertExactInverse(total, { paymentMethod: 'us_bank_account', networkFeeCents: 100 });
+        assertExactInverse(total, { fx: eur });
+      }
+    });
+
+    it('finds the best amount across fee tiers', () => {
+      setFeeSchedule({
+        tiers: [
+          { upToCents: 10000, percent: 3, flatCents: 100 },
+          { upToCents: 50000, percent: 1, flatCents: 0 },
+          { percent: 0.5, flatCents: 0 }
+        ],
+        minimumFeeCents: 0,
+        processingFees: { card: { percent: 2.9, flatCents: 30 } },
+        promoCodes: []
+      });
+
+      // Just above the first tier a larger amount is cheaper than the top of the first tier
+      for (const total of [10000, 10500, 10700, 10800, 11000, 51000, 52000, 60000]) {
+        assertExactInverse(total);
+      }
+    });
+
+    it('returns nothing for a total that does not cover the fees', () => {
+      assert.equal(calculateFeesForTotal(30), undefined);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpFxRateProvider } from '../src/services/fxService';
+
+describe('HttpFxRateProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === '/rates') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ rates: { USD: 1, EUR: 0.8, GBP: 'n/a' } }));
+        return;
+      }
+
+      if (req.url === '/broken') {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ result: 'error' }));
+        return;
+      }
+
+      // '/hang' never answers
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('turns units per USD into USD per unit and skips rates that are not numbers', async () => {
+    const rates = await new HttpFxRateProvider(`${baseUrl}/rates`, 1000).getRates();
+
+    assert.deepEqual(rates, { usd: 1, eur: 1.25 });
+  });
+
+  it('rejects a response without rates', async () => {
+    await assert.rejects(new HttpFxRateProvider(`${baseUrl}/broken`, 1000).getRates(), /Unexpected exchange rate response/);
+  });
+
+  it('gives up on an API that does not answer within its timeout', async () => {
+    const startedAt = Date.now();
+
+    await assert.rejects(new HttpFxRateProvider(`${baseUrl}/hang`, 200).getRates(), /timeout/);
+    assert.ok(Date.now() - startedAt < 2000);
+  });
+});
@@ -0,0 +1,116 @@
+import { ethers } from 'ethers';
+import Stripe from 'stripe';
+import {
+  MockHyperliquidServer,
+  startMockHyperliquidServer
+} from '../src/mock/hyperliquidMockServer';
+import { HyperliquidClient } from '../src/services/hyperliquidClient';
+import { setHyperliquidClient } from '../src/services/hyperliquidService';
+import { LocalKeySigner, setSigner } from '../src/services/signerService';
+import { setTransactionRepository } from '../src/services/onrampService';
+import { setPayoutJobRepository } from '../src/services/payoutQueueService';
+import { setLedgerRepository } from '../src/services/ledgerService';
+import { stripe } from '../src/services/stripeService';
+import { InMemoryTransactionRepository } from '../src/repositories/transactionRepository';
+import { InMemoryPayoutJobRepository } from '../src/repositories/payoutJobRepository';
+import { InMemoryLedgerRepository } from '../src/repositories/ledgerRepository';
+
+// Timeout of the Hyperliquid client in tests; a mock failure delayed past it runs the client into a timeout
+export const CLIENT_TIMEOUT_MS = 300;
+
+// A hot wallet funded on a running mock Hyperliquid API, with empty in-memory stores
+export interface PayoutHarness {
+  hotWallet: ethers.Wallet;
+  mock: MockHyperliquidServer;
+  transactions: InMemoryTransactionRepository;
+  jobs: InMemoryPayoutJobRepository;
+  ledger: InMemoryLedgerRepository;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the mock Hyperliquid API and point the services at it with a fresh hot wallet and stores
+ * @param balance USDC on the hot wallet's perp account
+ */
+export async function startPayoutHarness(balance = 1000): Promise<PayoutHarness> {
+  const hotWallet = ethers.Wallet.createRandom();
+  const mock = await startMockHyperliquidServer();
+  mock.state.perpBalances[hotWallet.address.toLowerCase()] = balance;
+
+  setSigner(new LocalKeySigner(hotWallet.privateKey));
+  setHyperliquidClient(new HyperliquidClient({
+    baseUrl: mock.url,
+    chain: 'Mainnet',
+    signatureChainId: 42161,
+    timeoutMs: CLIENT_TIMEOUT_MS
+  }));
+
+  const transactions = new InMemoryTransactionRepository();
+  const jobs = new InMemoryPayoutJobRepository();
+  const ledger = new InMemoryLedgerRepository();
+  setTransactionRepository(transactions);
+  setPayoutJobRepository(jobs);
+  setLedgerRepository(ledger);
+
+  return { hotWallet, mock, transactions, jobs, ledger, close: () => mock.close() };
+}
+
+/**
+ * A random address to pay out to
+ */
+export function randomAddress(): string {
+  return ethers.Wallet.createRandom().address;
+}
+
+/**
+ * USDC the mock credited to an address's perp account
+ */
+export function perpBalance(harness: PayoutHarness, address: string): number {
+  return harness.mock.state.perpBalances[address.toLowerCase()] || 0;
+}
+
+/**
+ * usdSend actions the mock received (accepted or refused)
+ */
+export function usdSendCalls(harness: PayoutHarness) {
+  return harness.mock.state.exchangeCalls.filter(call => call.action.type === 'usdSend');
+}
+
+/**
+ * Replace stripe.refunds.create with a stub that records the payment intents it was asked to refund
+ * @param status Status of the refunds it returns
+ * @returns The refunded payment intents and a function that puts the real method back
+ */
+export function stubStripeRefunds(status: Stripe.Refund['status'] = 'succeeded'): {
+  refunded: string[];
+  restore(): void;
+} {
+  const original = stripe.refunds.create;
+  const refunded: string[] = [];
+
+  stripe.refunds.create = (async (params: Stripe.RefundCreateParams) => {
+    refunded.push(String(params.payment_intent));
+    return { id: `re_${refunded.length}`, object: 'refund', status, payment_intent: params.payment_intent } as Stripe.Refund;
+  }) as typeof stripe.refunds.create;
+
+  return { refunded, restore: () => { stripe.refunds.create = original; } };
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Wait until a check passes, e.g. for a payout the worker runs in the background
+ */
+export async function waitFor(check: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!(await check())) {
+    if (Date.now() > deadline) {
+      throw new Error(`Condition not met within ${timeoutMs}ms`);
+    }
+
+    await sleep(50);
+  }
+}
@@ -0,0 +1,100 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/config/config';
+import {
+  attachUsageToSession,
+  getRemainingAllowance,
+  recordCheckout,
+  recordPayment,
+  setLimitUsageRepository,
+  voidUsage
+} from '../src/services/limitsService';
+import { InMemoryLimitUsageRepository } from '../src/repositories/limitUsageRepository';
+import { randomAddress } from './helpers';
+
+describe('limits', () => {
+  const defaults = {
+    dailyLimitUsd: config.dailyLimitUsd,
+    weeklyLimitUsd: config.weeklyLimitUsd,
+    monthlyLimitUsd: config.monthlyLimitUsd,
+    maxCheckoutsPerHour: config.maxCheckoutsPerHour
+  };
+
+  before(() => {
+    config.dailyLimitUsd = 1000;
+    config.weeklyLimitUsd = 2000;
+    config.monthlyLimitUsd = 0;
+    config.maxCheckoutsPerHour = 3;
+  });
+
+  after(() => {
+    Object.assign(config, defaults);
+  });
+
+  beforeEach(() => {
+    setLimitUsageRepository(new InMemoryLimitUsageRepository());
+  });
+
+  it('refuses a checkout over the daily cap and says what is left', async () => {
+    const wallet = randomAddress();
+    assert.ok((await recordCheckout({ walletAddress: wallet }, 700)).usage);
+
+    const { usage, violation } = await recordCheckout({ walletAddress: wallet.toLowerCase() }, 400);
+
+    assert.equal(usage, undefined);
+    assert.equal(violation?.code, 'amount_limit_exceeded');
+    assert.equal(violation?.httpStatus, 400);
+    assert.equal(violation?.window, 'daily');
+    assert.equal(violation?.remaining, 300);
+    assert.deepEqual(await getRemainingAllowance({ walletAddress: wallet }), [
+      { window: 'daily', limit: 1000, remaining: 300 },
+      { window: 'weekly', limit: 2000, remaining: 1300 }
+    ]);
+  });
+
+  it('lets only the checkouts that fit through when they race', async () => {
+    const wallet = randomAddress();
+
+    const results = await Promise.all([400, 400, 400].map(amount => recordCheckout({ walletAddress: wallet }, amount)));
+
+    assert.equal(results.filter(result => result.usage).length, 2);
+    assert.equal(results.filter(result => result.violation).length, 1);
+  });
+
+  it('stops counting a voided checkout towards the caps but not towards velocity', async () => {
+    const wallet = randomAddress();
+    const { usage } = await recordCheckout({ walletAddress: wallet }, 900);
+    await voidUsage(usage!.id);
+
+    assert.ok((await recordCheckout({ walletAddress: wallet }, 900)).usage);
+    assert.ok((await recordCheckout({ walletAddress: wallet }, 50)).usage);
+
+    const { violation } = await recordCheckout({ walletAddress: wallet }, 10);
+    assert.equal(violation?.code, 'velocity_limit_exceeded');
+    assert.equal(violation?.httpStatus, 429);
+    assert.ok(violation!.retryAfterSeconds! > 0);
+  });
+
+  it('rejects a payment whose email already used up its cap on other wallets, once', async () => {
+    const first = await recordCheckout({ walletAddress: randomAddress() }, 800);
+    await attachUsageToSession(first.usage!.id, 'cs_first');
+    await recordPayment('cs_first', { email: 'Customer@Example.com' }, { walletAddress: first.usage!.walletAddress, amount: 800 });
+
+    const second = await recordCheckout({ walletAddress: randomAddress() }, 800);
+    assert.ok(second.usage);
+    await attachUsageToSession(second.usage.id, 'cs_second');
+
+    const rejected = await recordPayment(
+      'cs_second',
+      { email: 'customer@example.com' },
+      { walletAddress: second.usage.walletAddress, amount: 800 }
+    );
+    assert.equal(rejected.status, 'rejected');
+    assert.match(rejected.rejectionReason!, /email address/);
+
+    // The decision is kept for redelivered events
+    const again = await recordPayment('cs_second', {}, { walletAddress: second.usage.walletAddress, amount: 800 });
+    assert.equal(again.id, rejected.id);
+    assert.equal(again.status, 'rejected');
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FilePayoutJobRepository,
+  InMemoryPayoutJobRepository,
+  PayoutJob,
+  PayoutJobRepository
+} from '../src/repositories/payoutJobRepository';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function newJob(stripeSessionId: string, overrides: Partial<PayoutJob> = {}): PayoutJob {
+  const now = new Date();
+  return {
+    id: `job_${Math.random().toString(36).substring(2, 9)}`,
+    stripeSessionId,
+    walletAddress: '0x000000000000000000000000000000000000dEaD',
+    amount: 10,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: 5,
+    nextRunAt: now,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  };
+}
+
+function tempStorePath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'hyperramp-jobs-')), 'payout-jobs.json');
+}
+
+const implementations: [string, () => PayoutJobRepository][] = [
+  ['InMemoryPayoutJobRepository', () => new InMemoryPayoutJobRepository()],
+  ['FilePayoutJobRepository', () => new FilePayoutJobRepository(tempStorePath())]
+];
+
+for (const [name, createRepository] of implementations) {
+  describe(`${name} retention`, () => {
+    it('deletes succeeded and dead jobs last updated before the cutoff and keeps the rest', async () => {
+      const repository = createRepository();
+      const old = new Date(Date.now() - 40 * DAY_MS);
+      await repository.enqueue(newJob('cs_succeeded', { status: 'succeeded', updatedAt: old }));
+      await repository.enqueue(newJob('cs_dead', { status: 'dead', updatedAt: old }));
+      await repository.enqueue(newJob('cs_parked', { status: 'parked', updatedAt: old }));
+      await repository.enqueue(newJob('cs_queued', { updatedAt: old }));
+      await repository.enqueue(newJob('cs_recent', { status: 'succeeded' }));
+
+      assert.equal(await repository.deleteFinishedBefore(new Date(Date.now() - 30 * DAY_MS)), 2);
+      assert.deepEqual(
+        (await repository.list()).map(job => job.stripeSessionId).sort(),
+        ['cs_parked', 'cs_queued', 'cs_recent']
+      );
+    });
+  });
+}
+
+describe('FilePayoutJobRepository', () => {
+  it('leaves the store file alone when no job is due', async () => {
+    const filePath = tempStorePath();
+    const repository = new FilePayoutJobRepository(filePath);
+    await repository.enqueue(newJob('cs_later', { nextRunAt: new Date(Date.now() + 60_000) }));
+    const written = fs.readFileSync(filePath, 'utf8');
+
+    assert.equal(await repository.claimNext(new Date(), 60_000), undefined);
+    assert.equal(fs.readFileSync(filePath, 'utf8'), written);
+
+    const claimed = await repository.claimNext(new Date(Date.now() + 120_000), 60_000);
+    assert.equal(claimed?.status, 'running');
+    assert.equal((await new FilePayoutJobRepository(filePath).findById(claimed!.id))?.status, 'running');
+  });
+});
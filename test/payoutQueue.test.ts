@@ -0,0 +1,358 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import config from '../src/config/config';
+import { enqueuePayout, processDuePayoutJobs, retryPayout } from '../src/services/payoutQueueService';
+import { getPendingTransactionBySessionId, resolveTransaction } from '../src/services/onrampService';
+import { recoverStalledPayouts } from '../src/services/confirmationService';
+import { refundTransaction } from '../src/services/refundService';
+import { walletFlagRepository } from '../src/repositories/walletFlagRepository';
+import {
+  CLIENT_TIMEOUT_MS,
+  PayoutHarness,
+  perpBalance,
+  randomAddress,
+  sleep,
+  startPayoutHarness,
+  stubStripeRefunds,
+  usdSendCalls,
+  waitFor
+} from './helpers';
+
+describe('payout queue', () => {
+  let harness: PayoutHarness;
+  let stripeRefunds: ReturnType<typeof stubStripeRefunds>;
+  const backoffBaseSeconds = config.payoutBackoffBaseSeconds;
+
+  before(() => {
+    config.payoutBackoffBaseSeconds = 1;
+  });
+
+  after(() => {
+    config.payoutBackoffBaseSeconds = backoffBaseSeconds;
+  });
+
+  beforeEach(async () => {
+    harness = await startPayoutHarness();
+    stripeRefunds = stubStripeRefunds();
+  });
+
+  afterEach(async () => {
+    stripeRefunds.restore();
+    await harness.close();
+  });
+
+  async function queuePayout(sessionId: string, walletAddress: string, amount = 10) {
+    return enqueuePayout({ stripeSessionId: sessionId, paymentIntentId: `pi_${sessionId}`, walletAddress, amount });
+  }
+
+  it('pays out a queued session once', async () => {
+    const wallet = randomAddress();
+    const job = await queuePayout('cs_once', wallet);
+
+    await processDuePayoutJobs();
+    await processDuePayoutJobs();
+
+    assert.equal((await harness.jobs.findById(job.id))?.status, 'succeeded');
+    assert.equal((await getPendingTransactionBySessionId('cs_once'))?.status, 'completed');
+    assert.equal(perpBalance(harness, wallet), 10);
+    assert.equal(usdSendCalls(harness).length, 1);
+  });
+
+  it('retries a transient failure with backoff and the same nonce', async () => {
+    const wallet = randomAddress();
+    const job = await queuePayout('cs_transient', wallet);
+    harness.mock.state.failures.push({ endpoint: '/exchange', status: 502 });
+
+    await processDuePayoutJobs();
+
+    const failed = await harness.jobs.findById(job.id);
+    assert.equal(failed?.status, 'queued');
+    assert.equal(failed?.attempts, 1);
+    assert.ok(failed!.nextRunAt.getTime() > Date.now());
+    assert.equal((await getPendingTransactionBySessionId('cs_transient'))?.status, 'pending');
+
+    const { payoutNonce } = (await getPendingTransactionBySessionId('cs_transient'))!;
+    await sleep(1100);
+    await processDuePayoutJobs();
+
+    assert.equal((await harness.jobs.findById(job.id))?.status, 'succeeded');
+    assert.equal(perpBalance(harness, wallet), 10);
+    assert.deepEqual(usdSendCalls(harness).map(call => call.nonce), [payoutNonce]);
+    assert.deepEqual(stripeRefunds.refunded, []);
+  });
+
+  it('confirms a send that went through before its response timed out instead of sending it again', async () => {
+    const wallet = randomAddress();
+    const job = await queuePayout('cs_timeout', wallet);
+
+    // Hyperliquid accepts the send, but only answers after the client gave up
+    harness.mock.state.failures.push({ endpoint: '/exchange', delayMs: CLIENT_TIMEOUT_MS * 2 });
+    await processDuePayoutJobs();
+    assert.equal((await getPendingTransactionBySessionId('cs_timeout'))?.status, 'pending');
+
+    // The retry signs the same nonce, which Hyperliquid refuses as a duplicate
+    await sleep(1100);
+    await processDuePayoutJobs();
+
+    const calls = usdSendCalls(harness);
+    assert.equal(calls.length, 2);
+    assert.equal(calls[0].nonce, calls[1].nonce);
+    assert.match(JSON.stringify(calls[1].response), /duplicate nonce/);
+
+    const tx = await getPendingTransactionBySessionId('cs_timeout');
+    assert.equal(tx?.status, 'confirmed');
+    assert.ok(tx?.txHash);
+    assert.equal((await harness.jobs.findById(job.id))?.status, 'succeeded');
+    assert.equal(perpBalance(harness, wallet), 10);
+    assert.ok(await harness.ledger.find('disbursement:cs_timeout'));
+    assert.deepEqual(stripeRefunds.refunded, []);
+  });
+
+  it('parks a send refused for its nonce that is not in the ledger, without sending again or refunding', async () => {
+    const wallet = randomAddress();
+    const job = await queuePayout('cs_nonce', wallet);
+    harness.mock.state.failures.push({
+      endpoint: '/exchange',
+      body: { status: 'err', response: 'Invalid nonce: duplicate nonce' }
+    });
+
+    await processDuePayoutJobs();
+    await sleep(1100);
+    await processDuePayoutJobs();
+
+    const tx = await getPendingTransactionBySessionId('cs_nonce');
+    assert.equal(tx?.status, 'unverified');
+    assert.equal(tx?.needsReview, true);
+    assert.ok(tx?.payoutNonce);
+    assert.equal((await harness.jobs.findById(job.id))?.status, 'parked');
+    assert.equal(perpBalance(harness, wallet), 0);
+    assert.equal(usdSendCalls(harness).length, 0);
+    assert.deepEqual(stripeRefunds.refunded, []);
+  });
+
+  it('dead-letters a terminal failure and refunds the customer', async () => {
+    const job = await enqueuePayout({
+      stripeSessionId: 'cs_terminal',
+      paymentIntentId: 'pi_cs_terminal',
+      walletAddress: 'not-an-address',
+      amount: 10
+    });
+
+    await processDuePayoutJobs();
+
+    assert.equal((await harness.jobs.findById(job.id))?.status, 'dead');
+    assert.deepEqual(stripeRefunds.refunded, ['pi_cs_terminal']);
+    assert.equal((await getPendingTransactionBySessionId('cs_terminal'))?.status, 'refunded');
+  });
+
+  it('settles a send that timed out from the ledger when the retry fails terminally, without refunding', async () => {
+    const wallet = randomAddress();
+    const job = await queuePayout('cs_timeout_frozen', wallet);
+
+    // Hyperliquid accepts the send, but only answers after the client gave up
+    harness.mock.state.failures.push({ endpoint: '/exchange', delayMs: CLIENT_TIMEOUT_MS * 2 });
+    await processDuePayoutJobs();
+    assert.equal((await getPendingTransactionBySessionId('cs_timeout_frozen'))?.status, 'pending');
+
+    // The retry stops at the freeze check, before it gets to sign the nonce again
+    await walletFlagRepository.freeze(wallet, 'Dispute opened', 'test');
+    await sleep(1100);
+    await processDuePayoutJobs();
+
+    assert.equal((await getPendingTransactionBySessionId('cs_timeout_frozen'))?.status, 'confirmed');
+    assert.equal((await harness.jobs.findById(job.id))?.status, 'succeeded');
+    assert.equal(usdSendCalls(harness).length, 1);
+    assert.equal(perpBalance(harness, wallet), 10);
+    assert.deepEqual(stripeRefunds.refunded, []);
+  });
+
+  it('settles a send that timed out on every attempt from the ledger instead of refunding', async () => {
+    const maxAttempts = config.payoutMaxAttempts;
+    config.payoutMaxAttempts = 2;
+
+    try {
+      const wallet = randomAddress();
+      const job = await queuePayout('cs_timeout_always', wallet);
+
+      // The first send goes through, the retry is refused as a duplicate; neither answer arrives in time
+      harness.mock.state.failures.push(
+        { endpoint: '/exchange', delayMs: CLIENT_TIMEOUT_MS * 2 },
+        { endpoint: '/exchange', delayMs: CLIENT_TIMEOUT_MS * 2 }
+      );
+      await processDuePayoutJobs();
+      await sleep(1100);
+      await processDuePayoutJobs();
+
+      assert.equal((await getPendingTransactionBySessionId('cs_timeout_always'))?.status, 'confirmed');
+      assert.equal((await harness.jobs.findById(job.id))?.status, 'succeeded');
+      assert.equal(perpBalance(harness, wallet), 10);
+      assert.deepEqual(stripeRefunds.refunded, []);
+    } finally {
+      config.payoutMaxAttempts = maxAttempts;
+    }
+  });
+
+  describe('retryPayout', () => {
+    it('refuses to retry a payout that was sent, even after its refund failed', async () => {
+      const wallet = randomAddress();
+      await queuePayout('cs_sent', wallet);
+      await processDuePayoutJobs();
+      assert.equal((await getPendingTransactionBySessionId('cs_sent'))?.status, 'completed');
+
+      // An operator refunds the payment anyway and Stripe refuses the refund
+      stripeRefunds.restore();
+      stripeRefunds = stubStripeRefunds('failed');
+      await refundTransaction('cs_sent', 'pi_cs_sent', 'Manual refund: customer asked');
+      assert.equal((await getPendingTransactionBySessionId('cs_sent'))?.status, 'refund_failed');
+
+      await assert.rejects(retryPayout('cs_sent'), /already started/);
+      await processDuePayoutJobs();
+
+      assert.equal(perpBalance(harness, wallet), 10);
+      assert.equal(usdSendCalls(harness).length, 1);
+    });
+
+    it('refuses to retry a payout whose send failed after it was signed', async () => {
+      const wallet = randomAddress();
+      await queuePayout('cs_signed', wallet);
+      harness.mock.state.failures.push({ endpoint: '/exchange', status: 400 });
+
+      await processDuePayoutJobs();
+      const tx = await getPendingTransactionBySessionId('cs_signed');
+      assert.equal(tx?.status, 'unverified');
+      assert.ok(tx?.payoutNonce);
+      assert.deepEqual(stripeRefunds.refunded, []);
+
+      await assert.rejects(retryPayout('cs_signed'), /Only failed payouts/);
+    });
+
+    it('retries a payout that failed before anything was sent', async () => {
+      const wallet = randomAddress();
+      const job = await queuePayout('cs_frozen', wallet);
+      stripeRefunds.restore();
+      stripeRefunds = stubStripeRefunds('failed');
+      await walletFlagRepository.freeze(wallet, 'Under review', 'test');
+
+      await processDuePayoutJobs();
+      assert.equal((await getPendingTransactionBySessionId('cs_frozen'))?.status, 'refund_failed');
+      assert.equal(usdSendCalls(harness).length, 0);
+
+      await walletFlagRepository.unfreeze(wallet);
+      await retryPayout('cs_frozen');
+      await waitFor(async () => (await harness.jobs.findById(job.id))?.status === 'succeeded');
+
+      assert.equal(perpBalance(harness, wallet), 10);
+      assert.equal(usdSendCalls(harness).length, 1);
+    });
+  });
+
+  describe('stalled payouts', () => {
+    const lapsed = () => new Date(Date.now() - 1000);
+
+    it('confirms a payout that stalled after its send went out', async () => {
+      const wallet = randomAddress();
+      await queuePayout('cs_crashed', wallet);
+      await processDuePayoutJobs();
+
+      // The process died after Hyperliquid took the send but before the outcome was written
+      const sent = (await getPendingTransactionBySessionId('cs_crashed'))!;
+      await harness.transactions.update(sent.id, {
+        status: 'processing',
+        txHash: undefined,
+        payoutStartedAt: new Date(sent.payoutNonce!),
+        leaseExpiresAt: lapsed()
+      });
+
+      assert.equal(await recoverStalledPayouts(), 1);
+
+      const tx = await getPendingTransactionBySessionId('cs_crashed');
+      assert.equal(tx?.status, 'confirmed');
+      assert.ok(tx?.txHash);
+      assert.equal(usdSendCalls(harness).length, 1);
+    });
+
+    it('parks the job of a payout that stalled without a send in the ledger, and lets an operator resolve it', async () => {
+      const wallet = randomAddress();
+      const job = await queuePayout('cs_stalled', wallet);
+      await harness.transactions.create({
+        id: 'tx_stalled',
+        stripeSessionId: 'cs_stalled',
+        walletAddress: wallet,
+        amount: 10,
+        status: 'processing',
+        payoutNonce: Date.now(),
+        payoutStartedAt: new Date(),
+        leaseOwner: 'crashed_worker',
+        leaseExpiresAt: lapsed(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      await processDuePayoutJobs();
+
+      const tx = await getPendingTransactionBySessionId('cs_stalled');
+      assert.equal(tx?.status, 'unverified');
+      assert.equal(tx?.needsReview, true);
+      assert.equal((await harness.jobs.findById(job.id))?.status, 'parked');
+      assert.equal(usdSendCalls(harness).length, 0);
+      assert.deepEqual(stripeRefunds.refunded, []);
+
+      const resolved = await resolveTransaction('cs_stalled', 'admin_1', 'Checked the ledger, nothing was sent');
+      assert.equal(resolved?.status, 'resolved');
+    });
+
+    it('lets an operator resolve a stalled payout before it was recovered', async () => {
+      await harness.transactions.create({
+        id: 'tx_stalled_resolve',
+        stripeSessionId: 'cs_stalled_resolve',
+        walletAddress: randomAddress(),
+        amount: 10,
+        status: 'processing',
+        payoutNonce: Date.now(),
+        payoutStartedAt: new Date(),
+        leaseExpiresAt: lapsed(),
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+
+      const resolved = await resolveTransaction('cs_stalled_resolve', 'admin_1', 'Sent by hand');
+      assert.equal(resolved?.status, 'resolved');
+    });
+
+    it('parks a job that keeps finding its session held by another payout', async () => {
+      const maxDeferrals = config.payoutMaxDeferrals;
+      config.payoutMaxDeferrals = 1;
+
+      try {
+        const job = await queuePayout('cs_held', randomAddress());
+        await harness.transactions.create({
+          id: 'tx_held',
+          stripeSessionId: 'cs_held',
+          walletAddress: job.walletAddress,
+          amount: 10,
+          status: 'processing',
+          leaseOwner: 'other_worker',
+          leaseExpiresAt: new Date(Date.now() + 60_000),
+          createdAt: new Date(),
+          updatedAt: new Date()
+        });
+
+        await processDuePayoutJobs();
+        const deferred = await harness.jobs.findById(job.id);
+        assert.equal(deferred?.status, 'queued');
+        assert.equal(deferred?.deferrals, 1);
+        assert.equal(deferred?.attempts, 0);
+
+        await harness.jobs.update(job.id, { nextRunAt: new Date() });
+        await processDuePayoutJobs();
+
+        assert.equal((await harness.jobs.findById(job.id))?.status, 'parked');
+        assert.equal((await getPendingTransactionBySessionId('cs_held'))?.needsReview, true);
+        assert.equal(usdSendCalls(harness).length, 0);
+        assert.deepEqual(stripeRefunds.refunded, []);
+      } finally {
+        config.payoutMaxDeferrals = maxDeferrals;
+      }
+    });
+  });
+});
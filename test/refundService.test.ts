@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import Stripe from 'stripe';
+import {
+  createPendingTransaction,
+  getPendingTransactionBySessionId,
+  setTransactionRepository,
+  updatePendingTransaction
+} from '../src/services/onrampService';
+import { handleChargeRefunded, handleRefundEvent, refundTransaction } from '../src/services/refundService';
+import { setLedgerRepository } from '../src/services/ledgerService';
+import { stripe } from '../src/services/stripeService';
+import { InMemoryTransactionRepository } from '../src/repositories/transactionRepository';
+import { InMemoryLedgerRepository } from '../src/repositories/ledgerRepository';
+import { randomAddress, stubStripeRefunds } from './helpers';
+
+/**
+ * A failed payout's transaction, paid with `pi_<sessionId>`
+ */
+async function failedPayout(sessionId: string) {
+  const tx = await createPendingTransaction(sessionId, randomAddress(), 10);
+  return (await updatePendingTransaction(tx.id, { status: 'failed', paymentIntentId: `pi_${sessionId}` }))!;
+}
+
+function refundEvent(id: string, paymentIntentId: string, status: string, failureReason?: string): Stripe.Refund {
+  return {
+    id,
+    object: 'refund',
+    status,
+    payment_intent: paymentIntentId,
+    failure_reason: failureReason
+  } as Stripe.Refund;
+}
+
+describe('refund lifecycle', () => {
+  let stripeRefunds: ReturnType<typeof stubStripeRefunds> | undefined;
+
+  beforeEach(() => {
+    setTransactionRepository(new InMemoryTransactionRepository());
+    setLedgerRepository(new InMemoryLedgerRepository());
+  });
+
+  afterEach(() => {
+    stripeRefunds?.restore();
+    stripeRefunds = undefined;
+  });
+
+  it('marks a transaction refunded once Stripe refunds it', async () => {
+    stripeRefunds = stubStripeRefunds('succeeded');
+    await failedPayout('cs_refund');
+
+    const tx = await refundTransaction('cs_refund', 'pi_cs_refund', 'Payout failed: invalid address');
+
+    assert.equal(tx?.status, 'refunded');
+    assert.equal(tx?.refundId, 're_1');
+    assert.equal(tx?.refundReason, 'Payout failed: invalid address');
+    assert.ok(tx?.refundedAt);
+  });
+
+  it('never refunds a transaction twice', async () => {
+    stripeRefunds = stubStripeRefunds('pending');
+    await failedPayout('cs_twice');
+
+    await refundTransaction('cs_twice', 'pi_cs_twice', 'First');
+    const again = await refundTransaction('cs_twice', 'pi_cs_twice', 'Second');
+
+    assert.equal(again?.status, 'refund_pending');
+    assert.deepEqual(stripeRefunds.refunded, ['pi_cs_twice']);
+  });
+
+  it('follows a pending refund through its webhook events', async () => {
+    stripeRefunds = stubStripeRefunds('pending');
+    await failedPayout('cs_pending');
+    await refundTransaction('cs_pending', 'pi_cs_pending', 'Payout failed');
+
+    await handleRefundEvent(refundEvent('re_1', 'pi_cs_pending', 'succeeded'));
+
+    const tx = await getPendingTransactionBySessionId('cs_pending');
+    assert.equal(tx?.status, 'refunded');
+    assert.ok(tx?.refundedAt);
+  });
+
+  it('records why a refund failed, so an operator can retry it', async () => {
+    stripeRefunds = stubStripeRefunds('pending');
+    await failedPayout('cs_declined');
+    await refundTransaction('cs_declined', 'pi_cs_declined', 'Payout failed');
+
+    await handleRefundEvent(refundEvent('re_1', 'pi_cs_declined', 'failed', 'expired_or_canceled_card'));
+
+    const tx = await getPendingTransactionBySessionId('cs_declined');
+    assert.equal(tx?.status, 'refund_failed');
+    assert.equal(tx?.refundError, 'expired_or_canceled_card');
+  });
+
+  it('records an error from Stripe as a failed refund', async () => {
+    const create = stripe.refunds.create;
+    stripe.refunds.create = (async () => {
+      throw new Error('Charge has already been refunded');
+    }) as typeof stripe.refunds.create;
+
+    try {
+      await failedPayout('cs_error');
+      const tx = await refundTransaction('cs_error', 'pi_cs_error', 'Payout failed');
+
+      assert.equal(tx?.status, 'refund_failed');
+      assert.equal(tx?.refundError, 'Charge has already been refunded');
+    } finally {
+      stripe.refunds.create = create;
+    }
+  });
+
+  it('settles a transaction only when its charge is fully refunded', async () => {
+    await failedPayout('cs_charge');
+    const charge = { id: 'ch_1', payment_intent: 'pi_cs_charge', amount: 1000, amount_refunded: 500, refunded: false } as Stripe.Charge;
+
+    await handleChargeRefunded(charge);
+    assert.equal((await getPendingTransactionBySessionId('cs_charge'))?.status, 'failed');
+
+    await handleChargeRefunded({ ...charge, amount_refunded: 1000, refunded: true });
+    assert.equal((await getPendingTransactionBySessionId('cs_charge'))?.status, 'refunded');
+  });
+});
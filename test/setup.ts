@@ -0,0 +1,20 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Environment for the test suite, loaded before any test file
+ * Set here rather than taken from .env so tests never talk to a real Stripe account or write to ./data.
+ */
+
+process.env.VITE_STRIPE_SECRET_KEY = 'sk_test_suite';
+process.env.STRIPE_WEBHOOK_SECRET = 'whsec_test_suite';
+process.env.NETWORK_ENV = 'mainnet';
+process.env.STORAGE_DRIVER = 'memory';
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'hyperramp-test-'));
+process.env.SIGNER_TYPE = 'local';
+process.env.WALLET_PRIVATE_KEY = '';
+process.env.HOT_WALLET_ADDRESS = '';
+process.env.FX_PROVIDER = 'static';
+process.env.FX_STATIC_RATES = 'eur:1.1,gbp:1.25';
+process.env.ALERT_NOTIFIERS = 'log';
@@ -0,0 +1,123 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { RemoteSigner, setSigner } from '../src/services/signerService';
+import { RemoteSignerMockServer, startRemoteSignerMockServer } from '../src/mock/remoteSignerMockServer';
+import { enqueuePayout, processDuePayoutJobs } from '../src/services/payoutQueueService';
+import { getPendingTransactionBySessionId } from '../src/services/onrampService';
+import { PayoutHarness, perpBalance, randomAddress, startPayoutHarness, stubStripeRefunds } from './helpers';
+
+const TOKEN = 'signer_test_token';
+
+const domain = { name: 'Test', version: '1', chainId: 42161 };
+const types = { Message: [{ name: 'text', type: 'string' }] };
+const value = { text: 'hello' };
+
+/**
+ * Start a signing service that answers every request with `answer`
+ */
+async function startFakeSigner(answer: (req: express.Request) => Promise<unknown>): Promise<{ url: string; server: Server }> {
+  const app = express();
+  app.use(express.json());
+  app.post('/sign/:kind', async (req, res) => res.json(await answer(req)));
+
+  const server = await new Promise<Server>(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server };
+}
+
+describe('RemoteSigner', () => {
+  let mock: RemoteSignerMockServer;
+
+  before(async () => {
+    mock = await startRemoteSignerMockServer({ token: TOKEN });
+  });
+
+  after(async () => {
+    await mock.close();
+  });
+
+  it('signs typed data and transactions for its address', async () => {
+    const signer = new RemoteSigner(`${mock.url}/`, mock.address, TOKEN, 1000);
+
+    const signature = await signer.signTypedData(domain, types, value);
+    assert.equal(ethers.utils.verifyTypedData(domain, types, value, signature), mock.address);
+
+    const signedTransaction = await signer.signTransaction({
+      from: mock.address,
+      to: randomAddress(),
+      nonce: 0,
+      gasLimit: 21000,
+      maxFeePerGas: 2,
+      maxPriorityFeePerGas: 1,
+      type: 2,
+      chainId: 999
+    });
+    assert.equal(ethers.utils.parseTransaction(signedTransaction).from, mock.address);
+  });
+
+  it('fails when the signing service refuses its token', async () => {
+    const signer = new RemoteSigner(mock.url, mock.address, 'wrong_token', 1000);
+
+    await assert.rejects(signer.signTypedData(domain, types, value), /401/);
+  });
+
+  it('rejects signatures that are missing or from another key', async () => {
+    const otherKey = ethers.Wallet.createRandom();
+    const fakes = [
+      await startFakeSigner(async req => req.params.kind === 'typed-data'
+        ? { signature: await otherKey._signTypedData(req.body.domain, req.body.types, req.body.value) }
+        : { signedTransaction: await otherKey.signTransaction({ to: randomAddress(), nonce: 0, gasLimit: 21000, gasPrice: 1 }) }),
+      await startFakeSigner(async () => ({}))
+    ];
+
+    try {
+      for (const fake of fakes) {
+        const signer = new RemoteSigner(fake.url, mock.address, TOKEN, 1000);
+
+        await assert.rejects(signer.signTypedData(domain, types, value), /not from/);
+        await assert.rejects(signer.signTransaction({ to: randomAddress(), nonce: 0, gasLimit: 21000, gasPrice: 1 }), /not signed by/);
+      }
+    } finally {
+      for (const fake of fakes) {
+        await new Promise(resolve => fake.server.close(resolve));
+      }
+    }
+  });
+});
+
+describe('setSigner', () => {
+  let harness: PayoutHarness;
+  let signerMock: RemoteSignerMockServer;
+  let stripeRefunds: ReturnType<typeof stubStripeRefunds>;
+
+  beforeEach(async () => {
+    harness = await startPayoutHarness(0);
+    signerMock = await startRemoteSignerMockServer({ token: TOKEN });
+    stripeRefunds = stubStripeRefunds();
+  });
+
+  afterEach(async () => {
+    stripeRefunds.restore();
+    await signerMock.close();
+    await harness.close();
+  });
+
+  it('pays out from the wallet of a remote signer', async () => {
+    const wallet = randomAddress();
+    harness.mock.state.perpBalances[signerMock.address.toLowerCase()] = 100;
+    setSigner(new RemoteSigner(signerMock.url, signerMock.address, TOKEN, 1000));
+
+    await enqueuePayout({ stripeSessionId: 'cs_remote', paymentIntentId: 'pi_cs_remote', walletAddress: wallet, amount: 10 });
+    await processDuePayoutJobs();
+
+    assert.equal((await getPendingTransactionBySessionId('cs_remote'))?.status, 'completed');
+    assert.equal(perpBalance(harness, wallet), 10);
+    assert.equal(perpBalance(harness, signerMock.address), 90);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileTransactionRepository,
+  InMemoryTransactionRepository,
+  PendingTransaction,
+  TransactionRepository,
+  canTakeOverClaim
+} from '../src/repositories/transactionRepository';
+
+function newTransaction(stripeSessionId: string, overrides: Partial<PendingTransaction> = {}): PendingTransaction {
+  const now = new Date();
+  return {
+    id: `tx_${Math.random().toString(36).substring(2, 9)}`,
+    walletAddress: '0x000000000000000000000000000000000000dEaD',
+    amount: 10,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+    stripeSessionId,
+    ...overrides
+  };
+}
+
+function tempStorePath(): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'hyperramp-tx-')), 'transactions.json');
+}
+
+const implementations: [string, () => TransactionRepository][] = [
+  ['InMemoryTransactionRepository', () => new InMemoryTransactionRepository()],
+  ['FileTransactionRepository', () => new FileTransactionRepository(tempStorePath())]
+];
+
+for (const [name, createRepository] of implementations) {
+  describe(`${name} session claims`, () => {
+    it('lets only one of several concurrent claims on a session win', async () => {
+      const repository = createRepository();
+
+      const claims = await Promise.all(
+        [1, 2, 3].map(i => repository.claimSession(newTransaction('cs_race'), `worker_${i}`, 60_000))
+      );
+
+      assert.equal(claims.filter(claim => claim.claimed).length, 1);
+      assert.equal((await repository.list()).length, 1);
+      assert.equal((await repository.findBySessionId('cs_race'))?.status, 'processing');
+    });
+
+    it('refuses a claim while the lease is held and takes it over once it lapses', async () => {
+      const repository = createRepository();
+      const first = await repository.claimSession(newTransaction('cs_lease'), 'worker_1', 60_000);
+
+      const refused = await repository.claimSession(newTransaction('cs_lease'), 'worker_2', 60_000);
+      assert.equal(refused.claimed, false);
+      assert.equal(refused.transaction.leaseOwner, 'worker_1');
+
+      await repository.update(first.transaction.id, { leaseExpiresAt: new Date(Date.now() - 1000) });
+      const takenOver = await repository.claimSession(newTransaction('cs_lease'), 'worker_2', 60_000);
+
+      assert.equal(takenOver.claimed, true);
+      assert.equal(takenOver.transaction.id, first.transaction.id);
+      assert.equal(takenOver.transaction.leaseOwner, 'worker_2');
+    });
+
+    it('never takes over a claim whose payout has started, even after the lease lapsed', async () => {
+      const repository = createRepository();
+      const first = await repository.claimSession(newTransaction('cs_started'), 'worker_1', 60_000);
+
+      await repository.update(first.transaction.id, {
+        payoutStartedAt: new Date(),
+        payoutNonce: Date.now(),
+        leaseExpiresAt: new Date(Date.now() - 1000)
+      });
+
+      const second = await repository.claimSession(newTransaction('cs_started'), 'worker_2', 60_000);
+      assert.equal(second.claimed, false);
+      assert.equal(second.transaction.leaseOwner, 'worker_1');
+    });
+
+    it('does not claim a session whose payout already finished', async () => {
+      const repository = createRepository();
+      await repository.create(newTransaction('cs_done', { status: 'completed' }));
+
+      const claim = await repository.claimSession(newTransaction('cs_done'), 'worker_1', 60_000);
+      assert.equal(claim.claimed, false);
+      assert.equal(claim.transaction.status, 'completed');
+    });
+  });
+}
+
+describe('FileTransactionRepository', () => {
+  it('keeps transactions and their dates across restarts', async () => {
+    const filePath = tempStorePath();
+    const startedAt = new Date('2026-10-01T12:00:00.000Z');
+    const created = await new FileTransactionRepository(filePath).create(
+      newTransaction('cs_restart', { status: 'processing', payoutStartedAt: startedAt, payoutNonce: 42 })
+    );
+
+    const reloaded = await new FileTransactionRepository(filePath).findById(created.id);
+
+    assert.equal(reloaded?.stripeSessionId, 'cs_restart');
+    assert.equal(reloaded?.payoutNonce, 42);
+    assert.ok(reloaded?.payoutStartedAt instanceof Date);
+    assert.equal(reloaded?.payoutStartedAt?.toISOString(), startedAt.toISOString());
+  });
+});
+
+describe('canTakeOverClaim', () => {
+  const now = new Date();
+
+  it('allows pending transactions and lapsed claims that never started a send', () => {
+    assert.equal(canTakeOverClaim(newTransaction('cs', { status: 'pending' }), now), true);
+    assert.equal(canTakeOverClaim(newTransaction('cs', {
+      status: 'processing',
+      leaseExpiresAt: new Date(now.getTime() - 1)
+    }), now), true);
+  });
+
+  it('refuses live claims, started payouts and finished transactions', () => {
+    assert.equal(canTakeOverClaim(newTransaction('cs', {
+      status: 'processing',
+      leaseExpiresAt: new Date(now.getTime() + 60_000)
+    }), now), false);
+    assert.equal(canTakeOverClaim(newTransaction('cs', {
+      status: 'processing',
+      payoutStartedAt: now,
+      leaseExpiresAt: new Date(now.getTime() - 1)
+    }), now), false);
+    assert.equal(canTakeOverClaim(newTransaction('cs', { status: 'confirmed' }), now), false);
+  });
+});